@@ -5,22 +5,80 @@ import {
   Menu,
   nativeTheme,
   dialog,
+  screen,
 } from "electron";
 import * as fs from "fs";
 import * as path from "path";
+import { ConfigChange, WindowBounds } from "./preload";
+import { ConfigStore, checkWindowValue } from "./services/configStore";
+import { importConnectionFiles } from "./services/connectionImport";
 import { DatabaseService } from "./services/database";
 import { KeychainService } from "./services/keychain";
 import { AIService } from "./services/ai";
+import { QueryHistoryStore } from "./services/queryHistory";
 
 let mainWindow: BrowserWindow;
 let databaseService: DatabaseService;
 let keychainService: KeychainService;
 let aiService: AIService;
+let configStore: ConfigStore;
+let queryHistory: QueryHistoryStore;
+
+// Lets the end-to-end tests start every run from an empty profile
+if (process.env.MESSQL_USER_DATA_DIR) {
+  app.setPath("userData", process.env.MESSQL_USER_DATA_DIR);
+}
+
+// Tells the other windows about a section one of them saved
+const broadcastConfigChange = (
+  change: ConfigChange,
+  sender?: Electron.WebContents,
+): void => {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (window.webContents !== sender) {
+      window.webContents.send("config:changed", change);
+    }
+  }
+};
+
+// The saved position is dropped when no display shows the window's top left
+// corner any more, e.g. after unplugging a monitor
+const getSavedBounds = (): WindowBounds => {
+  const bounds = configStore.get("windowBounds");
+  if (!bounds) return { width: 1200, height: 800 };
+  if (bounds.x === undefined || bounds.y === undefined) return bounds;
+
+  const { x, y } = bounds;
+  const visible = screen.getAllDisplays().some(({ workArea }) => {
+    return (
+      x >= workArea.x &&
+      y >= workArea.y &&
+      x < workArea.x + workArea.width &&
+      y < workArea.y + workArea.height
+    );
+  });
+  return visible ? bounds : { ...bounds, x: undefined, y: undefined };
+};
+
+const saveWindowBounds = (window: BrowserWindow): Promise<void> => {
+  // Unmaximized bounds, so that unmaximizing after a restart still works
+  const { x, y, width, height } = window.getNormalBounds();
+  return configStore.set("windowBounds", {
+    x,
+    y,
+    width,
+    height,
+    maximized: window.isMaximized(),
+  });
+};
 
 const createWindow = (): void => {
+  const bounds = getSavedBounds();
   mainWindow = new BrowserWindow({
-    height: 800,
-    width: 1200,
+    x: bounds.x,
+    y: bounds.y,
+    height: bounds.height,
+    width: bounds.width,
     minHeight: 600,
     minWidth: 800,
     webPreferences: {
@@ -34,24 +92,44 @@ const createWindow = (): void => {
     vibrancy: "sidebar",
   });
 
-  // Handle window close event to check for open tabs
+  if (bounds.maximized) {
+    mainWindow.maximize();
+  }
+
+  let boundsTimer: NodeJS.Timeout | undefined;
+  const scheduleBoundsSave = () => {
+    clearTimeout(boundsTimer);
+    boundsTimer = setTimeout(() => {
+      saveWindowBounds(mainWindow).catch((error) =>
+        console.error("Error saving window bounds:", error),
+      );
+    }, 500);
+  };
+  mainWindow.on("resize", scheduleBoundsSave);
+  mainWindow.on("move", scheduleBoundsSave);
+
+  // Tabs come back on the next start, so only open transactions are lost on
+  // close. The renderer saves its tabs before it answers.
   mainWindow.on("close", async (event) => {
     event.preventDefault();
+    clearTimeout(boundsTimer);
 
     try {
-      const hasOpenTabs = await mainWindow.webContents.executeJavaScript(`
-        window.electronAPI && window.electronAPI.hasOpenTabs ? window.electronAPI.hasOpenTabs() : false
+      await saveWindowBounds(mainWindow);
+      const hasOpenTransactions = await mainWindow.webContents
+        .executeJavaScript(`
+        window.electronAPI && window.electronAPI.beforeClose ? window.electronAPI.beforeClose() : false
       `);
 
-      if (hasOpenTabs) {
-        const { dialog } = await import("electron");
+      if (hasOpenTransactions) {
         const choice = await dialog.showMessageBox(mainWindow, {
           type: "question",
           buttons: ["Close", "Cancel"],
           defaultId: 1,
           message:
-            "You have open query tabs. Are you sure you want to close the application?",
-          detail: "Any unsaved work will be lost.",
+            "Some tabs have open transactions. Are you sure you want to close the application?",
+          detail:
+            "The open transactions will be rolled back. Tabs and their queries are restored on the next start.",
         });
 
         if (choice.response === 0) {
@@ -114,6 +192,12 @@ const createMenu = (): void => {
             mainWindow.webContents.send("close-tab");
           },
         },
+        {
+          label: "Import Connections from .pgpass and pg_service.conf",
+          click: () => {
+            mainWindow.webContents.send("import-connections");
+          },
+        },
         { type: "separator" },
         {
           label: "AI Settings",
@@ -163,6 +247,21 @@ const createMenu = (): void => {
     {
       label: "View",
       submenu: [
+        {
+          label: "Session Activity",
+          accelerator: "CmdOrCtrl+Shift+A",
+          click: () => {
+            mainWindow.webContents.send("session-activity");
+          },
+        },
+        {
+          label: "Locks and Blocking",
+          accelerator: "CmdOrCtrl+Shift+L",
+          click: () => {
+            mainWindow.webContents.send("lock-viewer");
+          },
+        },
+        { type: "separator" },
         { role: "reload" },
         { role: "forceReload" },
         { role: "toggleDevTools" },
@@ -184,15 +283,34 @@ const createMenu = (): void => {
   Menu.setApplicationMenu(menu);
 };
 
-app.whenReady().then(() => {
-  createWindow();
-  createMenu();
-
+app.whenReady().then(async () => {
   databaseService = new DatabaseService();
   keychainService = new KeychainService();
   aiService = new AIService();
+  configStore = new ConfigStore(app.getPath("userData"), keychainService);
+  queryHistory = new QueryHistoryStore(app.getPath("userData"));
+
+  // Windows read their connections from the config as they start
+  try {
+    await configStore.load();
+  } catch (error) {
+    dialog.showErrorBox(
+      "Could not read the configuration",
+      `mesSQL starts without saved connections. ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  try {
+    await queryHistory.load();
+  } catch (error) {
+    dialog.showErrorBox(
+      "Could not read the query history",
+      `Queries run now are still added to it. ${error instanceof Error ? error.message : error}`,
+    );
+  }
 
   setupIpcHandlers();
+  createWindow();
+  createMenu();
 
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) createWindow();
@@ -213,8 +331,17 @@ const setupIpcHandlers = (): void => {
     if (!password) {
       throw new Error("Password not found in keychain");
     }
-
-    return await databaseService.connect(connectionConfig, password);
+    // Absent for keys without a passphrase
+    const secrets = {
+      ssh: connectionConfig.ssh
+        ? await keychainService.getSshSecret(connectionConfig.id)
+        : null,
+      sslKey: connectionConfig.ssl?.keyPath
+        ? await keychainService.getSslKeyPassphrase(connectionConfig.id)
+        : null,
+    };
+
+    return await databaseService.connect(connectionConfig, password, secrets);
   });
 
   ipcMain.handle("db:disconnect", async (_, connectionId) => {
@@ -223,13 +350,28 @@ const setupIpcHandlers = (): void => {
 
   ipcMain.handle(
     "db:query",
-    async (_, connectionId, sql, params, schema, queryId) => {
+    async (_, connectionId, sql, params, schema, queryId, options) => {
       return await databaseService.query(
         connectionId,
         sql,
         params,
         schema,
         queryId,
+        options,
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "db:explain",
+    async (_, connectionId, sql, params, schema, queryId, options) => {
+      return await databaseService.explain(
+        connectionId,
+        sql,
+        params,
+        schema,
+        queryId,
+        options,
       );
     },
   );
@@ -238,6 +380,48 @@ const setupIpcHandlers = (): void => {
     return await databaseService.cancelQuery(queryId);
   });
 
+  // Paging through results held open in server-side cursors
+  ipcMain.handle("db:fetchRows", async (_, cursorId, count) => {
+    return await databaseService.fetchRows(cursorId, count);
+  });
+
+  ipcMain.handle("db:countRows", async (_, cursorId) => {
+    return await databaseService.countRows(cursorId);
+  });
+
+  ipcMain.handle("db:closeCursor", async (_, cursorId) => {
+    return await databaseService.closeCursor(cursorId);
+  });
+
+  // Manual transaction handling for sessions pinned to a tab
+  ipcMain.handle("db:getTransactionStatus", async (_, sessionId) => {
+    return await databaseService.getTransactionStatus(sessionId);
+  });
+
+  ipcMain.handle("db:commit", async (_, sessionId) => {
+    return await databaseService.commit(sessionId);
+  });
+
+  ipcMain.handle("db:rollback", async (_, sessionId) => {
+    return await databaseService.rollback(sessionId);
+  });
+
+  ipcMain.handle("db:savepoint", async (_, sessionId, name) => {
+    return await databaseService.savepoint(sessionId, name);
+  });
+
+  ipcMain.handle("db:rollbackToSavepoint", async (_, sessionId, name) => {
+    return await databaseService.rollbackToSavepoint(sessionId, name);
+  });
+
+  ipcMain.handle("db:releaseSavepoint", async (_, sessionId, name) => {
+    return await databaseService.releaseSavepoint(sessionId, name);
+  });
+
+  ipcMain.handle("db:closeSession", async (_, sessionId) => {
+    return await databaseService.closeSession(sessionId);
+  });
+
   ipcMain.handle("db:getSchemas", async (_, connectionId) => {
     return await databaseService.getSchemas(connectionId);
   });
@@ -256,6 +440,56 @@ const setupIpcHandlers = (): void => {
     },
   );
 
+  // LISTEN/NOTIFY console
+  ipcMain.handle("db:listen", async (_, connectionId, channel) => {
+    return await databaseService.listen(connectionId, channel);
+  });
+
+  ipcMain.handle("db:unlisten", async (_, connectionId, channel) => {
+    return await databaseService.unlisten(connectionId, channel);
+  });
+
+  ipcMain.handle("db:notify", async (_, connectionId, channel, payload) => {
+    return await databaseService.notify(connectionId, channel, payload);
+  });
+
+  // Session activity monitor
+  ipcMain.handle("db:getActivity", async (_, connectionId) => {
+    return await databaseService.getActivity(connectionId);
+  });
+
+  ipcMain.handle("db:signalSession", async (_, connectionId, pid, signal) => {
+    return await databaseService.signalSession(connectionId, pid, signal);
+  });
+
+  ipcMain.handle("db:getBlockingSessions", async (_, connectionId) => {
+    return await databaseService.getBlockingSessions(connectionId);
+  });
+
+  databaseService.on("notification", (notification) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("db:notification", notification);
+    }
+  });
+
+  databaseService.on("listenerEnded", (connectionId, message) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("db:listenerEnded", connectionId, message);
+    }
+  });
+
+  databaseService.on("connectionHealth", (health) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("db:connectionHealth", health);
+    }
+  });
+
+  databaseService.on("sessionLost", (sessionId, message) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("db:sessionLost", sessionId, message);
+    }
+  });
+
   ipcMain.handle("keychain:set", async (_, service, account, password) => {
     return await keychainService.setPassword(service, account, password);
   });
@@ -328,6 +562,98 @@ const setupIpcHandlers = (): void => {
     }
   });
 
+  // Only picks the file; connection settings store its path
+  ipcMain.handle("file:choosePath", async (_, title: string) => {
+    const { filePaths } = await dialog.showOpenDialog(mainWindow, {
+      title,
+      properties: ["openFile", "showHiddenFiles"],
+    });
+    return filePaths[0] ?? null;
+  });
+
+  // Passwords go straight to the keychain and the connections to the config;
+  // the new connections come back for the window that asked
+  ipcMain.handle("file:importConnections", async (event) => {
+    const existing = configStore.get("connections");
+    const imported = await importConnectionFiles(existing);
+    for (const { connection, password } of imported) {
+      if (password) {
+        await keychainService.setPassword("postgres", connection.id, password);
+      }
+    }
+
+    const connections = imported.map(({ connection }) => connection);
+    if (connections.length > 0) {
+      const value = [...existing, ...connections];
+      await configStore.set("connections", value);
+      broadcastConfigChange({ key: "connections", value }, event.sender);
+    }
+    return connections;
+  });
+
+  ipcMain.handle("config:get", (_, key) => {
+    return configStore.get(key);
+  });
+
+  ipcMain.handle("config:set", async (event, key, value) => {
+    checkWindowValue(key, value);
+    await configStore.set(key, value);
+    broadcastConfigChange({ key, value }, event.sender);
+  });
+
+  ipcMain.handle("config:importLegacy", async (_, values) => {
+    return await configStore.importLegacy(values);
+  });
+
+  // Query history
+  ipcMain.handle("history:add", async (_, entry) => {
+    await queryHistory.add(entry);
+  });
+
+  ipcMain.handle("history:search", (_, filter) => {
+    return queryHistory.search(filter);
+  });
+
+  ipcMain.handle("history:setStarred", async (_, id, starred) => {
+    await queryHistory.setStarred(id, starred);
+  });
+
+  // Writes what the filter matches as a JSON array, which history:import
+  // reads back
+  ipcMain.handle("history:export", async (_, filter) => {
+    const { filePath } = await dialog.showSaveDialog(mainWindow, {
+      title: "Export Query History",
+      defaultPath: "query-history.json",
+      filters: [{ name: "JSON Files", extensions: ["json"] }],
+    });
+    if (!filePath) return null;
+
+    const { entries } = queryHistory.search({ ...filter, limit: Infinity });
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(entries, null, 2),
+      "utf8",
+    );
+    return filePath;
+  });
+
+  ipcMain.handle("history:import", async () => {
+    const { filePaths } = await dialog.showOpenDialog(mainWindow, {
+      title: "Import Query History",
+      filters: [{ name: "JSON Files", extensions: ["json"] }],
+      properties: ["openFile"],
+    });
+    if (filePaths.length === 0) return null;
+
+    const entries = JSON.parse(
+      await fs.promises.readFile(filePaths[0], "utf8"),
+    );
+    if (!Array.isArray(entries)) {
+      throw new Error("The file is not a query history export");
+    }
+    return await queryHistory.import(entries);
+  });
+
   // AI service handlers
   ipcMain.handle(
     "ai:generateTabName",
@@ -0,0 +1,274 @@
+import { randomUUID } from "crypto";
+import { copyFile, mkdir, open, readFile, rename } from "fs/promises";
+import * as path from "path";
+import { ConfigValues, DatabaseConnection, SslConfig } from "../preload";
+import { KeychainService } from "./keychain";
+
+interface ConfigFile extends ConfigValues {
+  version: number;
+}
+
+// Connections as older versions saved them
+type LegacyConnection = Omit<DatabaseConnection, "ssl"> & {
+  ssl?: boolean | SslConfig;
+};
+
+type Migration = (
+  config: ConfigFile,
+  keychain: KeychainService,
+) => Promise<ConfigFile>;
+
+// Sections missing from a file get these, so adding one needs no migration
+const DEFAULT_VALUES: ConfigValues = {
+  connections: [],
+  aiProvider: null,
+  workspace: { tabs: [], activeTabId: null },
+  windowBounds: null,
+  displaySettings: { timeZone: "session" },
+};
+
+// Older versions stored a Use SSL flag, which pg took as a fully verified TLS
+// connection, and made ids of host:port:database. The keychain entry follows
+// the id.
+const migrateLegacyConnection = async (
+  connection: LegacyConnection,
+  keychain: KeychainService,
+): Promise<DatabaseConnection> => {
+  const ssl: SslConfig | undefined =
+    typeof connection.ssl === "boolean"
+      ? connection.ssl
+        ? { mode: "verify-full" }
+        : undefined
+      : connection.ssl;
+  if (!connection.id.includes(":")) {
+    return { ...connection, ssl };
+  }
+
+  const id = randomUUID();
+  try {
+    const password = await keychain.getPassword("postgres", connection.id);
+    if (password) {
+      await keychain.setPassword("postgres", id, password);
+      await keychain.deletePassword("postgres", connection.id);
+    }
+  } catch (error) {
+    // The connection still works; it just asks for the password again
+    console.warn(
+      `Failed to migrate password for connection "${connection.name}":`,
+      error,
+    );
+  }
+  return { ...connection, id, ssl };
+};
+
+// MIGRATIONS[n] takes a version n config to version n + 1, so new ones go at
+// the end. Version 0 is what the renderer kept in localStorage before the
+// config file existed.
+const MIGRATIONS: Migration[] = [
+  async (config, keychain) => ({
+    ...config,
+    connections: await Promise.all(
+      (config.connections as LegacyConnection[]).map((connection) =>
+        migrateLegacyConnection(connection, keychain),
+      ),
+    ),
+  }),
+];
+
+export const CONFIG_VERSION = MIGRATIONS.length;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const hasStrings = (value: Record<string, unknown>, keys: string[]) =>
+  keys.every((key) => typeof value[key] === "string");
+
+// The sections windows may save, each with a check of the value's shape.
+// Window bounds are the main process's own.
+const WINDOW_SECTIONS: {
+  [K in keyof ConfigValues]?: (value: unknown) => boolean;
+} = {
+  connections: (value) =>
+    Array.isArray(value) &&
+    value.every(
+      (connection) =>
+        isObject(connection) &&
+        hasStrings(connection, [
+          "id",
+          "name",
+          "host",
+          "database",
+          "username",
+        ]) &&
+        // The connection form keeps the port as typed
+        ["number", "string"].includes(typeof connection.port),
+    ),
+  aiProvider: (value) => value === null || typeof value === "string",
+  workspace: (value) =>
+    isObject(value) &&
+    Array.isArray(value.tabs) &&
+    value.tabs.every(
+      (tab) =>
+        isObject(tab) &&
+        hasStrings(tab, ["id", "title", "query", "connectionId"]),
+    ) &&
+    (value.activeTabId === null || typeof value.activeTabId === "string") &&
+    (value.sidebarWidth === undefined ||
+      typeof value.sidebarWidth === "number"),
+  displaySettings: (value) =>
+    isObject(value) &&
+    ["session", "local", "UTC"].includes(`${value.timeZone}`),
+};
+
+// Throws unless a window may save the value to the section
+export const checkWindowValue = (
+  key: unknown,
+  value: unknown,
+): keyof ConfigValues => {
+  const check = WINDOW_SECTIONS[key as keyof ConfigValues];
+  if (!check) {
+    throw new Error(`"${key}" is not a config section windows can save`);
+  }
+  if (!check(value)) {
+    throw new Error(`Not a valid value for the "${key}" config section`);
+  }
+  return key as keyof ConfigValues;
+};
+
+const isMissing = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException).code === "ENOENT";
+
+// config.json in the user data directory, shared by every window. A write
+// goes to a temporary file that then replaces the old one, after the old one
+// was copied to config.json.bak. Writes are queued, so an older snapshot never
+// lands after a newer one.
+export class ConfigStore {
+  private config: ConfigFile = { version: CONFIG_VERSION, ...DEFAULT_VALUES };
+  private saved = false; // Whether anything was ever written, by any version
+  private writing: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(
+    directory: string,
+    private readonly keychain: KeychainService,
+  ) {
+    this.filePath = path.join(directory, "config.json");
+  }
+
+  // Falls back to the backup when the file is unreadable; the broken file is
+  // kept aside as config.json.corrupt for a closer look
+  async load(): Promise<void> {
+    let stored = await this.read(this.filePath);
+    if (stored === undefined) {
+      await rename(this.filePath, `${this.filePath}.corrupt`);
+      stored = await this.read(`${this.filePath}.bak`);
+    }
+    if (!stored) return;
+
+    this.saved = true;
+    if (stored.version > CONFIG_VERSION) {
+      // Written by a newer version. Its version number and the sections this
+      // one doesn't know are written back unchanged.
+      console.warn(
+        `config.json is version ${stored.version}; this version of the app understands up to ${CONFIG_VERSION}`,
+      );
+    }
+    this.config = await this.migrate(stored);
+    if (this.config.version !== stored.version) {
+      await this.save();
+    }
+  }
+
+  get<K extends keyof ConfigValues>(key: K): ConfigValues[K] {
+    return this.config[key];
+  }
+
+  set<K extends keyof ConfigValues>(
+    key: K,
+    value: ConfigValues[K],
+  ): Promise<void> {
+    this.config = { ...this.config, [key]: value };
+    return this.save();
+  }
+
+  // Takes over what an older version kept in the renderer's localStorage.
+  // Ignored once a config file exists, so that only the first window to start
+  // after the upgrade brings its copy along.
+  async importLegacy(values: Partial<ConfigValues>): Promise<boolean> {
+    if (this.saved) return false;
+
+    this.config = await this.migrate({
+      ...DEFAULT_VALUES,
+      ...values,
+      version: 0,
+    });
+    await this.save();
+    return true;
+  }
+
+  private async migrate(stored: ConfigFile): Promise<ConfigFile> {
+    let config: ConfigFile = {
+      ...DEFAULT_VALUES,
+      ...stored,
+      version: stored.version ?? 0,
+    };
+    while (config.version < CONFIG_VERSION) {
+      config = {
+        ...(await MIGRATIONS[config.version](config, this.keychain)),
+        version: config.version + 1,
+      };
+    }
+    return config;
+  }
+
+  // Undefined when the file is there but isn't a config, null when it's not
+  // there at all
+  private async read(filePath: string): Promise<ConfigFile | null | undefined> {
+    let text: string;
+    try {
+      text = await readFile(filePath, "utf8");
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch (error) {
+      console.error(`Error parsing ${filePath}:`, error);
+    }
+    return undefined;
+  }
+
+  private save(): Promise<void> {
+    this.saved = true;
+    const contents = JSON.stringify(this.config, null, 2);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.write(contents));
+    return this.writing;
+  }
+
+  private async write(contents: string): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const temporaryPath = `${this.filePath}.tmp`;
+    const file = await open(temporaryPath, "w");
+    try {
+      await file.writeFile(contents, "utf8");
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+
+    try {
+      await copyFile(this.filePath, `${this.filePath}.bak`);
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+    await rename(temporaryPath, this.filePath);
+  }
+}
@@ -0,0 +1,174 @@
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import { userInfo } from "os";
+import { DatabaseConnection, SslConfig, SslMode } from "../preload";
+import { expandHome } from "./files";
+
+const SSL_MODES: SslMode[] = [
+  "disable",
+  "prefer",
+  "require",
+  "verify-ca",
+  "verify-full",
+];
+
+interface PgpassEntry {
+  host: string;
+  port: string;
+  database: string;
+  username: string;
+  password: string;
+}
+
+type ConnectionTarget = Pick<
+  DatabaseConnection,
+  "host" | "port" | "database" | "username"
+>;
+
+export interface ImportedConnection {
+  connection: DatabaseConnection;
+  password: string | null; // For the keychain
+}
+
+// One host:port:database:username:password per line, with \ escaping : and
+// \ itself. The password runs to the end of the line.
+const parsePgpass = (text: string): PgpassEntry[] => {
+  const entries: PgpassEntry[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+
+    const fields = [""];
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === "\\" && i + 1 < line.length) {
+        fields[fields.length - 1] += line[++i];
+      } else if (line[i] === ":" && fields.length < 5) {
+        fields.push("");
+      } else {
+        fields[fields.length - 1] += line[i];
+      }
+    }
+    if (fields.length === 5) {
+      const [host, port, database, username, password] = fields;
+      entries.push({ host, port, database, username, password });
+    }
+  }
+  return entries;
+};
+
+// [name] sections of key=value lines
+const parseServiceFile = (
+  text: string,
+): Map<string, Record<string, string>> => {
+  const services = new Map<string, Record<string, string>>();
+  let current: Record<string, string> | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const section = /^\[(.+)\]$/.exec(line);
+    if (section) {
+      current = {};
+      services.set(section[1].trim(), current);
+    } else if (current && line.includes("=")) {
+      const index = line.indexOf("=");
+      current[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return services;
+};
+
+const readOptional = (path: string): Promise<string> =>
+  readFile(expandHome(path), "utf8").catch(() => "");
+
+const targetKey = (target: ConnectionTarget): string =>
+  `${target.username}@${target.host}:${target.port}/${target.database}`;
+
+// Turns the libpq password and service files into connections, the way
+// psql would find them: PGPASSFILE and PGSERVICEFILE override the usual
+// places in the home directory. Services come first and take their password
+// from .pgpass when they have none. Entries matching an existing connection
+// are left out, so importing twice adds nothing.
+export const importConnectionFiles = async (
+  existing: DatabaseConnection[],
+): Promise<ImportedConnection[]> => {
+  const pgpass = parsePgpass(
+    await readOptional(process.env.PGPASSFILE || "~/.pgpass"),
+  );
+  const services = parseServiceFile(
+    await readOptional(process.env.PGSERVICEFILE || "~/.pg_service.conf"),
+  );
+
+  const seen = new Set(existing.map(targetKey));
+  const imported: ImportedConnection[] = [];
+  const add = (
+    name: string,
+    target: ConnectionTarget,
+    password: string | null,
+    ssl?: SslConfig,
+  ) => {
+    const key = targetKey(target);
+    if (seen.has(key)) return;
+    seen.add(key);
+    imported.push({
+      connection: { id: randomUUID(), name, ...target, ssl },
+      password,
+    });
+  };
+
+  // The first matching line wins, as in libpq
+  const findPassword = (target: ConnectionTarget): string | null => {
+    const match = (pattern: string, value: string) =>
+      pattern === "*" || pattern === value;
+    const entry = pgpass.find(
+      (entry) =>
+        match(entry.host, target.host) &&
+        match(entry.port, String(target.port)) &&
+        match(entry.database, target.database) &&
+        match(entry.username, target.username),
+    );
+    return entry?.password ?? null;
+  };
+
+  for (const [name, params] of services) {
+    const username = params.user || userInfo().username;
+    const target = {
+      host: params.host || "localhost",
+      port: Number(params.port) || 5432,
+      database: params.dbname || username,
+      username,
+    };
+    const mode = SSL_MODES.find((mode) => mode === params.sslmode);
+    add(
+      name,
+      target,
+      params.password ?? findPassword(target),
+      mode && mode !== "disable"
+        ? {
+            mode,
+            rootCertPath: params.sslrootcert,
+            certPath: params.sslcert,
+            keyPath: params.sslkey,
+          }
+        : undefined,
+    );
+  }
+
+  // A wildcard host or user names no particular server to connect to; a
+  // wildcard port or database falls back to libpq's default
+  for (const entry of pgpass) {
+    if (entry.host === "*" || entry.username === "*") continue;
+    const target = {
+      host: entry.host,
+      port: Number(entry.port) || 5432,
+      database: entry.database === "*" ? entry.username : entry.database,
+      username: entry.username,
+    };
+    add(
+      `${target.host}:${target.port}/${target.database}`,
+      target,
+      entry.password,
+    );
+  }
+
+  return imported;
+};
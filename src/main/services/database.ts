@@ -1,49 +1,553 @@
-import { Pool } from "pg";
+import { EventEmitter } from "events";
+import {
+  Client,
+  DatabaseError,
+  Pool,
+  PoolClient,
+  PoolConfig,
+  QueryArrayResult,
+  QueryResult as PgQueryResult,
+  types,
+} from "pg";
 import format from "pg-format";
 import {
+  RewrittenSql,
+  SqlEdit,
+  SqlStatement,
+  applyEdits,
+  getLeadingKeyword,
+  hasOwnParameters,
+  isWriteStatement,
+  splitStatements,
+  tokenize,
+} from "./sqlLexer";
+import { SshTunnel } from "./sshTunnel";
+import { buildSslOptions } from "./tls";
+import {
+  BackendSignal,
+  BlockingSession,
+  CancelResult,
+  ChannelNotification,
+  ConnectionHealth,
+  ConnectionStatus,
   DatabaseConnection,
+  ExplainOptions,
+  ExplainResult,
+  FetchResult,
+  FieldInfo,
+  LockInfo,
+  QueryError,
+  QueryOptions,
   QueryResult,
+  ServerNotice,
+  StatementResult,
+  TransactionStatus,
   SchemaInfo,
+  SessionActivity,
   TableInfo,
   ColumnInfo,
+  TimeoutKind,
+  TimeoutSettings,
 } from "../preload";
 
-export class DatabaseService {
+interface PinnedSession {
+  connectionId: string;
+  client: PoolClient;
+  status: TransactionStatus;
+  searchPath?: string;
+  onReadyForQuery: (message: { status?: string }) => void;
+  onError: (error: Error) => void;
+}
+
+interface OpenCursor {
+  name: string;
+  connectionId: string;
+  client: PoolClient;
+  statement: string;
+  params: unknown[];
+  fields: FieldInfo[];
+  runId?: string; // Set when the cursor lives in an auto-commit run's transaction
+  sessionId?: string; // Set when the cursor lives in a pinned session
+}
+
+interface ActiveQuery {
+  connectionId: string;
+  client: PoolClient;
+  pid: number; // Backend process running the query, for pg_cancel_backend
+  cancelRequested: boolean; // Stops a script before its next statement
+  finished: Promise<void>;
+}
+
+// An auto-commit run whose transaction stays open until its cursors are drained
+interface CursorRun {
+  connectionId: string;
+  client: PoolClient;
+  cursorIds: Set<string>;
+  onError: () => void; // The server ended the transaction, e.g. on a timeout
+  idleTimer?: NodeJS.Timeout; // Ends the run once the user stops fetching
+}
+
+// A client of its own for LISTEN, outside the pool: subscriptions last as long
+// as the client's session and shouldn't hold on to a pool slot
+interface ChannelListener {
+  client: Client;
+  channels: Set<string>;
+  connected: Promise<void>;
+}
+
+// Keepalive and reconnect state of a connection
+interface HealthMonitor {
+  status: ConnectionStatus;
+  timer?: NodeJS.Timeout; // Next keepalive, or next reconnect attempt
+  checking: boolean;
+  attempt: number;
+  error?: string;
+  nextAttemptAt?: number;
+  tunnelLost?: boolean; // The SSH tunnel is reopened before the next attempt
+}
+
+// Gives a statement only the parameters it references, renumbered from $1,
+// because the server rejects values that a statement doesn't use
+const bindStatementParams = (
+  statement: string,
+  params: unknown[],
+): RewrittenSql & { values: unknown[] } => {
+  if (params.length === 0 || hasOwnParameters(statement)) {
+    return { ...applyEdits(statement, []), values: [] };
+  }
+
+  const used: number[] = [];
+  const edits: SqlEdit[] = [];
+  for (const token of tokenize(statement)) {
+    if (token.type !== "parameter") {
+      continue;
+    }
+    const index = Number(token.text.slice(1));
+    if (index < 1 || index > params.length) {
+      throw new Error(`No value supplied for parameter $${index}`);
+    }
+    if (!used.includes(index)) {
+      used.push(index);
+    }
+    edits.push({
+      start: token.start,
+      end: token.end,
+      text: `$${used.indexOf(index) + 1}`,
+    });
+  }
+
+  return {
+    ...applyEdits(statement, edits),
+    values: used.map((index) => params[index - 1]),
+  };
+};
+
+// Which timeout setting stopped a query. The server uses the same SQLSTATEs for
+// user cancels and NOWAIT, so the message tells them apart.
+const getTimeoutKind = (error: DatabaseError): TimeoutKind | undefined => {
+  if (error.code === "57014" && error.message.includes("statement timeout")) {
+    return "statement";
+  }
+  if (error.code === "55P03" && error.message.includes("lock timeout")) {
+    return "lock";
+  }
+  if (error.code === "25P03") {
+    return "idleInTransaction";
+  }
+  return undefined;
+};
+
+// Collects what the server reported about an error. `toSourceOffset` maps a
+// 0-based position in the SQL that was sent back to the SQL that was submitted.
+const describeDatabaseError = (
+  error: DatabaseError,
+  toSourceOffset?: (offset: number) => number,
+): QueryError => {
+  const position = error.position ? Number(error.position) : undefined;
+  return {
+    message: error.message,
+    severity: error.severity,
+    code: error.code,
+    detail: error.detail,
+    hint: error.hint,
+    where: error.where,
+    schema: error.schema,
+    table: error.table,
+    column: error.column,
+    dataType: error.dataType,
+    constraint: error.constraint,
+    position,
+    offset:
+      position !== undefined && toSourceOffset
+        ? toSourceOffset(position - 1)
+        : undefined,
+    internalQuery: error.internalQuery,
+    internalPosition: error.internalPosition
+      ? Number(error.internalPosition)
+      : undefined,
+    timeout: getTimeoutKind(error),
+  };
+};
+
+// Notices carry the same fields as errors; node-postgres types them in a
+// package we don't depend on directly
+interface NoticeFields {
+  severity?: string;
+  message?: string;
+  code?: string;
+  detail?: string;
+  hint?: string;
+  where?: string;
+}
+
+const toServerNotice = (
+  notice: NoticeFields,
+  statementIndex: number,
+): ServerNotice => ({
+  severity: notice.severity || "NOTICE",
+  message: notice.message || "",
+  code: notice.code,
+  detail: notice.detail,
+  hint: notice.hint,
+  where: notice.where,
+  statementIndex,
+  timestamp: Date.now(),
+});
+
+// A server error tied to the statement of the script that raised it
+class StatementError extends Error {
+  constructor(readonly details: QueryError) {
+    super(details.message);
+  }
+}
+
+// Ties a server error to the statement of the script that raised it.
+// `prefixLength` skips what was sent ahead of the statement, such as EXPLAIN.
+const toStatementError = (
+  error: unknown,
+  statement: SqlStatement,
+  statementIndex: number,
+  toSourceOffset: (offset: number) => number,
+  prefixLength = 0,
+): unknown =>
+  error instanceof DatabaseError
+    ? new StatementError({
+        ...describeDatabaseError(
+          error,
+          (offset) =>
+            statement.start +
+            toSourceOffset(Math.max(0, offset - prefixLength)),
+        ),
+        statementIndex,
+      })
+    : error;
+
+// How long to wait for the server to stop a query before escalating
+const CANCEL_TIMEOUT_MS = 3000;
+
+// Resolves to whether the promise settled within the timeout
+const settlesWithin = (promise: Promise<void>, timeout: number) => {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    promise.then(() => true),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+// A trivial query this often tells a dead server from an idle one; TCP
+// keepalive alone takes minutes to notice
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const HEALTH_CHECK_TIMEOUT_MS = 15000;
+// Reconnect attempts back off exponentially up to the maximum delay
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// An auto-commit run that nobody fetched from for this long gives its client
+// back to the pool; its cursors are gone once the user scrolls again
+const CURSOR_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Errors that mean the connection itself is gone rather than the statement
+// failing: SQLSTATE class 08, server shutdown (57P01-57P03) and socket errors
+const isConnectionLoss = (error: unknown): boolean => {
+  const code =
+    error instanceof StatementError
+      ? error.details.code
+      : (error as { code?: unknown })?.code;
+  if (typeof code === "string") {
+    return /^(08|57P0[123]|E[A-Z]+$)/.test(code);
+  }
+  return String(error).includes("Connection terminated");
+};
+
+// IPC only carries an error's message, so server errors travel as JSON after
+// the prefix, with any notices that came before them; the renderer's
+// extractQueryError unpacks them
+const toIpcError = (
+  prefix: string,
+  error: unknown,
+  notices: ServerNotice[] = [],
+): Error => {
+  const details =
+    error instanceof StatementError
+      ? error.details
+      : error instanceof DatabaseError
+        ? describeDatabaseError(error)
+        : undefined;
+  if (!details) {
+    return new Error(`${prefix}: ${error}`);
+  }
+  // A timeout is expected behaviour, not a failure of the SQL
+  const label = details.timeout ? "Query timed out" : prefix;
+  return new Error(
+    `${label}: ${JSON.stringify({
+      ...details,
+      notices: notices.length > 0 ? notices : undefined,
+    })}`,
+  );
+};
+
+const TIMEOUT_SETTINGS: Record<keyof TimeoutSettings, string> = {
+  statementTimeout: "statement_timeout",
+  lockTimeout: "lock_timeout",
+  idleInTransactionTimeout: "idle_in_transaction_session_timeout",
+};
+
+// Builds the SETs for a run. The tab's overrides win over the connection's
+// defaults, and settings neither gives go back to DEFAULT so that an earlier
+// run's values don't linger in a pinned session.
+const buildTimeoutSql = (
+  scope: "LOCAL" | "SESSION",
+  defaults: TimeoutSettings = {},
+  overrides: TimeoutSettings = {},
+): string =>
+  (Object.keys(TIMEOUT_SETTINGS) as (keyof TimeoutSettings)[])
+    .map((key) => {
+      const seconds = overrides[key] ?? defaults[key];
+      return seconds === undefined || seconds === null
+        ? `SET ${scope} ${TIMEOUT_SETTINGS[key]} TO DEFAULT`
+        : format(
+            `SET ${scope} ${TIMEOUT_SETTINGS[key]} = %L`,
+            `${Math.round(seconds * 1000)}ms`,
+          );
+    })
+    .join("; ");
+
+const TRANSACTION_CONTROL_KEYWORDS = new Set([
+  "BEGIN",
+  "START",
+  "COMMIT",
+  "END",
+  "ROLLBACK",
+  "ABORT",
+  "SAVEPOINT",
+  "RELEASE",
+  "PREPARE",
+]);
+
+// DECLARE only accepts plain queries: no data-modifying CTEs and no SELECT INTO.
+// Row locks and writing functions run to completion rather than page by page.
+const isCursorable = (statement: string): boolean =>
+  ["SELECT", "WITH", "VALUES", "TABLE"].includes(
+    getLeadingKeyword(statement),
+  ) && !isWriteStatement(statement);
+
+// Cursors keep their transaction open between fetches. That is only safe when
+// the script can't end the transaction itself, and, outside a pinned session,
+// when it has no writes that would sit uncommitted while the user scrolls.
+const canHoldCursors = (statements: string[], inSession: boolean): boolean =>
+  statements.every((statement) => {
+    const keyword = getLeadingKeyword(statement);
+    if (TRANSACTION_CONTROL_KEYWORDS.has(keyword)) {
+      return false;
+    }
+    return (
+      inSession ||
+      isCursorable(statement) ||
+      (["SET", "SHOW", "RESET"].includes(keyword) &&
+        !isWriteStatement(statement))
+    );
+  });
+
+// Temporal values stay in the server's text form so that microseconds and the
+// session time zone survive; the renderer formats them for display
+const RAW_TEXT_TYPES = new Set([1082, 1083, 1114, 1184, 1186, 1266]);
+const RAW_TEXT_ARRAY_TYPES = new Set([1182, 1183, 1115, 1185, 1187, 1270]);
+const TEXT_ARRAY_TYPE: number = 1009;
+
+const getTypeParser = ((oid: number, format?: "text" | "binary") => {
+  if (RAW_TEXT_TYPES.has(oid)) {
+    return (value: string) => value;
+  }
+  if (RAW_TEXT_ARRAY_TYPES.has(oid)) {
+    return types.getTypeParser(TEXT_ARRAY_TYPE);
+  }
+  return types.getTypeParser(oid, format);
+}) as typeof types.getTypeParser;
+
+const toTransactionStatus = (status?: string): TransactionStatus => {
+  switch (status) {
+    case "T":
+      return "inTransaction";
+    case "E":
+      return "failed";
+    default:
+      return "idle";
+  }
+};
+
+// Emits "notification" with a ChannelNotification for every NOTIFY a listener
+// receives, and "listenerEnded" with the connection ID and a message when a
+// listener's connection drops
+export class DatabaseService extends EventEmitter {
   private pools: Map<string, Pool> = new Map();
-  private activeQueries: Map<string, { client: any; queryId: string }> =
-    new Map();
+  private configs: Map<string, DatabaseConnection> = new Map();
+  // Dedicated clients for tabs in manual commit mode, keyed by session (tab) ID
+  private sessions: Map<string, PinnedSession> = new Map();
+  // Why the server ended a session between runs, reported on the tab's next run
+  private endedSessions: Map<string, Error> = new Map();
+  private cursors: Map<string, OpenCursor> = new Map();
+  private cursorRuns: Map<string, CursorRun> = new Map();
+  private cursorCounter = 0;
+  // pg_type details per connection, for OIDs the renderer has no built-in handling for
+  private typeCache: Map<
+    string,
+    Map<number, { typeName: string; typeCategory: string }>
+  > = new Map();
+  private activeQueries: Map<string, ActiveQuery> = new Map();
+  private channelListeners: Map<string, ChannelListener> = new Map();
+  private healthMonitors: Map<string, HealthMonitor> = new Map();
+  private tunnels: Map<string, SshTunnel> = new Map();
 
   async connect(
     config: DatabaseConnection,
     password: string,
+    secrets: { ssh?: string | null; sslKey?: string | null } = {},
   ): Promise<{ connectionId: string; error?: string }> {
-    const pool = new Pool({
-      host: config.host,
-      port: config.port,
+    let ssl: PoolConfig["ssl"];
+    try {
+      ssl = await buildSslOptions(
+        config.ssl,
+        config.host,
+        secrets.sslKey ?? null,
+      );
+    } catch (error) {
+      return {
+        connectionId: config.id,
+        error: `TLS setup failed: ${(error as Error).message}`,
+      };
+    }
+
+    let tunnel: SshTunnel | undefined;
+    if (config.ssh) {
+      tunnel = new SshTunnel(
+        config.ssh,
+        secrets.ssh ?? null,
+        config.host,
+        config.port,
+      );
+      try {
+        await tunnel.open();
+      } catch (error) {
+        await tunnel.close();
+        return {
+          connectionId: config.id,
+          error: `SSH tunnel failed: ${(error as Error).message}`,
+        };
+      }
+    }
+
+    const poolConfig: PoolConfig = {
+      host: tunnel ? "127.0.0.1" : config.host,
+      port: tunnel ? tunnel.localPort : config.port,
       database: config.database,
       user: config.username,
       password: password,
-      ssl: config.ssl,
+      ssl,
       max: config.maxConnections || 10,
-    });
+      types: { getTypeParser },
+      keepAlive: true,
+      // Let the server enforce read-only mode for every session in the pool
+      options: config.readOnly
+        ? "-c default_transaction_read_only=on"
+        : undefined,
+    };
+    let pool = new Pool(poolConfig);
 
     try {
       // Test the connection
-      const client = await pool.connect();
+      let client: PoolClient;
+      try {
+        client = await pool.connect();
+      } catch (error) {
+        // sslmode=prefer settles for plain text when the server has no TLS
+        if (
+          config.ssl?.mode !== "prefer" ||
+          !String(error).includes("does not support SSL")
+        ) {
+          throw error;
+        }
+        await pool.end();
+        pool = new Pool({ ...poolConfig, ssl: false });
+        client = await pool.connect();
+      }
       client.release();
 
       this.pools.set(config.id, pool);
+      this.configs.set(config.id, config);
+      if (tunnel) {
+        this.tunnels.set(config.id, tunnel);
+      }
+      this.watchPool(config.id, pool);
+      this.startHealthMonitor(config.id);
       return { connectionId: config.id };
     } catch (error) {
+      await tunnel?.close();
       return { connectionId: config.id, error: (error as Error).message };
     }
   }
 
   async disconnect(connectionId: string): Promise<void> {
+    this.stopHealthMonitor(connectionId);
+    this.emit("connectionHealth", { connectionId, status: "disconnected" });
+
+    // A running query keeps its client, and so the pool, from ending
+    await Promise.all(
+      [...this.activeQueries]
+        .filter(([, activeQuery]) => activeQuery.connectionId === connectionId)
+        .map(([queryId]) =>
+          this.cancelQuery(queryId).catch((error) =>
+            console.error("Error cancelling query:", error),
+          ),
+        ),
+    );
+
+    // Pinned clients must go back to the pool before it can end
+    for (const [runId, run] of this.cursorRuns) {
+      if (run.connectionId === connectionId) {
+        await this.finishCursorRun(runId, true);
+      }
+    }
+    for (const [sessionId, session] of this.sessions) {
+      if (session.connectionId === connectionId) {
+        await this.closeSession(sessionId);
+      }
+    }
+    await this.closeListener(connectionId);
+
     const pool = this.pools.get(connectionId);
     if (pool) {
       await pool.end();
       this.pools.delete(connectionId);
+      this.configs.delete(connectionId);
+      this.typeCache.delete(connectionId);
+    }
+
+    const tunnel = this.tunnels.get(connectionId);
+    if (tunnel) {
+      this.tunnels.delete(connectionId);
+      await tunnel.close();
     }
   }
 
@@ -53,74 +557,844 @@ export class DatabaseService {
     params: any[] = [],
     schema?: string,
     queryId?: string,
+    options: QueryOptions = {},
   ): Promise<QueryResult> {
+    if (options.sessionId) {
+      return this.querySession(
+        connectionId,
+        options.sessionId,
+        sql,
+        params,
+        schema,
+        queryId,
+        options,
+      );
+    }
+
     const pool = this.pools.get(connectionId);
     if (!pool) {
       throw new Error("Connection not found");
     }
 
+    await this.freeCursorClient(connectionId, pool);
     const client = await pool.connect();
     const actualQueryId = queryId || Date.now().toString();
 
     // Track this query for potential cancellation
-    this.activeQueries.set(actualQueryId, { client, queryId: actualQueryId });
+    const untrack = this.trackQuery(actualQueryId, connectionId, client);
 
     const startTime = Date.now();
+    const statements = splitStatements(sql);
+    const fetchSize =
+      options.fetchSize &&
+      canHoldCursors(
+        statements.map((statement) => statement.text),
+        false,
+      )
+        ? options.fetchSize
+        : undefined;
+    let holdsCursors = false;
+    const notices: ServerNotice[] = [];
+
     try {
       await client.query("BEGIN");
+      await client.query(
+        buildTimeoutSql(
+          "LOCAL",
+          this.configs.get(connectionId)?.timeouts,
+          options.timeouts,
+        ),
+      );
 
       if (schema) {
         const schemaSetSql = format("SET search_path = %L, public", schema);
         await client.query(schemaSetSql);
       }
 
-      const statements = this.splitStatements(sql);
-      let lastResult: any;
+      const results = await this.runStatements(
+        connectionId,
+        client,
+        statements,
+        params,
+        actualQueryId,
+        notices,
+        fetchSize ? { fetchSize, runId: actualQueryId } : undefined,
+      );
+
+      const openCursorIds = results
+        .filter((result) => result.hasMore && result.cursorId)
+        .map((result) => result.cursorId!);
+
+      if (openCursorIds.length > 0) {
+        // Keep the transaction (and client) until the cursors are drained or closed
+        const onError = () => this.finishCursorRun(actualQueryId, true);
+        client.on("error", onError);
+        this.cursorRuns.set(actualQueryId, {
+          connectionId,
+          client,
+          cursorIds: new Set(openCursorIds),
+          onError,
+        });
+        this.touchCursorRun(actualQueryId);
+        holdsCursors = true;
+      } else {
+        await client.query("COMMIT");
+      }
+
+      return this.toQueryResult(results, Date.now() - startTime, notices);
+    } catch (error) {
+      this.forgetCursors((cursor) => cursor.runId === actualQueryId);
+      // A lost connection has no transaction left to roll back
+      if (isConnectionLoss(error)) {
+        this.checkHealth(connectionId);
+      } else {
+        await client.query("ROLLBACK");
+      }
+      throw toIpcError("Query failed", error, notices);
+    } finally {
+      // Remove from active queries and release client
+      untrack();
+      if (!holdsCursors) {
+        client.release();
+      }
+    }
+  }
+
+  // Runs EXPLAIN (FORMAT JSON) for a single statement. Everything happens in a
+  // transaction or savepoint that is rolled back, so EXPLAIN ANALYZE of DML
+  // leaves no changes behind and a failure doesn't abort a pinned transaction.
+  async explain(
+    connectionId: string,
+    sql: string,
+    params: unknown[] = [],
+    schema?: string,
+    queryId?: string,
+    options: ExplainOptions = { analyze: false },
+  ): Promise<ExplainResult> {
+    const statements = splitStatements(sql);
+    if (statements.length !== 1) {
+      throw new Error(
+        `Explain failed: expected a single statement, found ${statements.length}`,
+      );
+    }
+    const statement = statements[0].text;
+    if (TRANSACTION_CONTROL_KEYWORDS.has(getLeadingKeyword(statement))) {
+      throw new Error("Explain failed: transaction control can't be explained");
+    }
+    if (
+      options.analyze &&
+      this.configs.get(connectionId)?.readOnly &&
+      isWriteStatement(statement)
+    ) {
+      throw new Error(
+        `Connection is read-only; refusing to analyze ${getLeadingKeyword(statement)} statement`,
+      );
+    }
 
-      for (const statement of statements) {
-        if (statement.trim()) {
-          // Check if query was cancelled before executing each statement
-          if (!this.activeQueries.has(actualQueryId)) {
-            throw new Error("Query was cancelled");
+    const session = options.sessionId
+      ? await this.getOrCreateSession(connectionId, options.sessionId)
+      : undefined;
+    const pool = this.pools.get(connectionId);
+    if (!session && !pool) {
+      throw new Error("Connection not found");
+    }
+    const client = session ? session.client : await pool!.connect();
+    const actualQueryId = queryId || Date.now().toString();
+    const untrack = this.trackQuery(actualQueryId, connectionId, client);
+
+    // Inside an open transaction, a savepoint keeps the user's work intact
+    const inTransaction = !!session && session.status !== "idle";
+    const { text, values, toSourceOffset } = bindStatementParams(
+      statement,
+      params,
+    );
+    const startTime = Date.now();
+
+    try {
+      await client.query(inTransaction ? "SAVEPOINT messql_explain" : "BEGIN");
+      try {
+        // Undone with the savepoint, so a pinned session keeps its own values
+        await client.query(
+          buildTimeoutSql(
+            "LOCAL",
+            this.configs.get(connectionId)?.timeouts,
+            options.timeouts,
+          ),
+        );
+        if (schema) {
+          await client.query(
+            format("SET LOCAL search_path = %L, public", schema),
+          );
+        }
+
+        const explainOptions = options.analyze
+          ? "FORMAT JSON, ANALYZE, BUFFERS"
+          : "FORMAT JSON";
+        const prefix = `EXPLAIN (${explainOptions}) `;
+        const result = await client
+          .query({ text: prefix + text, values })
+          .catch((error) => {
+            throw toStatementError(
+              error,
+              statements[0],
+              0,
+              toSourceOffset,
+              prefix.length,
+            );
+          });
+
+        const [output] = result.rows[0]["QUERY PLAN"];
+        return {
+          plan: output["Plan"],
+          planningTime: output["Planning Time"],
+          executionTime: output["Execution Time"],
+          analyzed: options.analyze,
+          duration: Date.now() - startTime,
+        };
+      } finally {
+        if (inTransaction) {
+          await client.query("ROLLBACK TO SAVEPOINT messql_explain");
+          await client.query("RELEASE SAVEPOINT messql_explain");
+        } else {
+          await client.query("ROLLBACK");
+        }
+      }
+    } catch (error) {
+      throw toIpcError("Explain failed", error);
+    } finally {
+      untrack();
+      if (!session) {
+        client.release();
+      }
+    }
+  }
+
+  // Runs on the client pinned to the session, leaving the transaction open
+  // until the user commits or rolls back explicitly
+  private async querySession(
+    connectionId: string,
+    sessionId: string,
+    sql: string,
+    params: unknown[],
+    schema?: string,
+    queryId?: string,
+    options: QueryOptions = {},
+  ): Promise<QueryResult> {
+    const session = await this.getOrCreateSession(connectionId, sessionId);
+    const actualQueryId = queryId || Date.now().toString();
+
+    const untrack = this.trackQuery(
+      actualQueryId,
+      connectionId,
+      session.client,
+    );
+
+    const startTime = Date.now();
+    const notices: ServerNotice[] = [];
+    try {
+      // Session-level values outlive the user's COMMITs, unlike SET LOCAL. Set
+      // before BEGIN they also survive a ROLLBACK; inside a transaction a
+      // rollback may undo them, but every run sets them again.
+      if (session.status !== "failed") {
+        await session.client.query(
+          buildTimeoutSql(
+            "SESSION",
+            this.configs.get(connectionId)?.timeouts,
+            options.timeouts,
+          ),
+        );
+      }
+      if (session.status === "idle") {
+        await session.client.query("BEGIN");
+      }
+
+      // A failed transaction rejects everything but ROLLBACK, so leave the
+      // search path alone until the user recovers
+      if (
+        schema &&
+        schema !== session.searchPath &&
+        session.status !== "failed"
+      ) {
+        await session.client.query(
+          format("SET search_path = %L, public", schema),
+        );
+        session.searchPath = schema;
+      }
+
+      const statements = splitStatements(sql);
+      const results = await this.runStatements(
+        connectionId,
+        session.client,
+        statements,
+        params,
+        actualQueryId,
+        notices,
+        options.fetchSize &&
+          canHoldCursors(
+            statements.map((statement) => statement.text),
+            true,
+          )
+          ? { fetchSize: options.fetchSize, sessionId }
+          : undefined,
+      );
+
+      return {
+        ...this.toQueryResult(results, Date.now() - startTime, notices),
+        transactionStatus: session.status,
+      };
+    } catch (error) {
+      if (isConnectionLoss(error)) {
+        this.checkHealth(connectionId);
+      }
+      throw toIpcError("Query failed", error, notices);
+    } finally {
+      untrack();
+      // Cursors don't outlive the transaction that declared them
+      if (session.status === "idle") {
+        this.forgetCursors((cursor) => cursor.sessionId === sessionId);
+      }
+    }
+  }
+
+  private async getOrCreateSession(
+    connectionId: string,
+    sessionId: string,
+  ): Promise<PinnedSession> {
+    const ended = this.endedSessions.get(sessionId);
+    if (ended) {
+      this.endedSessions.delete(sessionId);
+      throw toIpcError("Query failed", ended);
+    }
+
+    const existing = this.sessions.get(sessionId);
+    if (existing) {
+      if (existing.connectionId !== connectionId) {
+        throw new Error(
+          "This tab has an open session on another connection. Commit or roll back first.",
+        );
+      }
+      return existing;
+    }
+
+    const pool = this.pools.get(connectionId);
+    if (!pool) {
+      throw new Error("Connection not found");
+    }
+
+    await this.freeCursorClient(connectionId, pool);
+    const client = await pool.connect();
+    const session: PinnedSession = {
+      connectionId,
+      client,
+      status: "idle",
+      onReadyForQuery: () => undefined,
+      onError: () => undefined,
+    };
+
+    // ReadyForQuery carries the server's view of the transaction state
+    session.onReadyForQuery = (message: { status?: string }) => {
+      session.status = toTransactionStatus(message.status);
+    };
+    (client as unknown as Client).connection.on(
+      "readyForQuery",
+      session.onReadyForQuery,
+    );
+
+    // The server can end an idle session, e.g. past
+    // idle_in_transaction_session_timeout. An unhandled error event would crash
+    // the app; a running query reports the error itself.
+    session.onError = (error: Error) => {
+      if (this.sessions.get(sessionId) !== session) return;
+      this.sessions.delete(sessionId);
+      this.forgetCursors((cursor) => cursor.sessionId === sessionId);
+      if (
+        ![...this.activeQueries.values()].some(
+          (activeQuery) => activeQuery.client === client,
+        )
+      ) {
+        this.endedSessions.set(sessionId, error);
+        this.emit("sessionLost", sessionId, error.message);
+      }
+      (client as unknown as Client).connection.removeListener(
+        "readyForQuery",
+        session.onReadyForQuery,
+      );
+      client.release(error);
+    };
+    client.on("error", session.onError);
+
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  private async runSessionCommand(
+    sessionId: string,
+    sql: string,
+  ): Promise<TransactionStatus> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return "idle";
+    }
+
+    try {
+      await session.client.query(sql);
+    } catch (error) {
+      throw toIpcError("Query failed", error);
+    }
+    return session.status;
+  }
+
+  async getTransactionStatus(sessionId: string): Promise<TransactionStatus> {
+    return this.sessions.get(sessionId)?.status || "idle";
+  }
+
+  async commit(sessionId: string): Promise<TransactionStatus> {
+    this.forgetCursors((cursor) => cursor.sessionId === sessionId);
+    return this.runSessionCommand(sessionId, "COMMIT");
+  }
+
+  async rollback(sessionId: string): Promise<TransactionStatus> {
+    this.forgetCursors((cursor) => cursor.sessionId === sessionId);
+    return this.runSessionCommand(sessionId, "ROLLBACK");
+  }
+
+  async savepoint(sessionId: string, name: string): Promise<TransactionStatus> {
+    return this.runSessionCommand(sessionId, format("SAVEPOINT %I", name));
+  }
+
+  async rollbackToSavepoint(
+    sessionId: string,
+    name: string,
+  ): Promise<TransactionStatus> {
+    // Cursors declared after the savepoint are gone; drop them all to be safe
+    this.forgetCursors((cursor) => cursor.sessionId === sessionId);
+    return this.runSessionCommand(
+      sessionId,
+      format("ROLLBACK TO SAVEPOINT %I", name),
+    );
+  }
+
+  async releaseSavepoint(
+    sessionId: string,
+    name: string,
+  ): Promise<TransactionStatus> {
+    return this.runSessionCommand(
+      sessionId,
+      format("RELEASE SAVEPOINT %I", name),
+    );
+  }
+
+  // Rolls back anything still open and hands the client back to the pool
+  async closeSession(sessionId: string): Promise<void> {
+    this.endedSessions.delete(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    this.forgetCursors((cursor) => cursor.sessionId === sessionId);
+    let releaseError: Error | undefined;
+    try {
+      if (session.status !== "idle") {
+        await session.client.query("ROLLBACK");
+      }
+      // Don't leak tab-specific settings to the next pool user
+      await session.client.query("RESET ALL");
+    } catch (error) {
+      releaseError = error as Error;
+    } finally {
+      (session.client as unknown as Client).connection.removeListener(
+        "readyForQuery",
+        session.onReadyForQuery,
+      );
+      session.client.removeListener("error", session.onError);
+      // Passing an error makes the pool discard the client instead of reusing it
+      session.client.release(releaseError);
+    }
+  }
+
+  private async runStatements(
+    connectionId: string,
+    client: PoolClient,
+    statements: SqlStatement[],
+    params: unknown[],
+    queryId: string,
+    notices: ServerNotice[], // Receives the server's messages as they arrive
+    cursorOptions?: { fetchSize: number; runId?: string; sessionId?: string },
+  ): Promise<StatementResult[]> {
+    const results: StatementResult[] = [];
+
+    // Check the whole script first so a refused statement doesn't leave it half-run
+    if (this.configs.get(connectionId)?.readOnly) {
+      const writeStatement = statements.find((statement) =>
+        isWriteStatement(statement.text),
+      );
+      if (writeStatement) {
+        throw new Error(
+          `Connection is read-only; refusing to run ${getLeadingKeyword(writeStatement.text)} statement`,
+        );
+      }
+    }
+
+    // Messages arrive before the statement completes, so the one running is
+    // the one that raised them
+    let statementIndex = 0;
+    const onNotice = (notice: NoticeFields) => {
+      notices.push(toServerNotice(notice, statementIndex));
+    };
+    client.on("notice", onNotice);
+
+    try {
+      for (const [index, statement] of statements.entries()) {
+        // Check if query was cancelled before executing each statement
+        if (this.activeQueries.get(queryId)?.cancelRequested) {
+          throw new Error("Query was cancelled");
+        }
+        statementIndex = index;
+        const statementStart = Date.now();
+        const sourceRange = { start: statement.start, end: statement.end };
+        const { text, values, toSourceOffset } = bindStatementParams(
+          statement.text,
+          params,
+        );
+
+        try {
+          if (cursorOptions && isCursorable(statement.text)) {
+            results.push({
+              ...(await this.declareCursor(
+                connectionId,
+                client,
+                text,
+                values,
+                cursorOptions,
+                statementStart,
+              )),
+              sourceRange,
+            });
+            continue;
           }
+
           // Use rowMode: 'array' to get values by position when there are duplicate column names
-          lastResult = await client.query({
-            text: statement,
-            values: params,
+          const result = await client.query({
+            text,
+            values,
             rowMode: "array",
           });
+          results.push({
+            ...this.toStatementResult(result, Date.now() - statementStart),
+            sourceRange,
+          });
+        } catch (error) {
+          throw toStatementError(error, statement, index, toSourceOffset);
+        }
+      }
+    } finally {
+      client.removeListener("notice", onNotice);
+    }
+
+    return this.describeFieldTypes(connectionId, results);
+  }
+
+  // Adds pg_type's name and category to every field, so that enums, domains
+  // over arrays and other types without a fixed OID can still be rendered.
+  // Types are cached per connection and looked up beside the user's session,
+  // which may be in an aborted transaction and shouldn't show the lookup.
+  private async describeFieldTypes(
+    connectionId: string,
+    results: StatementResult[],
+  ): Promise<StatementResult[]> {
+    let cache = this.typeCache.get(connectionId);
+    if (!cache) {
+      cache = new Map();
+      this.typeCache.set(connectionId, cache);
+    }
+
+    const unknownOids = [
+      ...new Set(
+        results.flatMap((result) =>
+          result.fields.map((field) => field.dataTypeID),
+        ),
+      ),
+    ].filter((oid) => !cache!.has(oid));
+
+    const pool = this.pools.get(connectionId);
+    if (unknownOids.length > 0 && pool) {
+      try {
+        const typeRows = await this.queryBesidePool(
+          pool,
+          "SELECT oid::int AS oid, typname, typcategory FROM pg_type WHERE oid = ANY($1::oid[])",
+          [unknownOids],
+        );
+        for (const row of typeRows.rows) {
+          cache.set(row.oid, {
+            typeName: row.typname,
+            typeCategory: row.typcategory,
+          });
         }
+      } catch (error) {
+        // The results are still worth showing, just without the type names
+        console.error("Error looking up result types:", error);
       }
+    }
 
-      await client.query("COMMIT");
-      const duration = Date.now() - startTime;
+    return results.map((result) => ({
+      ...result,
+      fields: result.fields.map((field) => ({
+        ...field,
+        ...cache!.get(field.dataTypeID),
+      })),
+    }));
+  }
 
-      // Process fields and convert array rows to objects
-      const processedFields = this.renameDuplicateFields(lastResult.fields);
+  // Declares a cursor for the statement and fetches its first page. The cursor
+  // stays open only if the page came back full.
+  private async declareCursor(
+    connectionId: string,
+    client: PoolClient,
+    statement: string,
+    params: unknown[],
+    cursorOptions: { fetchSize: number; runId?: string; sessionId?: string },
+    startTime: number,
+  ): Promise<StatementResult> {
+    const name = `messql_cursor_${++this.cursorCounter}`;
+    const declaration = `DECLARE ${name} NO SCROLL CURSOR FOR `;
+    try {
+      await client.query({ text: declaration + statement, values: params });
+    } catch (error) {
+      // Report positions in the statement, not in the DECLARE around it
+      if (error instanceof DatabaseError && error.position) {
+        error.position = String(Number(error.position) - declaration.length);
+      }
+      throw error;
+    }
 
-      // Convert array-based rows to objects using the processed field names
-      const processedRows = lastResult.rows.map((row: any[]) => {
-        const obj: any = {};
-        processedFields.forEach((field, index) => {
-          obj[field.name] = row[index];
-        });
-        return obj;
+    const page = await client.query({
+      text: `FETCH FORWARD ${cursorOptions.fetchSize} FROM ${name}`,
+      rowMode: "array",
+    });
+    const result = {
+      ...this.toStatementResult(page, Date.now() - startTime),
+      command: "SELECT",
+    };
+
+    if (page.rows.length < cursorOptions.fetchSize) {
+      await client.query(`CLOSE ${name}`);
+      return result;
+    }
+
+    this.cursors.set(name, {
+      name,
+      connectionId,
+      client,
+      statement,
+      params,
+      fields: result.fields,
+      runId: cursorOptions.runId,
+      sessionId: cursorOptions.sessionId,
+    });
+
+    return { ...result, cursorId: name, hasMore: true };
+  }
+
+  // Fetches the next rows from an open cursor; without a count it fetches the rest
+  async fetchRows(cursorId: string, count?: number): Promise<FetchResult> {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) {
+      throw new Error("The result cursor is no longer open");
+    }
+    this.touchCursorRun(cursor.runId);
+
+    let page;
+    try {
+      page = await cursor.client.query({
+        text: count
+          ? `FETCH FORWARD ${count} FROM ${cursor.name}`
+          : `FETCH ALL FROM ${cursor.name}`,
+        rowMode: "array",
       });
+    } catch (error) {
+      await this.closeCursor(cursorId, true);
+      if (isConnectionLoss(error)) {
+        this.checkHealth(cursor.connectionId);
+      }
+      throw toIpcError("Fetch failed", error);
+    }
 
-      return {
-        rows: processedRows,
-        fields: processedFields,
-        rowCount: lastResult.rowCount || 0,
-        duration,
-      };
+    const hasMore = !!count && page.rows.length === count;
+    if (!hasMore) {
+      await this.closeCursor(cursorId);
+    }
+
+    return {
+      rows: this.toRowObjects(page.rows, cursor.fields),
+      hasMore,
+    };
+  }
+
+  // Counts the statement's total rows without moving the cursor. The count runs
+  // the statement again, inside a savepoint so that a failure leaves the
+  // transaction holding the cursors (maybe the user's own) intact.
+  async countRows(cursorId: string): Promise<number> {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) {
+      throw new Error("The result cursor is no longer open");
+    }
+    if (isWriteStatement(cursor.statement)) {
+      throw new Error(
+        "Count failed: counting would run the statement's writes again",
+      );
+    }
+    this.touchCursorRun(cursor.runId);
+
+    try {
+      await cursor.client.query("SAVEPOINT messql_count");
+      try {
+        // Newlines keep a trailing line comment from swallowing the parenthesis
+        const result = await cursor.client.query({
+          text: `SELECT count(*) AS count FROM (\n${cursor.statement}\n) AS messql_count`,
+          values: cursor.params,
+        });
+        return Number(result.rows[0].count);
+      } finally {
+        await cursor.client.query("ROLLBACK TO SAVEPOINT messql_count");
+        await cursor.client.query("RELEASE SAVEPOINT messql_count");
+      }
+    } catch (error) {
+      if (isConnectionLoss(error)) {
+        this.checkHealth(cursor.connectionId);
+      }
+      throw toIpcError("Count failed", error);
+    }
+  }
+
+  async closeCursor(cursorId: string, failed = false): Promise<void> {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) return;
+
+    this.cursors.delete(cursorId);
+    const run = cursor.runId ? this.cursorRuns.get(cursor.runId) : undefined;
+    if (run) {
+      run.cursorIds.delete(cursorId);
+      if (failed || run.cursorIds.size === 0) {
+        await this.finishCursorRun(cursor.runId!, failed);
+        return;
+      }
+    }
+
+    try {
+      await cursor.client.query(`CLOSE ${cursor.name}`);
     } catch (error) {
-      await client.query("ROLLBACK");
-      throw new Error(`Query failed: ${error}`);
+      // The cursor may already be gone with an aborted transaction
+      console.error("Error closing cursor:", error);
+    }
+  }
+
+  // Ends an auto-commit run's transaction and returns its client to the pool
+  private async finishCursorRun(runId: string, failed: boolean): Promise<void> {
+    const run = this.cursorRuns.get(runId);
+    if (!run) return;
+
+    this.cursorRuns.delete(runId);
+    clearTimeout(run.idleTimer);
+    this.forgetCursors((cursor) => cursor.runId === runId);
+
+    let releaseError: Error | undefined;
+    try {
+      await run.client.query(failed ? "ROLLBACK" : "COMMIT");
+    } catch (error) {
+      releaseError = error as Error;
     } finally {
-      // Remove from active queries and release client
-      this.activeQueries.delete(actualQueryId);
-      client.release();
+      run.client.removeListener("error", run.onError);
+      run.client.release(releaseError);
+    }
+  }
+
+  // Restarts the run's idle timeout, and moves it to the end of cursorRuns so
+  // that the map runs from least to most recently used
+  private touchCursorRun(runId: string | undefined): void {
+    const run = runId ? this.cursorRuns.get(runId) : undefined;
+    if (!run || !runId) return;
+
+    clearTimeout(run.idleTimer);
+    run.idleTimer = setTimeout(
+      () => this.finishCursorRun(runId, false),
+      CURSOR_IDLE_TIMEOUT_MS,
+    );
+    this.cursorRuns.delete(runId);
+    this.cursorRuns.set(runId, run);
+  }
+
+  // Every tab with a partly read result holds a client. Once they fill the
+  // pool, the least recently used run gives its client up rather than leave
+  // the next query waiting for one.
+  private async freeCursorClient(
+    connectionId: string,
+    pool: Pool,
+  ): Promise<void> {
+    if (pool.idleCount > 0 || pool.totalCount < (pool.options.max ?? 10)) {
+      return;
     }
+    for (const [runId, run] of this.cursorRuns) {
+      if (run.connectionId === connectionId) {
+        await this.finishCursorRun(runId, false);
+        return;
+      }
+    }
+  }
+
+  private forgetCursors(predicate: (cursor: OpenCursor) => boolean): void {
+    for (const [cursorId, cursor] of this.cursors) {
+      if (predicate(cursor)) {
+        this.cursors.delete(cursorId);
+      }
+    }
+  }
+
+  private toQueryResult(
+    results: StatementResult[],
+    duration: number,
+    notices: ServerNotice[],
+  ): QueryResult {
+    // The top-level fields mirror the last statement, like psql -c does
+    const lastResult = results[results.length - 1];
+
+    return {
+      rows: lastResult?.rows || [],
+      fields: lastResult?.fields || [],
+      rowCount: lastResult?.rowCount || 0,
+      duration,
+      results,
+      notices: notices.length > 0 ? notices : undefined,
+    };
+  }
+
+  private toStatementResult(
+    result: QueryArrayResult,
+    duration: number,
+  ): StatementResult {
+    // Process fields and convert array rows to objects
+    const processedFields = this.renameDuplicateFields(result.fields || []);
+
+    return {
+      command: result.command || "",
+      rows: this.toRowObjects(result.rows || [], processedFields),
+      fields: processedFields,
+      rowCount: result.rowCount || 0,
+      duration,
+    };
+  }
+
+  // Convert array-based rows to objects using the processed field names
+  private toRowObjects(
+    rows: any[][],
+    fields: { name: string }[],
+  ): Record<string, unknown>[] {
+    return rows.map((row) => {
+      const obj: any = {};
+      fields.forEach((field, index) => {
+        obj[field.name] = row[index];
+      });
+      return obj;
+    });
   }
 
   private renameDuplicateFields(fields: any[]): any[] {
@@ -139,50 +1413,6 @@ export class DatabaseService {
     });
   }
 
-  private splitStatements(sql: string): string[] {
-    const statements: string[] = [];
-    let currentStatement = "";
-    let inString = false;
-    let stringChar = "";
-
-    for (let i = 0; i < sql.length; i++) {
-      const char = sql[i];
-      const nextChar = sql[i + 1];
-
-      if (inString) {
-        if (char === stringChar) {
-          if (nextChar === stringChar) {
-            // Escaped string literal
-            currentStatement += char + nextChar;
-            i++;
-          } else {
-            inString = false;
-            currentStatement += char;
-          }
-        } else {
-          currentStatement += char;
-        }
-      } else {
-        if (char === "'" || char === '"') {
-          inString = true;
-          stringChar = char;
-          currentStatement += char;
-        } else if (char === ";") {
-          statements.push(currentStatement);
-          currentStatement = "";
-        } else {
-          currentStatement += char;
-        }
-      }
-    }
-
-    if (currentStatement.trim().length > 0) {
-      statements.push(currentStatement);
-    }
-
-    return statements;
-  }
-
   async getSchemas(connectionId: string): Promise<SchemaInfo[]> {
     const sql = `
       SELECT table_schema, table_name
@@ -324,17 +1554,539 @@ export class DatabaseService {
     return Array.from(tableMap.values());
   }
 
-  async cancelQuery(queryId: string): Promise<void> {
-    const activeQuery = this.activeQueries.get(queryId);
-    if (activeQuery) {
-      try {
-        // Cancel the PostgreSQL query
-        await activeQuery.client.cancel();
-      } catch (error) {
-        console.error("Error cancelling query:", error);
+  // Every session on the server except the one asking, busiest first.
+  // Background processes without a state are left out.
+  async getActivity(connectionId: string): Promise<SessionActivity[]> {
+    const sql = `
+      SELECT pid, datname, usename, application_name,
+        host(client_addr) AS client_addr, client_port, backend_type, state,
+        wait_event_type, wait_event, query,
+        (EXTRACT(EPOCH FROM now() - query_start) * 1000)::float8 AS query_duration,
+        (EXTRACT(EPOCH FROM now() - xact_start) * 1000)::float8 AS xact_duration,
+        usename = current_user AS is_current_user
+      FROM pg_stat_activity
+      WHERE pid <> pg_backend_pid() AND state IS NOT NULL
+      ORDER BY state = 'active' DESC, query_start NULLS LAST;
+    `;
+
+    const result = await this.queryServerState(connectionId, sql);
+    return result.rows.map((row) => ({
+      pid: row.pid as number,
+      database: row.datname as string | null,
+      username: row.usename as string | null,
+      applicationName: row.application_name as string,
+      clientAddress: row.client_addr as string | null,
+      clientPort: row.client_port as number | null,
+      backendType: row.backend_type as string,
+      state: row.state as string,
+      waitEventType: row.wait_event_type as string | null,
+      waitEvent: row.wait_event as string | null,
+      query: row.query as string,
+      queryDuration: row.query_duration as number | null,
+      transactionDuration: row.xact_duration as number | null,
+      isCurrentUser: row.is_current_user as boolean,
+    }));
+  }
+
+  // Sessions in a lock wait and every session they wait on, with the locks
+  // on the contended objects. pg_locks.waitstart is read through to_jsonb as
+  // it only exists from PostgreSQL 14; before that the query start is used.
+  async getBlockingSessions(connectionId: string): Promise<BlockingSession[]> {
+    const sql = `
+      WITH waiting AS (
+        SELECT pid, pg_blocking_pids(pid) AS blocked_by
+        FROM pg_stat_activity
+        WHERE cardinality(pg_blocking_pids(pid)) > 0
+      ), involved AS (
+        SELECT pid FROM waiting
+        UNION
+        SELECT unnest(blocked_by) FROM waiting
+      )
+      SELECT a.pid, a.usename, a.application_name, a.state, a.query,
+        coalesce(w.blocked_by, '{}') AS blocked_by,
+        (EXTRACT(EPOCH FROM now() - a.query_start) * 1000)::float8 AS query_duration,
+        (EXTRACT(EPOCH FROM now() - a.xact_start) * 1000)::float8 AS xact_duration,
+        coalesce((
+          SELECT json_agg(json_build_object(
+            'target', CASE
+              WHEN l.relation IS NOT NULL THEN l.relation::regclass::text
+              WHEN l.locktype = 'transactionid' THEN 'transaction ' || l.transactionid
+              WHEN l.locktype = 'virtualxid' THEN 'virtual transaction ' || l.virtualxid
+              ELSE l.locktype
+            END,
+            'lockType', l.locktype,
+            'mode', l.mode,
+            'granted', l.granted,
+            'waitDuration', CASE WHEN NOT l.granted THEN
+              EXTRACT(EPOCH FROM now() - coalesce(
+                (to_jsonb(l) ->> 'waitstart')::timestamptz, a.query_start
+              )) * 1000
+            END
+          ) ORDER BY l.granted, l.mode)
+          FROM pg_locks l
+          WHERE l.pid = a.pid AND EXISTS (
+            SELECT 1 FROM pg_locks x
+            WHERE NOT x.granted
+              AND (x.locktype, x.database, x.relation, x.page, x.tuple,
+                x.virtualxid, x.transactionid, x.classid, x.objid, x.objsubid)
+              IS NOT DISTINCT FROM
+                (l.locktype, l.database, l.relation, l.page, l.tuple,
+                l.virtualxid, l.transactionid, l.classid, l.objid, l.objsubid)
+          )
+        ), '[]') AS locks
+      FROM involved i
+      JOIN pg_stat_activity a ON a.pid = i.pid
+      LEFT JOIN waiting w ON w.pid = a.pid
+      ORDER BY a.xact_start NULLS LAST, a.pid;
+    `;
+
+    const result = await this.queryServerState(connectionId, sql);
+    return result.rows.map((row) => ({
+      pid: row.pid as number,
+      username: row.usename as string | null,
+      applicationName: row.application_name as string,
+      state: row.state as string,
+      query: row.query as string,
+      blockedBy: row.blocked_by as number[],
+      queryDuration: row.query_duration as number | null,
+      transactionDuration: row.xact_duration as number | null,
+      locks: row.locks as LockInfo[],
+    }));
+  }
+
+  // Returns whether the server signalled the backend; it refuses backends of
+  // other roles unless we have pg_signal_backend
+  async signalSession(
+    connectionId: string,
+    pid: number,
+    signal: BackendSignal,
+  ): Promise<boolean> {
+    const fn =
+      signal === "cancel" ? "pg_cancel_backend" : "pg_terminate_backend";
+    const result = await this.queryServerState(
+      connectionId,
+      `SELECT ${fn}($1::int) AS signalled`,
+      [pid],
+    );
+    return result.rows[0]?.signalled === true;
+  }
+
+  // Subscribes the connection's listener to a channel and returns every
+  // channel it listens on
+  async listen(connectionId: string, channel: string): Promise<string[]> {
+    try {
+      const listener = await this.getListener(connectionId);
+      await listener.client.query(format("LISTEN %I", channel));
+      listener.channels.add(channel);
+      return [...listener.channels];
+    } catch (error) {
+      throw new Error(`Listen failed: ${error}`);
+    }
+  }
+
+  async unlisten(connectionId: string, channel: string): Promise<string[]> {
+    const listener = this.channelListeners.get(connectionId);
+    if (!listener) return [];
+
+    try {
+      await listener.client.query(format("UNLISTEN %I", channel));
+    } catch (error) {
+      throw new Error(`Unlisten failed: ${error}`);
+    }
+    listener.channels.delete(channel);
+    if (listener.channels.size === 0) {
+      await this.closeListener(connectionId);
+    }
+    return [...listener.channels];
+  }
+
+  async notify(
+    connectionId: string,
+    channel: string,
+    payload: string,
+  ): Promise<void> {
+    const pool = this.pools.get(connectionId);
+    if (!pool) {
+      throw new Error("Connection not found");
+    }
+
+    try {
+      await pool.query("SELECT pg_notify($1, $2)", [channel, payload]);
+    } catch (error) {
+      throw toIpcError("Notify failed", error);
+    }
+  }
+
+  private async getListener(connectionId: string): Promise<ChannelListener> {
+    const existing = this.channelListeners.get(connectionId);
+    if (existing) {
+      await existing.connected;
+      return existing;
+    }
+
+    const pool = this.pools.get(connectionId);
+    if (!pool) {
+      throw new Error("Connection not found");
+    }
+
+    const client = new Client(pool.options);
+    const listener: ChannelListener = {
+      client,
+      channels: new Set(),
+      connected: client.connect(),
+    };
+    client.on("notification", (message) => {
+      const notification: ChannelNotification = {
+        connectionId,
+        channel: message.channel,
+        payload: message.payload ?? "",
+        processId: message.processId,
+        timestamp: Date.now(),
+      };
+      this.emit("notification", notification);
+    });
+    client.on("error", (error) => {
+      if (this.channelListeners.get(connectionId) === listener) {
+        this.channelListeners.delete(connectionId);
+        this.emit("listenerEnded", connectionId, error.message);
+      }
+    });
+    this.channelListeners.set(connectionId, listener);
+
+    try {
+      await listener.connected;
+    } catch (error) {
+      this.channelListeners.delete(connectionId);
+      throw error;
+    }
+    return listener;
+  }
+
+  private async closeListener(connectionId: string): Promise<void> {
+    const listener = this.channelListeners.get(connectionId);
+    if (!listener) return;
+
+    this.channelListeners.delete(connectionId);
+    if (listener.channels.size > 0) {
+      this.emit("listenerEnded", connectionId, "the connection was closed");
+    }
+    try {
+      await listener.client.end();
+    } catch (error) {
+      console.error("Error closing listener:", error);
+    }
+  }
+
+  // Idle clients of a pool report server shutdowns and dropped sockets here;
+  // unhandled, the error event would crash the app
+  private watchPool(connectionId: string, pool: Pool): void {
+    pool.on("error", (error) => {
+      console.error("Idle client error:", error);
+      if (this.pools.get(connectionId) === pool) {
+        this.checkHealth(connectionId);
+      }
+    });
+  }
+
+  private startHealthMonitor(connectionId: string): void {
+    this.stopHealthMonitor(connectionId);
+    const monitor: HealthMonitor = {
+      status: "connected",
+      checking: false,
+      attempt: 0,
+    };
+    this.healthMonitors.set(connectionId, monitor);
+    this.emitHealth(connectionId, monitor);
+    this.scheduleHealthCheck(connectionId, HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  private stopHealthMonitor(connectionId: string): void {
+    clearTimeout(this.healthMonitors.get(connectionId)?.timer);
+    this.healthMonitors.delete(connectionId);
+  }
+
+  private scheduleHealthCheck(connectionId: string, delay: number): void {
+    const monitor = this.healthMonitors.get(connectionId);
+    if (!monitor) return;
+
+    clearTimeout(monitor.timer);
+    monitor.timer = setTimeout(() => this.checkHealth(connectionId), delay);
+  }
+
+  // Runs the keepalive query. The first failure drops the pool and every
+  // server session on it, then reconnect attempts back off until one succeeds.
+  private async checkHealth(connectionId: string): Promise<void> {
+    const monitor = this.healthMonitors.get(connectionId);
+    const pool = this.pools.get(connectionId);
+    if (!monitor || !pool || monitor.checking) return;
+
+    monitor.checking = true;
+    let failure: unknown;
+    try {
+      if (monitor.tunnelLost) {
+        await this.reopenTunnel(connectionId);
+        monitor.tunnelLost = false;
+      }
+      const answered = await settlesWithin(
+        this.queryBesidePool(
+          this.pools.get(connectionId) ?? pool,
+          "SELECT 1",
+        ).then(() => undefined),
+        HEALTH_CHECK_TIMEOUT_MS,
+      );
+      if (!answered) {
+        failure = `the server did not answer within ${HEALTH_CHECK_TIMEOUT_MS / 1000}s`;
       }
-      // Remove from active queries regardless of cancel success
+    } catch (error) {
+      failure = error;
+    } finally {
+      monitor.checking = false;
+    }
+
+    // Disconnected while the check ran
+    if (this.healthMonitors.get(connectionId) !== monitor) return;
+
+    if (failure === undefined) {
+      if (monitor.status === "reconnecting") {
+        monitor.status = "connected";
+        monitor.attempt = 0;
+        monitor.error = undefined;
+        monitor.nextAttemptAt = undefined;
+        this.emitHealth(connectionId, monitor);
+      }
+      this.scheduleHealthCheck(connectionId, HEALTH_CHECK_INTERVAL_MS);
+      return;
+    }
+
+    const error =
+      failure instanceof Error ? failure : new Error(String(failure));
+    if (monitor.status === "connected") {
+      monitor.status = "reconnecting";
+      this.resetConnection(connectionId, error);
+    }
+    monitor.attempt += 1;
+    monitor.error = error.message;
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** (monitor.attempt - 1),
+      RECONNECT_MAX_DELAY_MS,
+    );
+    monitor.nextAttemptAt = Date.now() + delay;
+    this.emitHealth(connectionId, monitor);
+    this.scheduleHealthCheck(connectionId, delay);
+  }
+
+  private emitHealth(connectionId: string, monitor: HealthMonitor): void {
+    const health: ConnectionHealth = {
+      connectionId,
+      status: monitor.status,
+      error: monitor.error,
+      attempt: monitor.attempt || undefined,
+      nextAttemptAt: monitor.nextAttemptAt,
+    };
+    this.emit("connectionHealth", health);
+  }
+
+  // Swaps in a fresh pool so that no client of the lost connection is handed
+  // out again. Pinned sessions and cursor runs lived in server sessions that
+  // are gone; their clients are discarded without a ROLLBACK, which could
+  // hang on a dead socket. An SSH tunnel may have lost its connection without
+  // noticing, so the reconnect attempts open a new one.
+  private resetConnection(connectionId: string, error: Error): void {
+    const pool = this.pools.get(connectionId);
+    if (!pool) return;
+
+    for (const session of this.sessions.values()) {
+      if (session.connectionId === connectionId) {
+        session.onError(error);
+      }
+    }
+    for (const [runId, run] of this.cursorRuns) {
+      if (run.connectionId === connectionId) {
+        this.cursorRuns.delete(runId);
+        clearTimeout(run.idleTimer);
+        this.forgetCursors((cursor) => cursor.runId === runId);
+        run.client.removeListener("error", run.onError);
+        run.client.release(error);
+      }
+    }
+    this.closeListener(connectionId);
+    this.typeCache.delete(connectionId);
+
+    const monitor = this.healthMonitors.get(connectionId);
+    if (monitor && this.tunnels.has(connectionId)) {
+      monitor.tunnelLost = true;
+    }
+    this.replacePool(connectionId, pool.options);
+  }
+
+  private replacePool(connectionId: string, options: PoolConfig): void {
+    const pool = this.pools.get(connectionId);
+    const freshPool = new Pool(options);
+    this.pools.set(connectionId, freshPool);
+    this.watchPool(connectionId, freshPool);
+    pool?.end().catch((endError) => {
+      console.error("Error ending lost pool:", endError);
+    });
+  }
+
+  // Closes the connection's SSH tunnel and opens a new one on another local
+  // port, with a pool that goes through it
+  private async reopenTunnel(connectionId: string): Promise<void> {
+    const tunnel = this.tunnels.get(connectionId);
+    const pool = this.pools.get(connectionId);
+    if (!tunnel || !pool) return;
+
+    await tunnel.close();
+    const freshTunnel = tunnel.recreate();
+    let localPort: number;
+    try {
+      localPort = await freshTunnel.open();
+    } catch (error) {
+      await freshTunnel.close();
+      throw new Error(`SSH tunnel failed: ${(error as Error).message}`);
+    }
+
+    // Disconnected, or reopened by an earlier attempt, meanwhile
+    if (this.tunnels.get(connectionId) !== tunnel) {
+      await freshTunnel.close();
+      return;
+    }
+    this.tunnels.set(connectionId, freshTunnel);
+    this.replacePool(connectionId, {
+      ...pool.options,
+      host: "127.0.0.1",
+      port: localPort,
+    });
+  }
+
+  // Registers a running query so that it can be cancelled. Call the returned
+  // function once the query has finished.
+  private trackQuery(
+    queryId: string,
+    connectionId: string,
+    client: PoolClient,
+  ): () => void {
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    this.activeQueries.set(queryId, {
+      connectionId,
+      client,
+      pid: (client as unknown as { processID: number }).processID,
+      cancelRequested: false,
+      finished,
+    });
+
+    return () => {
       this.activeQueries.delete(queryId);
+      finish();
+    };
+  }
+
+  // Runs a query of the app's own on a pool client, or on a connection of its
+  // own when every client is checked out, so that it never waits behind, or
+  // runs inside, the user's work
+  private async queryBesidePool(
+    pool: Pool,
+    text: string,
+    values: unknown[] = [],
+  ): Promise<PgQueryResult> {
+    if (pool.idleCount > 0 || pool.totalCount < (pool.options.max ?? 10)) {
+      return pool.query(text, values);
+    }
+
+    const client = new Client(pool.options);
+    await client.connect();
+    try {
+      return await client.query(text, values);
+    } finally {
+      await client.end();
+    }
+  }
+
+  // For the activity and lock panels. They matter most when the pool is full
+  // of stuck sessions, so they run beside it rather than taking a slot from a
+  // tab's open cursors or waiting for one.
+  private async queryServerState(
+    connectionId: string,
+    text: string,
+    values: unknown[] = [],
+  ): Promise<PgQueryResult> {
+    const pool = this.pools.get(connectionId);
+    if (!pool) {
+      throw new Error("Connection not found");
+    }
+
+    try {
+      return await this.queryBesidePool(pool, text, values);
+    } catch (error) {
+      if (isConnectionLoss(error)) {
+        this.checkHealth(connectionId);
+      }
+      throw toIpcError("Query failed", error);
+    }
+  }
+
+  // The query's own connection is busy, so the signal goes over a new one; the
+  // pool may have no idle client to spare
+  private async signalBackend(
+    activeQuery: ActiveQuery,
+    signal: "pg_cancel_backend" | "pg_terminate_backend",
+  ): Promise<void> {
+    const pool = this.pools.get(activeQuery.connectionId);
+    if (!pool) {
+      throw new Error("Connection not found");
+    }
+
+    const client = new Client(pool.options);
+    await client.connect();
+    try {
+      await client.query(`SELECT ${signal}($1)`, [activeQuery.pid]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  // Asks the server to cancel the query and waits until it has stopped. A
+  // backend that ignores the cancel is terminated, which also ends the
+  // transaction of a pinned session.
+  async cancelQuery(queryId: string): Promise<CancelResult> {
+    const activeQuery = this.activeQueries.get(queryId);
+    if (!activeQuery) {
+      return "notRunning";
+    }
+    activeQuery.cancelRequested = true;
+
+    // The client reports the dropped connection as an error event, which
+    // would otherwise go unhandled while the client is checked out
+    const ignoreTermination = () => undefined;
+    try {
+      await this.signalBackend(activeQuery, "pg_cancel_backend");
+      if (await settlesWithin(activeQuery.finished, CANCEL_TIMEOUT_MS)) {
+        return "cancelled";
+      }
+
+      activeQuery.client.on("error", ignoreTermination);
+      await this.signalBackend(activeQuery, "pg_terminate_backend");
+      if (!(await settlesWithin(activeQuery.finished, CANCEL_TIMEOUT_MS))) {
+        throw new Error("the server did not stop the query");
+      }
+    } catch (error) {
+      throw new Error(`Cancel failed: ${error}`);
+    } finally {
+      // The error event comes before the query fails, so it has passed once
+      // the query has finished
+      activeQuery.finished.then(() =>
+        activeQuery.client.removeListener("error", ignoreTermination),
+      );
+    }
+
+    for (const [sessionId, session] of this.sessions) {
+      if (session.client === activeQuery.client) {
+        await this.closeSession(sessionId);
+      }
     }
+    return "terminated";
   }
 }
@@ -0,0 +1,6 @@
+import { homedir } from "os";
+import { join } from "path";
+
+// Paths typed into connection settings may start with ~ like in a shell
+export const expandHome = (path: string): string =>
+  path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
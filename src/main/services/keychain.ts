@@ -28,6 +28,16 @@ export class KeychainService {
     }
   }
 
+  // SSH tunnel password or private key passphrase of a connection
+  async getSshSecret(connectionId: string): Promise<string | null> {
+    return this.getPassword('ssh', connectionId);
+  }
+
+  // Passphrase of the client certificate's private key of a connection
+  async getSslKeyPassphrase(connectionId: string): Promise<string | null> {
+    return this.getPassword('sslkey', connectionId);
+  }
+
   // AI credentials methods
   async setAICredentials(provider: string, credentials: string): Promise<void> {
     return this.setPassword('ai', provider, credentials);
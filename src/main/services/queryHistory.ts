@@ -0,0 +1,273 @@
+import { appendFile, mkdir, open, readFile, rename } from "fs/promises";
+import * as path from "path";
+import {
+  QueryHistoryFilter,
+  QueryHistoryPage,
+  QueryLogEntry,
+} from "../preload";
+
+// Starred entries are kept beyond this
+const MAX_ENTRIES = 50000;
+const DEFAULT_PAGE_SIZE = 100;
+
+// Letters, digits and underscores, so that identifiers stay whole
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+const getSearchableText = (entry: QueryLogEntry): string =>
+  [entry.query, entry.error, entry.connectionName, entry.schema]
+    .filter(Boolean)
+    .join(" ");
+
+// Entries from a file or an export, with their timestamp back as a Date.
+// Returns null for anything that isn't an entry.
+const reviveEntry = (value: unknown): QueryLogEntry | null => {
+  const entry = value as QueryLogEntry;
+  if (
+    !entry ||
+    typeof entry.id !== "string" ||
+    typeof entry.query !== "string" ||
+    typeof entry.connectionId !== "string" ||
+    typeof entry.success !== "boolean"
+  ) {
+    return null;
+  }
+  const timestamp = new Date(entry.timestamp);
+  if (isNaN(timestamp.getTime())) return null;
+  return {
+    ...entry,
+    connectionName: String(entry.connectionName ?? ""),
+    timestamp,
+  };
+};
+
+const matchesFilter = (
+  entry: QueryLogEntry,
+  filter: QueryHistoryFilter,
+): boolean => {
+  const time = entry.timestamp.getTime();
+  return (
+    (!filter.connectionId || entry.connectionId === filter.connectionId) &&
+    (!filter.schema ||
+      entry.schema?.toLowerCase() === filter.schema.toLowerCase()) &&
+    (!filter.from || time >= new Date(filter.from).getTime()) &&
+    (!filter.to || time < new Date(filter.to).getTime()) &&
+    (filter.minDuration === undefined ||
+      (entry.duration ?? 0) >= filter.minDuration) &&
+    (filter.maxDuration === undefined ||
+      (entry.duration ?? 0) <= filter.maxDuration) &&
+    (!filter.status || entry.success === (filter.status === "success")) &&
+    (!filter.starred || !!entry.starred)
+  );
+};
+
+// Every query run, in history.jsonl in the user data directory. Each line is
+// an entry; a later line with the same id replaces an earlier one, so that
+// starring is an append too. The file is rewritten without the replaced
+// lines once they pile up, and then also drops the oldest unstarred entries
+// beyond MAX_ENTRIES.
+export class QueryHistoryStore {
+  private entries = new Map<string, QueryLogEntry>(); // In the order they arrived
+  private index = new Map<string, Set<string>>(); // Token to entry ids
+  private lineCount = 0;
+  private writing: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(directory: string) {
+    this.filePath = path.join(directory, "history.jsonl");
+  }
+
+  async load(): Promise<void> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const loaded: QueryLogEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      this.lineCount++;
+      try {
+        const entry = reviveEntry(JSON.parse(line));
+        if (entry) loaded.push(entry);
+      } catch {
+        // A line cut short by a crash mid-append
+        console.warn("Skipping an unreadable line in history.jsonl");
+      }
+    }
+    // Written in the order they ran, apart from imports
+    loaded.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    for (const entry of loaded) {
+      this.put(entry);
+    }
+
+    if (this.needsCompaction()) {
+      await this.enqueue(() => this.compact());
+    }
+  }
+
+  add(entry: QueryLogEntry): Promise<void> {
+    const revived = reviveEntry(entry);
+    if (!revived) {
+      return Promise.reject(new Error("Not a query history entry"));
+    }
+    this.put(revived);
+    return this.append([revived]);
+  }
+
+  search(filter: QueryHistoryFilter): QueryHistoryPage {
+    const candidates = this.findText(filter.text ?? "");
+    const matches: QueryLogEntry[] = [];
+    for (const entry of candidates) {
+      if (matchesFilter(entry, filter)) {
+        matches.push(entry);
+      }
+    }
+    matches.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    const offset = filter.offset ?? 0;
+    return {
+      entries: matches.slice(
+        offset,
+        offset + (filter.limit ?? DEFAULT_PAGE_SIZE),
+      ),
+      total: matches.length,
+    };
+  }
+
+  setStarred(id: string, starred: boolean): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return Promise.reject(new Error("The query is no longer in the history"));
+    }
+    const updated = { ...entry, starred: starred || undefined };
+    this.entries.set(id, updated);
+    return this.append([updated]);
+  }
+
+  // Entries already in the history are skipped, so importing the same export
+  // twice adds nothing. Resolves to the number of entries added.
+  async import(values: unknown[]): Promise<number> {
+    const added: QueryLogEntry[] = [];
+    for (const value of values) {
+      const entry = reviveEntry(value);
+      if (entry && !this.entries.has(entry.id)) {
+        this.put(entry);
+        added.push(entry);
+      }
+    }
+    if (added.length > 0) {
+      await this.append(added);
+    }
+    return added.length;
+  }
+
+  private put(entry: QueryLogEntry): void {
+    // Re-inserted so that the map stays ordered by when entries arrived
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+    for (const token of tokenize(getSearchableText(entry))) {
+      let ids = this.index.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.index.set(token, ids);
+      }
+      ids.add(entry.id);
+    }
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.entries.delete(id);
+    for (const token of tokenize(getSearchableText(entry))) {
+      const ids = this.index.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.index.delete(token);
+      }
+    }
+  }
+
+  // Every word has to start a word of the entry, so that "cust ord" finds
+  // customers joined to orders
+  private findText(text: string): Iterable<QueryLogEntry> {
+    const words = tokenize(text);
+    if (words.length === 0) return this.entries.values();
+
+    let ids: Set<string> | null = null;
+    for (const word of words) {
+      const wordIds = new Set<string>();
+      for (const [token, tokenIds] of this.index) {
+        if (token.startsWith(word)) {
+          for (const id of tokenIds) {
+            if (!ids || ids.has(id)) wordIds.add(id);
+          }
+        }
+      }
+      ids = wordIds;
+      if (ids.size === 0) break;
+    }
+
+    const found: QueryLogEntry[] = [];
+    for (const id of ids ?? []) {
+      const entry = this.entries.get(id);
+      if (entry) found.push(entry);
+    }
+    return found;
+  }
+
+  private needsCompaction(): boolean {
+    return (
+      this.lineCount > this.entries.size * 2 + 1000 ||
+      this.entries.size > MAX_ENTRIES * 1.1
+    );
+  }
+
+  private append(entries: QueryLogEntry[]): Promise<void> {
+    this.lineCount += entries.length;
+    const lines = entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+    return this.enqueue(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, lines, "utf8");
+      if (this.needsCompaction()) {
+        await this.compact();
+      }
+    });
+  }
+
+  // Writes are queued like the config store's, so that a rewrite never
+  // loses an append that started before it
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(write);
+    return this.writing;
+  }
+
+  private async compact(): Promise<void> {
+    let excess = this.entries.size - MAX_ENTRIES;
+    for (const entry of [...this.entries.values()]) {
+      if (excess <= 0) break;
+      if (!entry.starred) {
+        this.remove(entry.id);
+        excess--;
+      }
+    }
+
+    const contents = [...this.entries.values()]
+      .map((entry) => `${JSON.stringify(entry)}\n`)
+      .join("");
+    const temporaryPath = `${this.filePath}.tmp`;
+    const file = await open(temporaryPath, "w");
+    try {
+      await file.writeFile(contents, "utf8");
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await rename(temporaryPath, this.filePath);
+    this.lineCount = this.entries.size;
+  }
+}
@@ -0,0 +1,495 @@
+// A tokenizer for PostgreSQL's lexical structure, close enough to the server's
+// own scanner to tell where statements end and which text is code
+//
+// The renderer imports this module as well, so that both processes agree on
+// where statements start and end; it must not use any Node API.
+
+export type TokenType =
+  | "whitespace"
+  | "comment"
+  | "string" // '...', E'...', B'...', X'...', U&'...' and $tag$...$tag$
+  | "identifier" // Keywords and unquoted names
+  | "quotedIdentifier"
+  | "number"
+  | "parameter" // $1, $2, ...
+  | "operator"
+  | "punctuation"
+  | "semicolon";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SqlEdit {
+  start: number;
+  end: number;
+  text: string; // Replaces the source between start and end
+}
+
+export interface RewrittenSql {
+  text: string;
+  toSourceOffset: (offset: number) => number;
+}
+
+export interface SqlStatement {
+  text: string;
+  start: number; // Offset of the first character in the source SQL
+  end: number; // Offset just past the last character, before any semicolon
+}
+
+const IDENTIFIER_START = /[A-Za-z_\u0080-\uffff]/;
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$\u0080-\uffff]/;
+const OPERATOR_CHAR = /[+\-*/<>=~!@#%^&|`?]/;
+const PUNCTUATION = new Set(["(", ")", "[", "]", ",", ".", ":"]);
+
+const DOLLAR_TAG = /\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+const NUMBER = /(\d[\d_]*(\.[\d_]*)?|\.\d[\d_]*)([eE][+-]?\d+)?/y;
+const PARAMETER = /\$\d+/y;
+
+// Scans a quoted run starting at `start`. Doubled quotes escape themselves and,
+// in E'...' strings, backslashes escape the next character.
+const scanQuoted = (
+  sql: string,
+  start: number,
+  quote: string,
+  backslashEscapes: boolean,
+): number => {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === "\\") {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+};
+
+// Block comments nest in PostgreSQL
+const scanBlockComment = (sql: string, start: number): number => {
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql[i] === "/" && sql[i + 1] === "*") {
+      depth++;
+      i += 2;
+    } else if (sql[i] === "*" && sql[i + 1] === "/") {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+};
+
+// Operators stop before anything that would start a comment
+const scanOperator = (sql: string, start: number): number => {
+  let i = start;
+  while (
+    i < sql.length &&
+    OPERATOR_CHAR.test(sql[i]) &&
+    !(i > start && sql[i] === "-" && sql[i + 1] === "-") &&
+    !(i > start && sql[i] === "/" && sql[i + 1] === "*")
+  ) {
+    i++;
+  }
+  return i;
+};
+
+// Returns the type and end of the token starting at `start`
+const scanToken = (
+  sql: string,
+  start: number,
+): { type: TokenType; end: number } => {
+  const char = sql[start];
+  const next = sql[start + 1];
+
+  if (/\s/.test(char)) {
+    let i = start + 1;
+    while (i < sql.length && /\s/.test(sql[i])) i++;
+    return { type: "whitespace", end: i };
+  }
+
+  if (char === "-" && next === "-") {
+    const end = sql.indexOf("\n", start);
+    return { type: "comment", end: end === -1 ? sql.length : end + 1 };
+  }
+
+  if (char === "/" && next === "*") {
+    return { type: "comment", end: scanBlockComment(sql, start) };
+  }
+
+  if (char === "'") {
+    return { type: "string", end: scanQuoted(sql, start, "'", false) };
+  }
+
+  if (char === '"') {
+    return {
+      type: "quotedIdentifier",
+      end: scanQuoted(sql, start, '"', false),
+    };
+  }
+
+  // String prefixes: E'...' escapes, B'...' and X'...' bit strings, N'...'
+  if (/[eEbBxXnN]/.test(char) && next === "'") {
+    return {
+      type: "string",
+      end: scanQuoted(sql, start + 1, "'", /[eE]/.test(char)),
+    };
+  }
+
+  // Unicode escapes: U&'...' and U&"..."
+  if (/[uU]/.test(char) && next === "&" && /['"]/.test(sql[start + 2])) {
+    const quote = sql[start + 2];
+    return {
+      type: quote === "'" ? "string" : "quotedIdentifier",
+      end: scanQuoted(sql, start + 2, quote, false),
+    };
+  }
+
+  if (char === "$") {
+    DOLLAR_TAG.lastIndex = start;
+    const tag = DOLLAR_TAG.exec(sql);
+    if (tag) {
+      const close = sql.indexOf(tag[0], start + tag[0].length);
+      return {
+        type: "string",
+        end: close === -1 ? sql.length : close + tag[0].length,
+      };
+    }
+
+    PARAMETER.lastIndex = start;
+    const parameter = PARAMETER.exec(sql);
+    if (parameter) {
+      return { type: "parameter", end: start + parameter[0].length };
+    }
+  }
+
+  if (IDENTIFIER_START.test(char)) {
+    let i = start + 1;
+    while (i < sql.length && IDENTIFIER_CHAR.test(sql[i])) i++;
+    return { type: "identifier", end: i };
+  }
+
+  if (/\d/.test(char) || (char === "." && /\d/.test(next || ""))) {
+    NUMBER.lastIndex = start;
+    const number = NUMBER.exec(sql)!;
+    return { type: "number", end: start + number[0].length };
+  }
+
+  if (char === ";") {
+    return { type: "semicolon", end: start + 1 };
+  }
+
+  if (char === ":" && next === ":") {
+    return { type: "operator", end: start + 2 };
+  }
+
+  if (PUNCTUATION.has(char)) {
+    return { type: "punctuation", end: start + 1 };
+  }
+
+  if (OPERATOR_CHAR.test(char)) {
+    return { type: "operator", end: scanOperator(sql, start) };
+  }
+
+  // Anything else is passed through one character at a time
+  return { type: "operator", end: start + 1 };
+};
+
+/**
+ * Splits SQL into tokens that together cover the whole input. Unterminated
+ * strings, identifiers and comments run to the end of the input.
+ */
+export const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const { type, end } = scanToken(sql, i);
+    tokens.push({ type, text: sql.slice(i, end), start: i, end });
+    i = end;
+  }
+  return tokens;
+};
+
+/**
+ * Applies edits, given in order and not overlapping, and returns the new text
+ * with a way to map its offsets back to the source. Offsets inside an edit map
+ * to where the edit starts, so positions the server reports in rewritten SQL
+ * can still be shown in the SQL as written.
+ */
+export const applyEdits = (sql: string, edits: SqlEdit[]): RewrittenSql => {
+  const spans: { from: number; to: number; start: number; end: number }[] = [];
+  let text = "";
+  let last = 0;
+  for (const edit of edits) {
+    text += sql.slice(last, edit.start);
+    spans.push({
+      from: text.length,
+      to: text.length + edit.text.length,
+      start: edit.start,
+      end: edit.end,
+    });
+    text += edit.text;
+    last = edit.end;
+  }
+  text += sql.slice(last);
+
+  const toSourceOffset = (offset: number): number => {
+    let shift = 0;
+    for (const span of spans) {
+      if (offset < span.from) break;
+      if (offset < span.to) return span.start;
+      shift = span.end - span.to;
+    }
+    return offset + shift;
+  };
+
+  return { text, toSourceOffset };
+};
+
+const isCode = (token: Token): boolean =>
+  token.type !== "whitespace" && token.type !== "comment";
+
+// CREATE [OR REPLACE] FUNCTION|PROCEDURE may have a BEGIN ATOMIC ... END body
+const isRoutineDefinition = (words: string[]): boolean =>
+  words[0] === "create" &&
+  (["function", "procedure"].includes(words[1]) ||
+    (words[1] === "or" &&
+      words[2] === "replace" &&
+      ["function", "procedure"].includes(words[3])));
+
+/**
+ * Splits a script into statements at semicolons that are outside strings,
+ * comments, parentheses and BEGIN ATOMIC bodies. Each statement keeps its
+ * offsets in the script; leading and trailing whitespace and comments are left
+ * out, as are statements with nothing but those.
+ */
+export const splitStatements = (sql: string): SqlStatement[] => {
+  const statements: SqlStatement[] = [];
+  let first: Token | undefined;
+  let last: Token | undefined;
+  let words: string[] = [];
+  let parenDepth = 0;
+  let beginDepth = 0;
+
+  const finish = () => {
+    if (first && last) {
+      statements.push({
+        text: sql.slice(first.start, last.end),
+        start: first.start,
+        end: last.end,
+      });
+    }
+    first = undefined;
+    last = undefined;
+    words = [];
+    parenDepth = 0;
+    beginDepth = 0;
+  };
+
+  for (const token of tokenize(sql)) {
+    if (!isCode(token)) continue;
+
+    if (token.type === "semicolon" && parenDepth === 0 && beginDepth === 0) {
+      finish();
+      continue;
+    }
+
+    first = first || token;
+    last = token;
+
+    if (token.text === "(") parenDepth++;
+    if (token.text === ")") parenDepth = Math.max(0, parenDepth - 1);
+
+    if (token.type === "identifier") {
+      const word = token.text.toLowerCase();
+      if (words.length < 4) words.push(word);
+
+      // The same heuristic psql uses: CASE ... END nests inside the body
+      if (isRoutineDefinition(words) && parenDepth === 0) {
+        if (word === "begin") {
+          beginDepth++;
+        } else if (word === "case" && beginDepth > 0) {
+          beginDepth++;
+        } else if (word === "end" && beginDepth > 0) {
+          beginDepth--;
+        }
+      }
+    }
+  }
+
+  finish();
+  return statements;
+};
+
+// Returns the first keyword of a statement, skipping whitespace and comments
+export const getLeadingKeyword = (statement: string): string => {
+  const token = tokenize(statement).find(isCode);
+  return token?.type === "identifier" ? token.text.toUpperCase() : "";
+};
+
+// PREPARE ... AS and routine definitions number their own $n parameters, so
+// those are not placeholders for values bound to the statement
+export const hasOwnParameters = (statement: string): boolean => {
+  const words = tokenize(statement)
+    .filter((token) => token.type === "identifier")
+    .slice(0, 4)
+    .map((token) => token.text.toLowerCase());
+  return words[0] === "prepare" || isRoutineDefinition(words);
+};
+
+// Statements that modify data, schema or permissions
+const WRITE_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "UPSERT",
+  "CREATE",
+  "ALTER",
+  "DROP",
+  "TRUNCATE",
+  "GRANT",
+  "REVOKE",
+  "COMMENT",
+  "COPY",
+  "VACUUM",
+  "ANALYZE",
+  "CLUSTER",
+  "REINDEX",
+  "REFRESH",
+  "IMPORT",
+  "SECURITY",
+  "REASSIGN",
+  "LOCK",
+]);
+
+// Functions that write, even from a plain SELECT
+const WRITE_FUNCTIONS = new Set([
+  "nextval",
+  "setval",
+  "lo_create",
+  "lo_creat",
+  "lo_import",
+  "lo_unlink",
+  "lo_put",
+  "lo_from_bytea",
+  "lo_truncate",
+  "dblink_exec",
+]);
+
+const READ_WRITE_SETTING =
+  /\bread\s+write\b|\b(default_)?transaction_read_only\b/i;
+
+const isWord = (token: Token | undefined, ...words: string[]): boolean =>
+  token?.type === "identifier" && words.includes(token.text.toLowerCase());
+
+// Where the statement EXPLAIN ANALYZE would run starts, or -1 without ANALYZE.
+// Takes both the parenthesized options and the older ANALYZE VERBOSE form.
+const findAnalyzedStatement = (tokens: Token[]): number => {
+  let analyze = false;
+  let index = 1;
+  if (tokens[index]?.text === "(") {
+    let option: Token[] = [];
+    for (index++; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.text === "," || token.text === ")") {
+        // ANALYZE on its own, or with a value that isn't false
+        if (
+          isWord(option[0], "analyze", "analyse") &&
+          !(option[1] && /^(false|off|0)$/i.test(option[1].text))
+        ) {
+          analyze = true;
+        }
+        option = [];
+        if (token.text === ")") break;
+      } else {
+        option.push(token);
+      }
+    }
+    index++;
+  } else {
+    while (isWord(tokens[index], "analyze", "analyse", "verbose")) {
+      analyze = analyze || !isWord(tokens[index], "verbose");
+      index++;
+    }
+  }
+  return analyze && tokens[index] ? tokens[index].start : -1;
+};
+
+// Where the statement PREPARE name [(types)] AS would run starts
+const findPreparedStatement = (tokens: Token[]): number => {
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.text === "(") depth++;
+    if (token.text === ")") depth--;
+    if (depth === 0 && isWord(token, "as")) {
+      return token.end;
+    }
+  }
+  return -1;
+};
+
+export const isWriteStatement = (statement: string): boolean => {
+  const tokens = tokenize(statement).filter(isCode);
+  const keyword = getLeadingKeyword(statement);
+  if (WRITE_KEYWORDS.has(keyword)) {
+    return true;
+  }
+
+  // Runs the statement it explains
+  if (keyword === "EXPLAIN") {
+    const start = findAnalyzedStatement(tokens);
+    return start >= 0 && isWriteStatement(statement.slice(start));
+  }
+
+  // PREPARE TRANSACTION ends the transaction for a later COMMIT PREPARED, and
+  // what EXECUTE runs was prepared earlier, perhaps by another script
+  if (keyword === "PREPARE") {
+    if (isWord(tokens[1], "transaction")) return true;
+    const start = findPreparedStatement(tokens);
+    return start >= 0 && isWriteStatement(statement.slice(start));
+  }
+  if (keyword === "EXECUTE") {
+    return true;
+  }
+
+  // Switching the session or transaction back to read-write defeats the guard
+  if (["SET", "BEGIN", "START", "RESET"].includes(keyword)) {
+    return READ_WRITE_SETTING.test(statement);
+  }
+
+  if (!["SELECT", "WITH", "VALUES", "TABLE"].includes(keyword)) {
+    return false;
+  }
+
+  let depth = 0;
+  return tokens.some((token, index) => {
+    if (token.text === "(") depth++;
+    if (token.text === ")") depth--;
+    if (token.type !== "identifier") return false;
+    const word = token.text.toLowerCase();
+    const next = tokens[index + 1];
+    return (
+      // Data-modifying CTEs write whatever the main statement is
+      (keyword === "WITH" &&
+        ["insert", "update", "delete", "merge"].includes(word)) ||
+      // SELECT INTO creates a table
+      (depth === 0 && word === "into") ||
+      // Row locks: FOR UPDATE, FOR NO KEY UPDATE, FOR SHARE, FOR KEY SHARE
+      (word === "for" && isWord(next, "update", "no", "share", "key")) ||
+      (next?.text === "(" &&
+        (WRITE_FUNCTIONS.has(word) ||
+          (word === "set_config" && READ_WRITE_SETTING.test(statement))))
+    );
+  });
+};
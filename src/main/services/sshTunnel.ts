@@ -0,0 +1,263 @@
+import { createHmac } from "crypto";
+import { readFile } from "fs/promises";
+import { AddressInfo, Server, Socket, createServer } from "net";
+import { Client, ClientChannel } from "ssh2";
+import { SshTunnelConfig } from "../preload";
+import { expandHome } from "./files";
+
+const READY_TIMEOUT_MS = 20000;
+// Keeps NAT and firewall state alive on the way to the bastion
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+type HostKeyStatus = "known" | "unknown" | "changed" | "revoked";
+
+// The key blob starts with its type, e.g. ssh-ed25519
+const getKeyType = (key: Buffer): string =>
+  key.subarray(4, 4 + key.readUInt32BE(0)).toString();
+
+// Matches a known_hosts host field: a hashed entry (|1|salt|hash) or a comma
+// separated list of patterns with * and ? wildcards and !negations
+const matchesHostField = (field: string, name: string): boolean => {
+  if (field.startsWith("|1|")) {
+    const [, , salt, hash] = field.split("|");
+    return (
+      createHmac("sha1", Buffer.from(salt, "base64"))
+        .update(name)
+        .digest("base64") === hash
+    );
+  }
+
+  let matched = false;
+  for (const pattern of field.split(",")) {
+    const negated = pattern.startsWith("!");
+    const regex = new RegExp(
+      `^${(negated ? pattern.slice(1) : pattern)
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+        .replace(/\?/g, ".")}$`,
+      "i",
+    );
+    if (regex.test(name)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+  return matched;
+};
+
+// Looks the server's key up the way OpenSSH does: a host listed only with
+// keys of other types is unknown rather than changed. @cert-authority lines
+// are not supported and are skipped.
+const checkKnownHost = (
+  knownHosts: string,
+  host: string,
+  port: number,
+  key: Buffer,
+): HostKeyStatus => {
+  const name = port === 22 ? host : `[${host}]:${port}`;
+  const keyType = getKeyType(key);
+  const keyData = key.toString("base64");
+  let listed = false;
+
+  for (const line of knownHosts.split("\n")) {
+    const fields = line.trim().split(/\s+/);
+    if (!fields[0] || fields[0].startsWith("#")) continue;
+
+    const marker = fields[0].startsWith("@") ? fields.shift() : undefined;
+    const [hosts, type, data] = fields;
+    if (marker === "@cert-authority" || !data) continue;
+    if (marker === "@revoked") {
+      if (data === keyData) return "revoked";
+      continue;
+    }
+
+    if (type === keyType && matchesHostField(hosts, name)) {
+      if (data === keyData) return "known";
+      listed = true;
+    }
+  }
+  return listed ? "changed" : "unknown";
+};
+
+const describeHostKeyProblem = (
+  status: HostKeyStatus,
+  config: SshTunnelConfig,
+  knownHostsPath: string,
+): string => {
+  const host = `${config.host}:${config.port}`;
+  switch (status) {
+    case "unknown":
+      return `The host key of ${host} is not in ${knownHostsPath}. Connect once with ssh to verify and add it.`;
+    case "changed":
+      return `The host key of ${host} does not match ${knownHostsPath}. The server may have been reinstalled, or someone may be intercepting the connection.`;
+    default:
+      return `The host key of ${host} is marked @revoked in ${knownHostsPath}.`;
+  }
+};
+
+const connectSsh = async (
+  config: SshTunnelConfig,
+  secret: string | null,
+): Promise<Client> => {
+  let privateKey: Buffer | undefined;
+  if (config.authMethod === "privateKey") {
+    if (!config.privateKeyPath) {
+      throw new Error("No private key file is set");
+    }
+    privateKey = await readFile(expandHome(config.privateKeyPath));
+  }
+
+  const knownHostsPath = expandHome(
+    config.knownHostsPath || "~/.ssh/known_hosts",
+  );
+  // A missing file just means that no host is known yet
+  const knownHosts = config.verifyHostKey
+    ? await readFile(knownHostsPath, "utf8").catch(() => "")
+    : "";
+
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    let hostKeyProblem: string | undefined;
+
+    const onConnectError = (error: Error) => {
+      reject(hostKeyProblem ? new Error(hostKeyProblem) : error);
+    };
+    client.once("error", onConnectError);
+    client.once("ready", () => {
+      client.removeListener("error", onConnectError);
+      // Later errors also close the client, which the tunnel notices
+      client.on("error", (error: Error) => {
+        console.error("SSH tunnel error:", error);
+      });
+      resolve(client);
+    });
+
+    client.connect({
+      host: config.host,
+      port: config.port,
+      username: config.username,
+      password: config.authMethod === "password" ? (secret ?? "") : undefined,
+      privateKey,
+      passphrase:
+        config.authMethod === "privateKey" ? (secret ?? undefined) : undefined,
+      readyTimeout: READY_TIMEOUT_MS,
+      keepaliveInterval: KEEPALIVE_INTERVAL_MS,
+      hostVerifier: config.verifyHostKey
+        ? (key: Buffer) => {
+            const status = checkKnownHost(
+              knownHosts,
+              config.host,
+              config.port,
+              key,
+            );
+            if (status !== "known") {
+              hostKeyProblem = describeHostKeyProblem(
+                status,
+                config,
+                knownHostsPath,
+              );
+            }
+            return status === "known";
+          }
+        : undefined,
+    });
+  });
+};
+
+// A local port forwarded through an SSH server to the database. The SSH
+// connection is opened again on demand after it drops, so the pool's own
+// reconnect brings the tunnel back too.
+export class SshTunnel {
+  private server: Server;
+  private client: Promise<Client> | null = null;
+  private closed = false;
+  localPort = 0;
+
+  constructor(
+    private readonly config: SshTunnelConfig,
+    private readonly secret: string | null,
+    private readonly targetHost: string, // Resolved by the SSH server
+    private readonly targetPort: number,
+  ) {
+    this.server = createServer((socket) => this.forward(socket));
+    this.server.on("error", (error) => {
+      console.error("SSH tunnel listener error:", error);
+    });
+  }
+
+  // Authenticates up front, so that a wrong password or host key fails the
+  // connect rather than the first query
+  async open(): Promise<number> {
+    await this.getClient();
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(0, "127.0.0.1", () => {
+        this.server.removeListener("error", reject);
+        resolve();
+      });
+    });
+    this.localPort = (this.server.address() as AddressInfo).port;
+    return this.localPort;
+  }
+
+  // A tunnel to the same target with a listener and SSH connection of its own
+  recreate(): SshTunnel {
+    return new SshTunnel(
+      this.config,
+      this.secret,
+      this.targetHost,
+      this.targetPort,
+    );
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.server.close();
+    const client = await this.client?.catch(() => undefined);
+    client?.end();
+  }
+
+  private getClient(): Promise<Client> {
+    if (this.closed) {
+      return Promise.reject(new Error("The SSH tunnel was closed"));
+    }
+    if (!this.client) {
+      const connecting = connectSsh(this.config, this.secret);
+      const forget = () => {
+        if (this.client === connecting) {
+          this.client = null;
+        }
+      };
+      connecting.then((client) => client.on("close", forget), forget);
+      this.client = connecting;
+    }
+    return this.client;
+  }
+
+  private forward(socket: Socket): void {
+    socket.on("error", () => socket.destroy());
+    this.getClient().then(
+      (client) => {
+        client.forwardOut(
+          "127.0.0.1",
+          socket.remotePort ?? 0,
+          this.targetHost,
+          this.targetPort,
+          (error: Error | undefined, stream: ClientChannel) => {
+            if (error) {
+              console.error("SSH port forward failed:", error);
+              socket.destroy();
+              return;
+            }
+            stream.on("error", () => socket.destroy());
+            socket.pipe(stream).pipe(socket);
+          },
+        );
+      },
+      (error) => {
+        console.error("SSH connection failed:", error);
+        socket.destroy();
+      },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { readFile } from "fs/promises";
+import { isIP } from "net";
+import { ConnectionOptions, checkServerIdentity } from "tls";
+import { SslConfig } from "../preload";
+import { expandHome } from "./files";
+
+// Turns an sslmode into pg's ssl option the way libpq reads it: require only
+// encrypts unless a root certificate is given, verify-ca checks the chain and
+// verify-full the host name too. Falling back to plain text for prefer is up
+// to the caller, as pg has no such mode.
+export const buildSslOptions = async (
+  ssl: SslConfig | undefined,
+  host: string,
+  keyPassphrase: string | null,
+): Promise<ConnectionOptions | false> => {
+  if (!ssl || ssl.mode === "disable") {
+    return false;
+  }
+
+  const verify =
+    ssl.mode === "verify-ca" ||
+    ssl.mode === "verify-full" ||
+    (ssl.mode === "require" && !!ssl.rootCertPath);
+  const options: ConnectionOptions = {
+    rejectUnauthorized: verify,
+    // Through an SSH tunnel pg connects to 127.0.0.1, but the certificate
+    // still names the real host
+    servername: isIP(host) ? undefined : host,
+  };
+  if (ssl.mode === "verify-full") {
+    // Checked against the configured host, as servername is only sent for
+    // names and an IP address would otherwise be checked as 127.0.0.1
+    options.checkServerIdentity = (_, cert) => checkServerIdentity(host, cert);
+  } else if (verify) {
+    options.checkServerIdentity = () => undefined;
+  }
+
+  if (ssl.rootCertPath) {
+    options.ca = await readFile(expandHome(ssl.rootCertPath), "utf8");
+  }
+  if (ssl.certPath) {
+    options.cert = await readFile(expandHome(ssl.certPath), "utf8");
+  }
+  if (ssl.keyPath) {
+    options.key = await readFile(expandHome(ssl.keyPath), "utf8");
+    options.passphrase = keyPassphrase ?? undefined;
+  }
+  return options;
+};
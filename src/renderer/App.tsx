@@ -1,20 +1,31 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Sidebar } from "./components/Sidebar";
 import { MainContent } from "./components/MainContent";
 import { ConnectionForm } from "./components/ConnectionForm";
 import { QueryHistory } from "./components/QueryHistory";
+import { NotificationConsole } from "./components/NotificationConsole";
+import { SessionActivityMonitor } from "./components/SessionActivityMonitor";
+import { LockViewer } from "./components/LockViewer";
 import { AISettingsModal } from "./components/AISettingsModal";
 import { TextToSQLModal } from "./components/TextToSQLModal";
 import { useDatabase } from "./hooks/useDatabase";
 import { useTheme } from "./hooks/useTheme";
-import { v4 as uuidv4 } from "uuid";
+import { useNotifications } from "./hooks/useNotifications";
+import { useConnectionHealth } from "./hooks/useConnectionHealth";
 import {
+  ConfigValues,
   DatabaseConnection,
   QueryTab,
+  QueryResult,
+  StatementResult,
   AppState,
   SchemaInfo,
   TableInfo,
+  QueryError,
   QueryLogEntry,
+  QueryParameterValue,
+  TransactionAction,
+  TransactionMode,
 } from "./types";
 import { generateTabName } from "./utils/tabNaming";
 import {
@@ -22,7 +33,107 @@ import {
   refreshTabName,
   clearCredentialsCache,
 } from "./utils/aiTabNaming";
-import { extractErrorMessage } from "./utils/errorHandling";
+import { extractErrorMessage, extractQueryError } from "./utils/errorHandling";
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  applyDisplaySettings,
+} from "./utils/displaySettings";
+import { confirmProductionRun } from "./utils/environments";
+import { bindParameters } from "./utils/queryParameters";
+import {
+  DEFAULT_SIDEBAR_WIDTH,
+  restoreTabs,
+  toWorkspace,
+} from "./utils/workspace";
+
+// Tabs in manual commit mode whose pinned session still has work to commit or roll back
+const hasOpenTransaction = (tab: QueryTab): boolean =>
+  tab.transactionMode === "manual" &&
+  !!tab.transactionStatus &&
+  tab.transactionStatus !== "idle";
+
+// Panels that slide in from the right next to the query history; only one of
+// them is open at a time
+type SidePanel = "notifications" | "activity" | "locks";
+
+// Rows fetched per page when a result is read through a cursor
+const RESULT_PAGE_SIZE = 1000;
+
+const getOpenCursorIds = (result?: QueryResult): string[] =>
+  (result?.results || [])
+    .filter((statement) => statement.hasMore && statement.cursorId)
+    .map((statement) => statement.cursorId!);
+
+// Marks every statement as fully fetched once the server has dropped its cursors
+const withoutCursors = (result?: QueryResult): QueryResult | undefined =>
+  result && {
+    ...result,
+    results: result.results.map((statement) =>
+      statement.hasMore
+        ? { ...statement, hasMore: false, cursorId: undefined }
+        : statement,
+    ),
+  };
+
+// The config store tells the other windows
+const saveConnections = (connections: DatabaseConnection[]) => {
+  window.electronAPI.config
+    .set("connections", connections)
+    .catch((error) =>
+      alert(`Saving connections failed: ${extractErrorMessage(error)}`),
+    );
+};
+
+// Default to 'public' schema for PostgreSQL
+const getDefaultSchema = (schemas: SchemaInfo[] = []): string =>
+  schemas.find((s) => s.name === "public")?.name ||
+  schemas[0]?.name ||
+  "public";
+
+// Points a server error at the editor text. `editorOffset` is where the SQL
+// that ran starts in the tab, and `toSourceOffset` undoes the placeholder rewrite.
+const locateQueryError = (
+  error: QueryError,
+  toSourceOffset: (offset: number) => number,
+  editorOffset: number,
+): QueryError =>
+  error.offset === undefined
+    ? error
+    : { ...error, editorOffset: editorOffset + toSourceOffset(error.offset) };
+
+// Forgets what was loaded for a connection that was disconnected. Its tabs
+// stay bound to it; disconnecting rolled back their pinned sessions and
+// closed their cursors.
+const withConnectionClosed = (
+  state: AppState,
+  connectionId: string,
+): AppState => {
+  const schemas = { ...state.schemas };
+  delete schemas[connectionId];
+  const tableSchemaCache = { ...state.tableSchemaCache };
+  delete tableSchemaCache[connectionId];
+
+  return {
+    ...state,
+    openConnectionIds: state.openConnectionIds.filter(
+      (id) => id !== connectionId,
+    ),
+    schemas,
+    tableSchemaCache,
+    queryTabs: state.queryTabs.map((tab) =>
+      tab.connectionId === connectionId
+        ? {
+            ...tab,
+            result: withoutCursors(tab.result),
+            ...(tab.transactionMode === "manual" && {
+              transactionStatus: "idle",
+              savepoints: [],
+            }),
+          }
+        : tab,
+    ),
+  };
+};
 
 export const App: React.FC = () => {
   const { isDark } = useTheme();
@@ -30,7 +141,8 @@ export const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     connections: [],
     activeConnectionId: null,
-    schemas: [],
+    openConnectionIds: [],
+    schemas: {},
     queryTabs: [],
     activeTabId: null,
     isConnecting: false,
@@ -38,7 +150,6 @@ export const App: React.FC = () => {
     loadingTableSchemas: new Set(),
     tableSchemaCache: {},
     loadingSchemaDetails: new Set(),
-    queryLogs: [],
     showQueryHistory: false,
   });
 
@@ -46,6 +157,16 @@ export const App: React.FC = () => {
     useState<DatabaseConnection | null>(null);
   const [showAISettings, setShowAISettings] = useState(false);
   const [showTextToSQL, setShowTextToSQL] = useState(false);
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [sidebarWidth, setSidebarWidth] = useState(DEFAULT_SIDEBAR_WIDTH);
+  // Bumped after each query reaches the history, so that an open history
+  // panel searches again
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const notifications = useNotifications();
+
+  // The workspace as last saved; null until it was restored, so that the
+  // empty startup state never overwrites it
+  const savedWorkspaceRef = useRef<string | null>(null);
 
   const [connectionErrors, setConnectionErrors] = useState<
     Record<string, string>
@@ -54,92 +175,129 @@ export const App: React.FC = () => {
     Set<string>
   >(new Set());
 
-  // Load connections on startup
+  // Load connections and the tabs of the last session on startup
   useEffect(() => {
-    const savedConnections = JSON.parse(
-      localStorage.getItem("messql_connections") || "[]",
-    );
-
-    // Migration: Update connections that use old-style IDs to use UUIDs
-    const migrateConnections = async () => {
-      const migratedConnections: DatabaseConnection[] = [];
-      let needsMigration = false;
-
-      for (const conn of savedConnections) {
-        // Check if connection uses old-style ID format (contains colons)
-        if (conn.id.includes(":")) {
-          const newId = uuidv4();
-          const oldId = conn.id;
-
-          console.log(
-            `Migrating connection "${conn.name}" from ID "${oldId}" to "${newId}"`,
-          );
-
-          // Migrate keychain password from old ID to new ID
-          try {
-            const password = await window.electronAPI.keychain.get(
-              "postgres",
-              oldId,
-            );
-            if (password) {
-              await window.electronAPI.keychain.set(
-                "postgres",
-                newId,
-                password,
-              );
-              await window.electronAPI.keychain.delete("postgres", oldId);
-              console.log(`Migrated password for connection "${conn.name}"`);
-            }
-          } catch (error) {
-            console.warn(
-              `Failed to migrate password for connection "${conn.name}":`,
-              error,
-            );
-            // Continue with migration even if password migration fails
-          }
-
-          migratedConnections.push({ ...conn, id: newId });
-          needsMigration = true;
-        } else {
-          migratedConnections.push(conn);
+    const loadConnections = async () => {
+      // Older versions kept these in localStorage; the config store migrates
+      // whichever of them were saved the first time it sees them
+      const legacy: Partial<ConfigValues> = {};
+      try {
+        const legacyConnections = localStorage.getItem("messql_connections");
+        if (legacyConnections) {
+          legacy.connections = JSON.parse(legacyConnections);
+        }
+        const legacyProvider = localStorage.getItem("ai-selected-provider");
+        if (legacyProvider) {
+          legacy.aiProvider = legacyProvider;
+        }
+        const legacyDisplaySettings = localStorage.getItem(
+          "messql_display_settings",
+        );
+        if (legacyDisplaySettings) {
+          legacy.displaySettings = {
+            ...DEFAULT_DISPLAY_SETTINGS,
+            ...JSON.parse(legacyDisplaySettings),
+          };
         }
+        if (Object.keys(legacy).length > 0) {
+          await window.electronAPI.config.importLegacy(legacy);
+          localStorage.removeItem("messql_connections");
+          localStorage.removeItem("ai-selected-provider");
+          localStorage.removeItem("messql_display_settings");
+        }
+      } catch (error) {
+        console.error("Failed to import saved settings:", error);
       }
 
-      // Save migrated connections back to localStorage if any were updated
-      if (needsMigration) {
-        localStorage.setItem(
-          "messql_connections",
-          JSON.stringify(migratedConnections),
+      try {
+        applyDisplaySettings(
+          await window.electronAPI.config.get("displaySettings"),
+        );
+        const connections = await window.electronAPI.config.get("connections");
+        const workspace = await window.electronAPI.config.get("workspace");
+        const restored = restoreTabs(workspace, connections);
+        savedWorkspaceRef.current = JSON.stringify(
+          toWorkspace(
+            restored.queryTabs,
+            restored.activeTabId,
+            workspace.sidebarWidth ?? DEFAULT_SIDEBAR_WIDTH,
+          ),
+        );
+        setSidebarWidth(workspace.sidebarWidth ?? DEFAULT_SIDEBAR_WIDTH);
+        setState((prev) => ({ ...prev, connections, ...restored }));
+      } catch (error) {
+        alert(
+          `Loading saved connections failed: ${extractErrorMessage(error)}`,
         );
-        console.log("Connection migration completed");
+      } finally {
+        if (savedWorkspaceRef.current === null) {
+          savedWorkspaceRef.current = "";
+        }
       }
-
-      setState((prev) => ({
-        ...prev,
-        connections: migratedConnections,
-      }));
     };
 
-    migrateConnections();
+    loadConnections();
 
-    // Set up callback for checking open tabs
-    window.electronAPI.setHasOpenTabsCallback(() => {
-      return state.queryTabs.length > 0;
+    // Another window added, edited or removed a connection
+    window.electronAPI.config.onChange((change) => {
+      if (change.key === "connections") {
+        setState((prev) => ({ ...prev, connections: change.value }));
+      } else if (change.key === "displaySettings") {
+        applyDisplaySettings(change.value);
+      }
     });
+
+    return () => {
+      window.electronAPI.config.removeChangeListener();
+    };
   }, []);
 
-  // Update the callback when queryTabs changes
+  // Tabs and layout are saved shortly after they change, and once more when
+  // the window closes. Only open transactions are lost on close.
   useEffect(() => {
-    window.electronAPI.setHasOpenTabsCallback(() => {
-      return state.queryTabs.length > 0;
+    if (savedWorkspaceRef.current === null) return;
+
+    const workspace = toWorkspace(
+      state.queryTabs,
+      state.activeTabId,
+      sidebarWidth,
+    );
+    const save = async () => {
+      const json = JSON.stringify(workspace);
+      if (json === savedWorkspaceRef.current) return;
+      savedWorkspaceRef.current = json;
+      try {
+        await window.electronAPI.config.set("workspace", workspace);
+      } catch (error) {
+        console.error("Failed to save open tabs:", error);
+      }
+    };
+
+    const timer = setTimeout(save, 500);
+    window.electronAPI.setBeforeCloseCallback(async () => {
+      clearTimeout(timer);
+      await save();
+      return state.queryTabs.some(hasOpenTransaction);
     });
-  }, [state.queryTabs.length]);
+    return () => clearTimeout(timer);
+  }, [state.queryTabs, state.activeTabId, sidebarWidth]);
 
   const {
     connect,
     disconnect,
     query,
+    explain,
     cancelQuery,
+    fetchRows,
+    countRows,
+    closeCursor,
+    getTransactionStatus,
+    commit,
+    rollback,
+    savepoint,
+    rollbackToSavepoint,
+    releaseSavepoint,
+    closeSession,
     getSchemas,
     getTableSchema,
     getSchemaTableSchemas,
@@ -147,6 +305,9 @@ export const App: React.FC = () => {
 
   const [connectionError, setConnectionError] = useState<string | null>(null);
 
+  // Statements with a page fetch in flight, keyed by tab and statement index
+  const fetchingRowsRef = useRef<Set<string>>(new Set());
+
   // Load default schema table schemas in background for immediate autocomplete
   const loadDefaultSchemaTableSchemas = useCallback(
     async (connectionId: string, schemas: SchemaInfo[]) => {
@@ -154,13 +315,14 @@ export const App: React.FC = () => {
       const defaultSchema =
         schemas.find((s) => s.name === "public") || schemas[0];
       if (!defaultSchema || defaultSchema.tables.length === 0) return;
+      const loadingKey = `${connectionId}:${defaultSchema.name}`;
 
       // Mark schema as loading
       setState((prev) => ({
         ...prev,
         loadingSchemaDetails: new Set([
           ...prev.loadingSchemaDetails,
-          defaultSchema.name,
+          loadingKey,
         ]),
       }));
 
@@ -173,8 +335,8 @@ export const App: React.FC = () => {
 
         // Update cache and schema state
         setState((prev) => {
-          const newCache = { ...prev.tableSchemaCache };
-          const updatedSchemas = prev.schemas.map((s) => {
+          const newCache = { ...prev.tableSchemaCache[connectionId] };
+          const updatedSchemas = (prev.schemas[connectionId] || []).map((s) => {
             if (s.name !== defaultSchema.name) return s;
 
             // Replace the tables with the fully loaded table schemas
@@ -189,12 +351,13 @@ export const App: React.FC = () => {
 
           return {
             ...prev,
-            schemas: updatedSchemas,
-            tableSchemaCache: newCache,
+            schemas: { ...prev.schemas, [connectionId]: updatedSchemas },
+            tableSchemaCache: {
+              ...prev.tableSchemaCache,
+              [connectionId]: newCache,
+            },
             loadingSchemaDetails: new Set(
-              [...prev.loadingSchemaDetails].filter(
-                (s) => s !== defaultSchema.name,
-              ),
+              [...prev.loadingSchemaDetails].filter((s) => s !== loadingKey),
             ),
           };
         });
@@ -203,9 +366,7 @@ export const App: React.FC = () => {
         setState((prev) => ({
           ...prev,
           loadingSchemaDetails: new Set(
-            [...prev.loadingSchemaDetails].filter(
-              (s) => s !== defaultSchema.name,
-            ),
+            [...prev.loadingSchemaDetails].filter((s) => s !== loadingKey),
           ),
         }));
       }
@@ -234,19 +395,14 @@ export const App: React.FC = () => {
         ...prev,
         connections: updatedConnections,
         activeConnectionId: connection.id,
-        schemas,
+        openConnectionIds: [...prev.openConnectionIds, connection.id],
+        schemas: { ...prev.schemas, [connection.id]: schemas },
+        tableSchemaCache: { ...prev.tableSchemaCache, [connection.id]: {} },
         isConnecting: false,
         showConnectionForm: false,
-        tableSchemaCache: {}, // Clear cache when adding new connection
-        loadingTableSchemas: new Set(), // Clear loading state
-        loadingSchemaDetails: new Set(), // Clear schema loading state
       }));
 
-      // Save to localStorage
-      localStorage.setItem(
-        "messql_connections",
-        JSON.stringify(updatedConnections),
-      );
+      saveConnections(updatedConnections);
 
       // Load default schema table schemas in background
       loadDefaultSchemaTableSchemas(connection.id, schemas);
@@ -254,46 +410,136 @@ export const App: React.FC = () => {
     [connect, getSchemas, state.connections, loadDefaultSchemaTableSchemas],
   );
 
+  // Connects unless the connection is open already, and selects it in the
+  // sidebar. Resolves to its schemas, or null when connecting failed.
+  const openConnection = useCallback(
+    async (id: string): Promise<SchemaInfo[] | null> => {
+      if (state.openConnectionIds.includes(id)) {
+        setState((prev) => ({ ...prev, activeConnectionId: id }));
+        return state.schemas[id] || [];
+      }
+
+      const connection = state.connections.find((c) => c.id === id);
+      if (!connection) return null;
+
+      try {
+        setConnectionErrors((prev) => ({ ...prev, [id]: "" }));
+        setConnectingConnectionIds((prev) => new Set([...prev, id]));
+
+        const { error } = await connect(connection);
+        if (error) {
+          throw new Error(error);
+        }
+        const schemas = await getSchemas(id);
+        setState((prev) => ({
+          ...prev,
+          activeConnectionId: id,
+          openConnectionIds: prev.openConnectionIds.includes(id)
+            ? prev.openConnectionIds
+            : [...prev.openConnectionIds, id],
+          schemas: { ...prev.schemas, [id]: schemas },
+          tableSchemaCache: { ...prev.tableSchemaCache, [id]: {} },
+        }));
+
+        // Load default schema table schemas in background
+        loadDefaultSchemaTableSchemas(id, schemas);
+        return schemas;
+      } catch (error) {
+        const errorMessage = extractErrorMessage(error);
+        setConnectionErrors((prev) => ({ ...prev, [id]: errorMessage }));
+        return null;
+      } finally {
+        setConnectingConnectionIds((prev) => {
+          const newSet = new Set(prev);
+          newSet.delete(id);
+          return newSet;
+        });
+      }
+    },
+    [
+      state.connections,
+      state.openConnectionIds,
+      state.schemas,
+      connect,
+      getSchemas,
+      loadDefaultSchemaTableSchemas,
+    ],
+  );
+
+  // Disconnects but keeps the connection's tabs, which reconnect when run
+  const closeConnection = useCallback(
+    async (connectionId: string) => {
+      if (
+        state.queryTabs.some(
+          (tab) => tab.connectionId === connectionId && hasOpenTransaction(tab),
+        ) &&
+        !confirm(
+          "Some tabs on this connection have open transactions. Disconnecting will roll them back. Continue?",
+        )
+      ) {
+        return;
+      }
+
+      await disconnect(connectionId);
+      setState((prev) => withConnectionClosed(prev, connectionId));
+    },
+    [disconnect, state.queryTabs],
+  );
+
   const removeConnection = useCallback(
     async (connectionId: string) => {
+      const boundTabs = state.queryTabs.filter(
+        (tab) => tab.connectionId === connectionId,
+      );
+      if (
+        boundTabs.length > 0 &&
+        !confirm(
+          `${boundTabs.length} tab${boundTabs.length === 1 ? " uses" : "s use"} this connection and will be closed${boundTabs.some(hasOpenTransaction) ? ", rolling back open transactions" : ""}. Continue?`,
+        )
+      ) {
+        return;
+      }
+
       await disconnect(connectionId);
       const updatedConnections = state.connections.filter(
         (c) => c.id !== connectionId,
       );
 
-      setState((prev) => ({
-        ...prev,
-        connections: updatedConnections,
-        activeConnectionId:
-          prev.activeConnectionId === connectionId
-            ? null
-            : prev.activeConnectionId,
-        schemas: prev.activeConnectionId === connectionId ? [] : prev.schemas,
-      }));
+      setState((prev) => {
+        const queryTabs = prev.queryTabs.filter(
+          (tab) => tab.connectionId !== connectionId,
+        );
+        return {
+          ...withConnectionClosed(prev, connectionId),
+          connections: updatedConnections,
+          activeConnectionId:
+            prev.activeConnectionId === connectionId
+              ? null
+              : prev.activeConnectionId,
+          queryTabs,
+          activeTabId: queryTabs.some((tab) => tab.id === prev.activeTabId)
+            ? prev.activeTabId
+            : queryTabs[0]?.id || null,
+        };
+      });
 
-      // Save to localStorage and remove from keychain
-      localStorage.setItem(
-        "messql_connections",
-        JSON.stringify(updatedConnections),
-      );
+      saveConnections(updatedConnections);
       // Connection removed from array above
     },
-    [disconnect, state.connections],
+    [disconnect, state.connections, state.queryTabs],
   );
 
   const addQueryTab = useCallback(() => {
-    // Default to 'public' schema for PostgreSQL
-    const defaultSchema =
-      state.schemas.find((s) => s.name === "public")?.name ||
-      state.schemas[0]?.name ||
-      "public";
+    const connectionId = state.activeConnectionId;
+    if (!connectionId) return;
 
     const newTab: QueryTab = {
       id: Date.now().toString(),
       title: "New Query",
       query: "",
+      connectionId,
       isExecuting: false,
-      selectedSchema: defaultSchema,
+      selectedSchema: getDefaultSchema(state.schemas[connectionId]),
     };
 
     setState((prev) => ({
@@ -301,24 +547,79 @@ export const App: React.FC = () => {
       queryTabs: [...prev.queryTabs, newTab],
       activeTabId: newTab.id,
     }));
-  }, [state.schemas]);
-
-  const removeQueryTab = useCallback((tabId: string) => {
-    setState((prev) => {
-      const updatedTabs = prev.queryTabs.filter((t) => t.id !== tabId);
-      const newActiveTabId =
-        prev.activeTabId === tabId
-          ? updatedTabs.length > 0
-            ? updatedTabs[0].id
-            : null
-          : prev.activeTabId;
-
-      return {
-        ...prev,
-        queryTabs: updatedTabs,
-        activeTabId: newActiveTabId,
-      };
-    });
+  }, [state.activeConnectionId, state.schemas]);
+
+  // Cursors of a result that is being replaced or closed hold server resources
+  const closeResultCursors = useCallback(
+    async (result?: QueryResult) => {
+      await Promise.all(
+        getOpenCursorIds(result).map((cursorId) =>
+          closeCursor(cursorId).catch((error) =>
+            console.error("Error closing result cursor:", error),
+          ),
+        ),
+      );
+    },
+    [closeCursor],
+  );
+
+  const removeQueryTab = useCallback(
+    async (tabId: string) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (
+        tab &&
+        hasOpenTransaction(tab) &&
+        !confirm(
+          `"${tab.title}" has an open transaction. Closing the tab will roll it back. Continue?`,
+        )
+      ) {
+        return;
+      }
+
+      // Nobody would see the result, so don't leave the server working on it
+      if (tab?.activeQueryId) {
+        try {
+          await cancelQuery(tab.activeQueryId);
+        } catch (error) {
+          console.error("Error cancelling tab query:", error);
+        }
+      }
+
+      await closeResultCursors(tab?.result);
+
+      if (tab?.transactionMode === "manual") {
+        try {
+          await closeSession(tabId);
+        } catch (error) {
+          console.error("Error closing tab session:", error);
+        }
+      }
+
+      setState((prev) => {
+        const updatedTabs = prev.queryTabs.filter((t) => t.id !== tabId);
+        const newActiveTabId =
+          prev.activeTabId === tabId
+            ? updatedTabs.length > 0
+              ? updatedTabs[0].id
+              : null
+            : prev.activeTabId;
+
+        return {
+          ...prev,
+          queryTabs: updatedTabs,
+          activeTabId: newActiveTabId,
+        };
+      });
+    },
+    [state.queryTabs, cancelQuery, closeSession, closeResultCursors],
+  );
+
+  // The history lives on disk in the main process
+  const logQuery = useCallback((entry: QueryLogEntry) => {
+    window.electronAPI.history.add(entry).then(
+      () => setHistoryVersion((version) => version + 1),
+      (error) => console.error("Failed to save query history:", error),
+    );
   }, []);
 
   const updateQueryTab = useCallback(
@@ -333,15 +634,67 @@ export const App: React.FC = () => {
     [],
   );
 
+  // The main process drops pinned sessions when their connection is lost
+  const handleSessionLost = useCallback(
+    (sessionId: string, message: string) => {
+      updateQueryTab(sessionId, {
+        transactionStatus: "idle",
+        savepoints: [],
+        error: {
+          message: `Session lost: ${message}. Its open transaction was rolled back, and temporary tables and session settings are gone.`,
+        },
+      });
+    },
+    [updateQueryTab],
+  );
+
+  const connectionHealth = useConnectionHealth(handleSessionLost);
+
+  // A tab whose connection was closed reconnects when it next runs
+  const ensureConnectionOpen = useCallback(
+    async (tabId: string, connectionId: string): Promise<boolean> => {
+      if (state.openConnectionIds.includes(connectionId)) return true;
+      if (await openConnection(connectionId)) return true;
+
+      const connection = state.connections.find((c) => c.id === connectionId);
+      updateQueryTab(tabId, {
+        error: {
+          message: `Could not connect to "${connection?.name || "the tab's connection"}". The sidebar shows why.`,
+        },
+      });
+      return false;
+    },
+    [
+      state.openConnectionIds,
+      state.connections,
+      openConnection,
+      updateQueryTab,
+    ],
+  );
+
   const executeQuery = useCallback(
-    async (tabId: string, sql: string, params: any[] = []) => {
-      if (!state.activeConnectionId) return;
+    async (tabId: string, sql: string, editorOffset = 0) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (!tab) return;
+      const connectionId = tab.connectionId;
+
+      // Placeholders are filled in from the tab's parameter panel
+      let bound: ReturnType<typeof bindParameters>;
+      try {
+        bound = bindParameters(sql, tab.parameters || {});
+      } catch (error) {
+        updateQueryTab(tabId, { error: extractQueryError(error) });
+        return;
+      }
+      const parameters =
+        Object.keys(bound.used).length > 0 ? bound.used : undefined;
+
+      const connection = state.connections.find((c) => c.id === connectionId);
+      if (connection && !confirmProductionRun(connection, sql)) return;
+      if (!(await ensureConnectionOpen(tabId, connectionId))) return;
 
       const queryId = `${tabId}-${Date.now()}`;
       const startTime = Date.now();
-      const connection = state.connections.find(
-        (c) => c.id === state.activeConnectionId,
-      );
 
       updateQueryTab(tabId, {
         isExecuting: true,
@@ -349,114 +702,471 @@ export const App: React.FC = () => {
         activeQueryId: queryId,
       });
 
+      // Manual commit mode runs on a session pinned to the tab
+      const sessionId = tab.transactionMode === "manual" ? tabId : undefined;
+
       try {
-        const tab = state.queryTabs.find((t) => t.id === tabId);
-        const schema = tab?.selectedSchema;
+        const schema = tab.selectedSchema;
+
+        await closeResultCursors(tab.result);
 
         const result = await query(
-          state.activeConnectionId,
-          sql,
-          params,
+          connectionId,
+          bound.sql,
+          bound.params,
           schema,
           queryId,
+          { sessionId, fetchSize: RESULT_PAGE_SIZE, timeouts: tab.timeouts },
         );
         const duration = Date.now() - startTime;
 
         // Log successful query
         const logEntry: QueryLogEntry = {
           id: queryId,
-          connectionId: state.activeConnectionId,
+          connectionId,
           connectionName: connection?.name || "Unknown",
           query: sql,
           schema,
+          parameters,
           timestamp: new Date(),
           duration,
           rowCount: result.rowCount,
           success: true,
         };
 
-        setState((prev) => ({
-          ...prev,
-          queryLogs: [logEntry, ...prev.queryLogs].slice(0, 1000), // Keep last 1000 queries
-        }));
+        logQuery(logEntry);
 
         updateQueryTab(tabId, {
           result,
+          runCount: (tab.runCount ?? 0) + 1,
+          explain: undefined,
           isExecuting: false,
           error: undefined,
           activeQueryId: undefined,
+          lastRun: {
+            ranAt: new Date(startTime).toISOString(),
+            duration,
+            rowCount: result.rowCount,
+          },
           title: await generateSmartTabName(sql),
+          ...(sessionId && { transactionStatus: result.transactionStatus }),
         });
       } catch (error) {
         const duration = Date.now() - startTime;
-        const errorMessage = extractErrorMessage(error);
+        const queryError = locateQueryError(
+          extractQueryError(error),
+          bound.toSourceOffset,
+          editorOffset,
+        );
 
         // Log failed query
         const logEntry: QueryLogEntry = {
           id: queryId,
-          connectionId: state.activeConnectionId,
+          connectionId,
           connectionName: connection?.name || "Unknown",
           query: sql,
-          schema: state.queryTabs.find((t) => t.id === tabId)?.selectedSchema,
+          schema: tab.selectedSchema,
+          parameters,
           timestamp: new Date(),
           duration,
-          error: errorMessage,
+          error: queryError.message,
           success: false,
         };
 
-        setState((prev) => ({
-          ...prev,
-          queryLogs: [logEntry, ...prev.queryLogs].slice(0, 1000), // Keep last 1000 queries
-        }));
+        logQuery(logEntry);
 
         updateQueryTab(tabId, {
           isExecuting: false,
           result: undefined,
-          error: errorMessage,
+          explain: undefined,
+          error: queryError,
           activeQueryId: undefined,
+          lastRun: {
+            ranAt: new Date(startTime).toISOString(),
+            duration,
+            error: queryError.message,
+          },
         });
+
+        // A failed statement leaves the pinned transaction aborted
+        if (sessionId) {
+          try {
+            const transactionStatus = await getTransactionStatus(sessionId);
+            updateQueryTab(tabId, { transactionStatus });
+          } catch (statusError) {
+            console.error("Error fetching transaction status:", statusError);
+          }
+        }
       }
     },
     [
-      state.activeConnectionId,
       state.connections,
       state.queryTabs,
+      ensureConnectionOpen,
       query,
+      getTransactionStatus,
       updateQueryTab,
+      closeResultCursors,
+      logQuery,
     ],
   );
 
+  const executeExplain = useCallback(
+    async (tabId: string, sql: string, analyze: boolean, editorOffset = 0) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (!tab) return;
+      const connectionId = tab.connectionId;
+
+      let bound: ReturnType<typeof bindParameters>;
+      try {
+        bound = bindParameters(sql, tab.parameters || {});
+      } catch (error) {
+        updateQueryTab(tabId, { error: extractQueryError(error) });
+        return;
+      }
+
+      // ANALYZE runs the statement, so it asks like a run would
+      const explainSql = `EXPLAIN ${analyze ? "ANALYZE " : ""}${sql}`;
+      const connection = state.connections.find((c) => c.id === connectionId);
+      if (connection && !confirmProductionRun(connection, explainSql)) return;
+      if (!(await ensureConnectionOpen(tabId, connectionId))) return;
+
+      const queryId = `${tabId}-${Date.now()}`;
+      const sessionId = tab.transactionMode === "manual" ? tabId : undefined;
+
+      updateQueryTab(tabId, {
+        isExecuting: true,
+        error: undefined,
+        activeQueryId: queryId,
+      });
+
+      const logEntry: QueryLogEntry = {
+        id: queryId,
+        connectionId,
+        connectionName: connection?.name || "Unknown",
+        query: explainSql,
+        schema: tab.selectedSchema,
+        parameters: Object.keys(bound.used).length > 0 ? bound.used : undefined,
+        timestamp: new Date(),
+        success: true,
+      };
+
+      try {
+        await closeResultCursors(tab.result);
+
+        const explainResult = await explain(
+          connectionId,
+          bound.sql,
+          bound.params,
+          tab.selectedSchema,
+          queryId,
+          { analyze, sessionId, timeouts: tab.timeouts },
+        );
+
+        logEntry.duration = explainResult.duration;
+        updateQueryTab(tabId, {
+          explain: explainResult,
+          result: undefined,
+          isExecuting: false,
+          activeQueryId: undefined,
+        });
+      } catch (error) {
+        const queryError = locateQueryError(
+          extractQueryError(error),
+          bound.toSourceOffset,
+          editorOffset,
+        );
+        logEntry.success = false;
+        logEntry.error = queryError.message;
+        updateQueryTab(tabId, {
+          explain: undefined,
+          result: undefined,
+          isExecuting: false,
+          error: queryError,
+          activeQueryId: undefined,
+        });
+      }
+
+      logQuery(logEntry);
+    },
+    [
+      state.connections,
+      state.queryTabs,
+      ensureConnectionOpen,
+      explain,
+      updateQueryTab,
+      closeResultCursors,
+      logQuery,
+    ],
+  );
+
+  // Replaces one statement's result, keeping the top-level rows in step with the last one
+  const updateStatementResult = useCallback(
+    (
+      tabId: string,
+      statementIndex: number,
+      update: (statement: StatementResult) => StatementResult,
+    ) => {
+      setState((prev) => ({
+        ...prev,
+        queryTabs: prev.queryTabs.map((tab) => {
+          if (tab.id !== tabId || !tab.result?.results[statementIndex]) {
+            return tab;
+          }
+
+          const results = [...tab.result.results];
+          results[statementIndex] = update(results[statementIndex]);
+          const last = results[results.length - 1];
+          return {
+            ...tab,
+            result: {
+              ...tab.result,
+              results,
+              rows: last.rows,
+              rowCount: last.rowCount,
+            },
+          };
+        }),
+      }));
+    },
+    [],
+  );
+
+  const handleFetchRows = useCallback(
+    async (tabId: string, statementIndex: number, all: boolean) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      const statement = tab?.result?.results[statementIndex];
+      const fetchKey = `${tabId}:${statementIndex}`;
+      if (
+        !statement?.cursorId ||
+        !statement.hasMore ||
+        fetchingRowsRef.current.has(fetchKey)
+      ) {
+        return;
+      }
+
+      fetchingRowsRef.current.add(fetchKey);
+      try {
+        const page = await fetchRows(
+          statement.cursorId,
+          all ? undefined : RESULT_PAGE_SIZE,
+        );
+        updateStatementResult(tabId, statementIndex, (current) => {
+          // A new run may have replaced the result while the page was loading
+          if (current.cursorId !== statement.cursorId) return current;
+
+          const rows = [...current.rows, ...page.rows];
+          return {
+            ...current,
+            rows,
+            rowCount: rows.length,
+            hasMore: page.hasMore,
+            cursorId: page.hasMore ? current.cursorId : undefined,
+          };
+        });
+      } catch (error) {
+        updateStatementResult(tabId, statementIndex, (current) =>
+          current.cursorId === statement.cursorId
+            ? { ...current, hasMore: false, cursorId: undefined }
+            : current,
+        );
+        updateQueryTab(tabId, { error: extractQueryError(error) });
+      } finally {
+        fetchingRowsRef.current.delete(fetchKey);
+      }
+    },
+    [state.queryTabs, fetchRows, updateStatementResult, updateQueryTab],
+  );
+
+  const handleCountRows = useCallback(
+    async (tabId: string, statementIndex: number) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      const cursorId = tab?.result?.results[statementIndex]?.cursorId;
+      if (!cursorId) return;
+
+      try {
+        const totalRowCount = await countRows(cursorId);
+        updateStatementResult(tabId, statementIndex, (current) =>
+          current.cursorId === cursorId
+            ? { ...current, totalRowCount }
+            : current,
+        );
+      } catch (error) {
+        updateQueryTab(tabId, { error: extractQueryError(error) });
+      }
+    },
+    [state.queryTabs, countRows, updateStatementResult, updateQueryTab],
+  );
+
   const handleCancelQuery = useCallback(
     async (tabId: string) => {
       const tab = state.queryTabs.find((t) => t.id === tabId);
-      if (tab?.activeQueryId) {
-        try {
-          await cancelQuery(tab.activeQueryId);
-          updateQueryTab(tabId, {
-            isExecuting: false,
-            activeQueryId: undefined,
-            error: "Query cancelled by user",
-          });
-        } catch (error) {
-          console.error("Error cancelling query:", error);
+      if (!tab?.activeQueryId || tab.isCancelling) return;
+
+      updateQueryTab(tabId, { isCancelling: true });
+      try {
+        // Resolves once the server has actually stopped the query
+        const outcome = await cancelQuery(tab.activeQueryId);
+        if (outcome === "notRunning") {
+          updateQueryTab(tabId, { isCancelling: false });
+          return;
         }
+
+        updateQueryTab(tabId, {
+          isExecuting: false,
+          isCancelling: false,
+          activeQueryId: undefined,
+          error: {
+            message:
+              outcome === "terminated"
+                ? "Query cancelled by user. The server ignored the cancel request, so its connection was closed."
+                : "Query cancelled by user",
+          },
+          // Closing the connection ended the pinned transaction
+          ...(outcome === "terminated" &&
+            tab.transactionMode === "manual" && {
+              transactionStatus: "idle",
+              savepoints: [],
+            }),
+        });
+      } catch (error) {
+        updateQueryTab(tabId, {
+          isCancelling: false,
+          error: extractQueryError(error),
+        });
       }
     },
     [state.queryTabs, cancelQuery, updateQueryTab],
   );
 
+  const handleTransactionModeChange = useCallback(
+    async (tabId: string, mode: TransactionMode) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (!tab || (tab.transactionMode || "auto") === mode) return;
+
+      if (
+        hasOpenTransaction(tab) &&
+        !confirm(
+          "Switching to auto-commit will roll back the open transaction. Continue?",
+        )
+      ) {
+        return;
+      }
+
+      try {
+        await closeSession(tabId);
+      } catch (error) {
+        console.error("Error closing tab session:", error);
+      }
+
+      await closeResultCursors(tab.result);
+
+      updateQueryTab(tabId, {
+        transactionMode: mode,
+        transactionStatus: "idle",
+        savepoints: [],
+        result: withoutCursors(tab.result),
+      });
+    },
+    [state.queryTabs, closeSession, closeResultCursors, updateQueryTab],
+  );
+
+  const handleTransactionAction = useCallback(
+    async (tabId: string, action: TransactionAction, name?: string) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (!tab) return;
+
+      const savepoints = tab.savepoints || [];
+
+      try {
+        switch (action) {
+          case "commit": {
+            const transactionStatus = await commit(tabId);
+            updateQueryTab(tabId, {
+              transactionStatus,
+              savepoints: [],
+              result: withoutCursors(tab.result),
+            });
+            break;
+          }
+          case "rollback": {
+            const transactionStatus = await rollback(tabId);
+            updateQueryTab(tabId, {
+              transactionStatus,
+              savepoints: [],
+              result: withoutCursors(tab.result),
+            });
+            break;
+          }
+          case "savepoint": {
+            // Savepoints only ever shrink from the end, so the count keeps names unique
+            const savepointName = `sp_${savepoints.length + 1}`;
+            const transactionStatus = await savepoint(tabId, savepointName);
+            updateQueryTab(tabId, {
+              transactionStatus,
+              savepoints: [...savepoints, savepointName],
+            });
+            break;
+          }
+          case "rollbackToSavepoint": {
+            if (!name) return;
+            const transactionStatus = await rollbackToSavepoint(tabId, name);
+            // Rolling back keeps the savepoint but destroys the ones after it
+            updateQueryTab(tabId, {
+              transactionStatus,
+              savepoints: savepoints.slice(0, savepoints.indexOf(name) + 1),
+              result: withoutCursors(tab.result),
+            });
+            break;
+          }
+          case "releaseSavepoint": {
+            if (!name) return;
+            const transactionStatus = await releaseSavepoint(tabId, name);
+            updateQueryTab(tabId, {
+              transactionStatus,
+              savepoints: savepoints.slice(0, savepoints.indexOf(name)),
+            });
+            break;
+          }
+        }
+        updateQueryTab(tabId, { error: undefined });
+      } catch (error) {
+        const queryError = extractQueryError(error);
+        let transactionStatus = tab.transactionStatus;
+        try {
+          transactionStatus = await getTransactionStatus(tabId);
+        } catch (statusError) {
+          console.error("Error fetching transaction status:", statusError);
+        }
+        updateQueryTab(tabId, { error: queryError, transactionStatus });
+      }
+    },
+    [
+      state.queryTabs,
+      commit,
+      rollback,
+      savepoint,
+      rollbackToSavepoint,
+      releaseSavepoint,
+      getTransactionStatus,
+      updateQueryTab,
+    ],
+  );
+
   const loadSchemaDetails = useCallback(
     async (connectionId: string, schemaName: string) => {
+      const loadingKey = `${connectionId}:${schemaName}`;
+      const cache = state.tableSchemaCache[connectionId] || {};
       setState((prev) => ({
         ...prev,
         loadingSchemaDetails: new Set([
           ...prev.loadingSchemaDetails,
-          schemaName,
+          loadingKey,
         ]),
       }));
 
       try {
-        const selectedSchemaInfo = state.schemas.find(
+        const selectedSchemaInfo = state.schemas[connectionId]?.find(
           (s) => s.name === schemaName,
         );
         if (!selectedSchemaInfo) return;
@@ -464,11 +1174,8 @@ export const App: React.FC = () => {
         const tableSchemaPromises = selectedSchemaInfo.tables.map(
           async (table) => {
             const tableKey = `${schemaName}.${table.name}`;
-            if (state.tableSchemaCache[tableKey]) {
-              return {
-                key: tableKey,
-                schema: state.tableSchemaCache[tableKey],
-              };
+            if (cache[tableKey]) {
+              return { key: tableKey, schema: cache[tableKey] };
             }
             try {
               const tableSchema = await getTableSchema(
@@ -492,8 +1199,8 @@ export const App: React.FC = () => {
         const results = await Promise.all(tableSchemaPromises);
 
         setState((prev) => {
-          const newCache = { ...prev.tableSchemaCache };
-          const updatedSchemas = prev.schemas.map((s) => {
+          const newCache = { ...prev.tableSchemaCache[connectionId] };
+          const updatedSchemas = (prev.schemas[connectionId] || []).map((s) => {
             if (s.name !== schemaName) return s;
 
             const updatedTables = s.tables.map((table) => {
@@ -514,10 +1221,13 @@ export const App: React.FC = () => {
 
           return {
             ...prev,
-            schemas: updatedSchemas,
-            tableSchemaCache: newCache,
+            schemas: { ...prev.schemas, [connectionId]: updatedSchemas },
+            tableSchemaCache: {
+              ...prev.tableSchemaCache,
+              [connectionId]: newCache,
+            },
             loadingSchemaDetails: new Set(
-              [...prev.loadingSchemaDetails].filter((s) => s !== schemaName),
+              [...prev.loadingSchemaDetails].filter((s) => s !== loadingKey),
             ),
           };
         });
@@ -526,7 +1236,7 @@ export const App: React.FC = () => {
         setState((prev) => ({
           ...prev,
           loadingSchemaDetails: new Set(
-            [...prev.loadingSchemaDetails].filter((s) => s !== schemaName),
+            [...prev.loadingSchemaDetails].filter((s) => s !== loadingKey),
           ),
         }));
       }
@@ -537,12 +1247,59 @@ export const App: React.FC = () => {
   // Handle schema change for tabs
   const handleSchemaChange = useCallback(
     (tabId: string, schema: string) => {
-      if (!state.activeConnectionId) return;
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (!tab) return;
 
       updateQueryTab(tabId, { selectedSchema: schema });
-      loadSchemaDetails(state.activeConnectionId, schema);
+      loadSchemaDetails(tab.connectionId, schema);
+    },
+    [state.queryTabs, updateQueryTab, loadSchemaDetails],
+  );
+
+  // Moves a tab to another connection. Its session and result cursors belong
+  // to the old server, so both are closed first.
+  const changeTabConnection = useCallback(
+    async (tabId: string, connectionId: string) => {
+      const tab = state.queryTabs.find((t) => t.id === tabId);
+      if (!tab || tab.connectionId === connectionId) return;
+      if (
+        hasOpenTransaction(tab) &&
+        !confirm(
+          `"${tab.title}" has an open transaction. Switching connections will roll it back. Continue?`,
+        )
+      ) {
+        return;
+      }
+
+      const schemas = await openConnection(connectionId);
+      if (!schemas) return;
+
+      if (tab.transactionMode === "manual") {
+        try {
+          await closeSession(tabId);
+        } catch (error) {
+          console.error("Error closing tab session:", error);
+        }
+      }
+      await closeResultCursors(tab.result);
+
+      updateQueryTab(tabId, {
+        connectionId,
+        transactionStatus: "idle",
+        savepoints: [],
+        result: withoutCursors(tab.result),
+        selectedSchema: schemas.some((s) => s.name === tab.selectedSchema)
+          ? tab.selectedSchema
+          : getDefaultSchema(schemas),
+      });
     },
-    [state.activeConnectionId, updateQueryTab, loadSchemaDetails],
+    [
+      state.queryTabs,
+      openConnection,
+      closeSession,
+      closeResultCursors,
+      updateQueryTab,
+    ],
   );
 
   const saveConnection = useCallback(
@@ -560,18 +1317,22 @@ export const App: React.FC = () => {
       }));
 
       setEditingConnection(null);
-      localStorage.setItem(
-        "messql_connections",
-        JSON.stringify(updatedConnections),
-      );
-
-      // If we're editing the currently active connection, reconnect with new settings
-      if (editingConnection && state.activeConnectionId === connection.id) {
+      saveConnections(updatedConnections);
+
+      // If the edited connection is open, reconnect with the new settings
+      if (
+        editingConnection &&
+        state.openConnectionIds.includes(connection.id) &&
+        (!state.queryTabs.some(
+          (tab) =>
+            tab.connectionId === connection.id && hasOpenTransaction(tab),
+        ) ||
+          confirm(
+            "Reconnecting with the new settings will roll back open transactions. Reconnect now?",
+          ))
+      ) {
         try {
-          console.log(
-            "Reconnecting to updated active connection:",
-            connection.name,
-          );
+          console.log("Reconnecting to updated connection:", connection.name);
 
           // Disconnect first
           await disconnect(connection.id);
@@ -580,11 +1341,30 @@ export const App: React.FC = () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
 
           // Reconnect with new settings
-          await connect(connection);
+          const { error } = await connect(connection);
+          if (error) {
+            throw new Error(error);
+          }
+
+          setState((prev) => ({
+            ...prev,
+            queryTabs: prev.queryTabs.map((tab) =>
+              tab.connectionId === connection.id &&
+              tab.transactionMode === "manual"
+                ? { ...tab, transactionStatus: "idle", savepoints: [] }
+                : tab,
+            ),
+          }));
 
           console.log("Successfully reconnected to updated connection");
         } catch (error) {
           console.error("Failed to reconnect after connection update:", error);
+          // The old connection is closed by now; its tabs reconnect when run
+          setState((prev) => withConnectionClosed(prev, connection.id));
+          setConnectionErrors((prev) => ({
+            ...prev,
+            [connection.id]: extractErrorMessage(error),
+          }));
           // Show error to user
           alert(
             `Connection updated but failed to reconnect: ${extractErrorMessage(error)}`,
@@ -594,13 +1374,36 @@ export const App: React.FC = () => {
     },
     [
       state.connections,
-      state.activeConnectionId,
+      state.openConnectionIds,
+      state.queryTabs,
       editingConnection,
       disconnect,
       connect,
     ],
   );
 
+  // Reads .pgpass and pg_service.conf once. The main process has saved the
+  // connections, and their passwords to the keychain, when they come back.
+  const importConnections = useCallback(async () => {
+    try {
+      const imported = await window.electronAPI.file.importConnections();
+      if (imported.length === 0) {
+        alert("No new connections were found in .pgpass or pg_service.conf.");
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        connections: [...prev.connections, ...imported],
+      }));
+      alert(
+        `Imported ${imported.length} connection${imported.length === 1 ? "" : "s"}.`,
+      );
+    } catch (error) {
+      alert(`Import failed: ${extractErrorMessage(error)}`);
+    }
+  }, []);
+
   const editConnection = useCallback((connection: DatabaseConnection) => {
     setEditingConnection(connection);
     setState((prev) => ({ ...prev, showConnectionForm: true, error: null }));
@@ -640,6 +1443,16 @@ export const App: React.FC = () => {
       // when it has access to the current query results
     };
 
+    const handleSessionActivity = () => {
+      setSidePanel("activity");
+      setState((prev) => ({ ...prev, showQueryHistory: false }));
+    };
+
+    const handleLockViewer = () => {
+      setSidePanel("locks");
+      setState((prev) => ({ ...prev, showQueryHistory: false }));
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === "w") {
         e.preventDefault();
@@ -656,6 +1469,9 @@ export const App: React.FC = () => {
     window.electronAPI.on("close-tab", handleCloseTab);
     window.electronAPI.on("export-csv", handleExportCSV);
     window.electronAPI.on("export-json", handleExportJSON);
+    window.electronAPI.on("session-activity", handleSessionActivity);
+    window.electronAPI.on("lock-viewer", handleLockViewer);
+    window.electronAPI.on("import-connections", importConnections);
 
     document.addEventListener("keydown", handleKeyDown);
 
@@ -667,17 +1483,38 @@ export const App: React.FC = () => {
       window.electronAPI.removeAllListeners("close-tab");
       window.electronAPI.removeAllListeners("export-csv");
       window.electronAPI.removeAllListeners("export-json");
+      window.electronAPI.removeAllListeners("session-activity");
+      window.electronAPI.removeAllListeners("lock-viewer");
+      window.electronAPI.removeAllListeners("import-connections");
       document.removeEventListener("keydown", handleKeyDown);
     };
-  }, [addQueryTab, removeQueryTab, state.activeTabId]);
+  }, [addQueryTab, removeQueryTab, importConnections, state.activeTabId]);
 
   const toggleQueryHistory = useCallback(() => {
     setState((prev) => ({ ...prev, showQueryHistory: !prev.showQueryHistory }));
+    setSidePanel(null);
+  }, []);
+
+  const toggleNotifications = useCallback(() => {
+    setSidePanel((prev) => (prev === "notifications" ? null : "notifications"));
+    setState((prev) => ({ ...prev, showQueryHistory: false }));
+  }, []);
+
+  const closeSidePanel = useCallback(() => {
+    setSidePanel(null);
   }, []);
 
   const handleRerunQuery = useCallback(
-    async (query: string, schema?: string) => {
-      if (!state.activeConnectionId) {
+    async (
+      query: string,
+      schema?: string,
+      parameters?: Record<string, QueryParameterValue>,
+      connectionId?: string,
+    ) => {
+      // History entries run again where they ran first; the connection is
+      // opened when the tab runs
+      const targetId = connectionId ?? state.activeConnectionId;
+      if (!targetId || !state.connections.some((c) => c.id === targetId)) {
         alert("Please connect to a database first");
         return;
       }
@@ -687,8 +1524,10 @@ export const App: React.FC = () => {
         id: Date.now().toString(),
         title: await generateSmartTabName(query, { isRerun: true }),
         query: query,
+        connectionId: targetId,
         isExecuting: false,
-        selectedSchema: schema || "public",
+        selectedSchema: schema || getDefaultSchema(state.schemas[targetId]),
+        parameters,
       };
 
       setState((prev) => ({
@@ -698,12 +1537,13 @@ export const App: React.FC = () => {
         showQueryHistory: false,
       }));
     },
-    [state.activeConnectionId],
+    [state.activeConnectionId, state.connections, state.schemas],
   );
 
-  const activeConnection = state.connections.find(
-    (c) => c.id === state.activeConnectionId,
-  );
+  // Generated SQL is for the connection of the tab in front
+  const textToSqlConnectionId =
+    state.queryTabs.find((tab) => tab.id === state.activeTabId)?.connectionId ??
+    state.activeConnectionId;
 
   return (
     <div className="app" data-testid="app-container">
@@ -711,42 +1551,16 @@ export const App: React.FC = () => {
       <Sidebar
         connections={state.connections}
         activeConnectionId={state.activeConnectionId}
+        openConnectionIds={state.openConnectionIds}
         schemas={state.schemas}
         connectionErrors={connectionErrors}
         connectingConnectionIds={connectingConnectionIds}
+        connectionHealth={connectionHealth}
         loadingTableSchemas={state.loadingTableSchemas}
-        onConnectionSelect={async (id) => {
-          try {
-            setConnectionErrors((prev) => ({ ...prev, [id]: "" }));
-            setConnectingConnectionIds((prev) => new Set([...prev, id]));
-
-            const connection = state.connections.find((c) => c.id === id);
-            if (connection) {
-              await connect(connection);
-              const schemas = await getSchemas(connection.id);
-              setState((prev) => ({
-                ...prev,
-                activeConnectionId: id,
-                schemas,
-                tableSchemaCache: {}, // Clear cache when switching connections
-                loadingTableSchemas: new Set(), // Clear loading state
-                loadingSchemaDetails: new Set(), // Clear schema loading state
-              }));
-
-              // Load default schema table schemas in background
-              loadDefaultSchemaTableSchemas(connection.id, schemas);
-            }
-          } catch (error) {
-            const errorMessage = extractErrorMessage(error);
-            setConnectionErrors((prev) => ({ ...prev, [id]: errorMessage }));
-          } finally {
-            setConnectingConnectionIds((prev) => {
-              const newSet = new Set(prev);
-              newSet.delete(id);
-              return newSet;
-            });
-          }
-        }}
+        width={sidebarWidth}
+        onWidthChange={setSidebarWidth}
+        onConnectionSelect={openConnection}
+        onConnectionClose={closeConnection}
         onConnectionRemove={removeConnection}
         onConnectionEdit={editConnection}
         onNewConnection={() => {
@@ -757,17 +1571,18 @@ export const App: React.FC = () => {
             error: null,
           }));
         }}
-        onTableSelect={async (schema, table) => {
+        onTableSelect={async (connectionId, schema, table) => {
           const tableKey = `${schema}.${table}`;
+          const loadingKey = `${connectionId}:${tableKey}`;
 
           // Check if we're already loading this table schema
-          if (state.loadingTableSchemas.has(tableKey)) {
+          if (state.loadingTableSchemas.has(loadingKey)) {
             return;
           }
 
           // Check if we already have this table schema in cache
           let tableSchema: TableInfo | undefined =
-            state.tableSchemaCache[tableKey];
+            state.tableSchemaCache[connectionId]?.[tableKey];
 
           if (!tableSchema) {
             // Mark as loading
@@ -775,16 +1590,12 @@ export const App: React.FC = () => {
               ...prev,
               loadingTableSchemas: new Set([
                 ...prev.loadingTableSchemas,
-                tableKey,
+                loadingKey,
               ]),
             }));
 
             try {
-              tableSchema = await getTableSchema(
-                state.activeConnectionId!,
-                schema,
-                table,
-              );
+              tableSchema = await getTableSchema(connectionId, schema, table);
 
               if (!tableSchema) {
                 // Remove from loading state on error
@@ -792,7 +1603,7 @@ export const App: React.FC = () => {
                   ...prev,
                   loadingTableSchemas: new Set(
                     [...prev.loadingTableSchemas].filter(
-                      (key) => key !== tableKey,
+                      (key) => key !== loadingKey,
                     ),
                   ),
                 }));
@@ -801,28 +1612,33 @@ export const App: React.FC = () => {
               }
 
               // Cache the result and update schemas
-              const updatedSchemas = state.schemas.map((s) => {
-                if (s.name === schema) {
-                  return {
-                    ...s,
-                    tables: s.tables.map((t) =>
-                      t.name === table ? tableSchema! : t,
-                    ),
-                  };
-                }
-                return s;
-              });
+              const updatedSchemas = (state.schemas[connectionId] || []).map(
+                (s) => {
+                  if (s.name === schema) {
+                    return {
+                      ...s,
+                      tables: s.tables.map((t) =>
+                        t.name === table ? tableSchema! : t,
+                      ),
+                    };
+                  }
+                  return s;
+                },
+              );
 
               setState((prev) => ({
                 ...prev,
-                schemas: updatedSchemas,
+                schemas: { ...prev.schemas, [connectionId]: updatedSchemas },
                 tableSchemaCache: {
                   ...prev.tableSchemaCache,
-                  [tableKey]: tableSchema!,
+                  [connectionId]: {
+                    ...prev.tableSchemaCache[connectionId],
+                    [tableKey]: tableSchema!,
+                  },
                 },
                 loadingTableSchemas: new Set(
                   [...prev.loadingTableSchemas].filter(
-                    (key) => key !== tableKey,
+                    (key) => key !== loadingKey,
                   ),
                 ),
               }));
@@ -832,7 +1648,7 @@ export const App: React.FC = () => {
                 ...prev,
                 loadingTableSchemas: new Set(
                   [...prev.loadingTableSchemas].filter(
-                    (key) => key !== tableKey,
+                    (key) => key !== loadingKey,
                   ),
                 ),
               }));
@@ -850,6 +1666,7 @@ export const App: React.FC = () => {
               table,
             }),
             query: sql,
+            connectionId,
             isExecuting: false,
             selectedSchema: schema,
           };
@@ -864,21 +1681,87 @@ export const App: React.FC = () => {
       <MainContent
         queryTabs={state.queryTabs}
         activeTabId={state.activeTabId}
-        activeConnection={activeConnection}
-        onTabSelect={(id) => setState((prev) => ({ ...prev, activeTabId: id }))}
+        connections={state.connections}
+        openConnectionIds={state.openConnectionIds}
+        onTabSelect={(id) =>
+          setState((prev) => {
+            const tab = prev.queryTabs.find((t) => t.id === id);
+            return {
+              ...prev,
+              activeTabId: id,
+              // The sidebar follows the tab's connection while it is open
+              activeConnectionId:
+                tab && prev.openConnectionIds.includes(tab.connectionId)
+                  ? tab.connectionId
+                  : prev.activeConnectionId,
+            };
+          })
+        }
+        onConnectionChange={changeTabConnection}
         onTabClose={removeQueryTab}
         onNewTab={addQueryTab}
         onQueryChange={(tabId, query) => updateQueryTab(tabId, { query })}
+        onCursorChange={(tabId, cursor) => updateQueryTab(tabId, { cursor })}
+        onParametersChange={(tabId, parameters) =>
+          updateQueryTab(tabId, { parameters })
+        }
+        onTimeoutsChange={(tabId, timeouts) =>
+          updateQueryTab(tabId, { timeouts })
+        }
         onQueryExecute={executeQuery}
+        onQueryExplain={executeExplain}
         onQueryCancel={handleCancelQuery}
         onSchemaChange={handleSchemaChange}
+        onTransactionModeChange={handleTransactionModeChange}
+        onTransactionAction={handleTransactionAction}
+        onFetchRows={handleFetchRows}
+        onCountRows={handleCountRows}
         schemas={state.schemas}
         onToggleHistory={toggleQueryHistory}
+        onToggleNotifications={toggleNotifications}
       />
 
+      {sidePanel === "notifications" && state.activeConnectionId && (
+        <NotificationConsole
+          notifications={notifications.notifications.filter(
+            (notification) =>
+              notification.connectionId === state.activeConnectionId,
+          )}
+          channels={notifications.channels[state.activeConnectionId] || []}
+          error={notifications.error}
+          onListen={(channel) =>
+            notifications.subscribe(state.activeConnectionId!, channel)
+          }
+          onUnlisten={(channel) =>
+            notifications.unsubscribe(state.activeConnectionId!, channel)
+          }
+          onSend={(channel, payload) =>
+            notifications.send(state.activeConnectionId!, channel, payload)
+          }
+          onClear={() => notifications.clear(state.activeConnectionId!)}
+          onClose={toggleNotifications}
+        />
+      )}
+
+      {sidePanel === "activity" && state.activeConnectionId && (
+        <SessionActivityMonitor
+          connectionId={state.activeConnectionId}
+          onClose={closeSidePanel}
+        />
+      )}
+
+      {sidePanel === "locks" && state.activeConnectionId && (
+        <LockViewer
+          connectionId={state.activeConnectionId}
+          onOpenQuery={handleRerunQuery}
+          onClose={closeSidePanel}
+        />
+      )}
+
       {state.showQueryHistory && (
         <QueryHistory
-          queryLogs={state.queryLogs}
+          connections={state.connections}
+          version={historyVersion}
           onClose={toggleQueryHistory}
           onRerunQuery={handleRerunQuery}
         />
@@ -899,6 +1782,11 @@ export const App: React.FC = () => {
           isConnecting={state.isConnecting}
           error={connectionError}
           editConnection={editingConnection || undefined}
+          folders={[
+            ...new Set(
+              state.connections.flatMap((c) => (c.folder ? [c.folder] : [])),
+            ),
+          ].sort()}
         />
       )}
 
@@ -919,18 +1807,20 @@ export const App: React.FC = () => {
           isOpen={showTextToSQL}
           onClose={() => setShowTextToSQL(false)}
           onGenerateSQL={(sql) => {
+            if (!textToSqlConnectionId) return;
+
             // Create a new tab with the generated SQL immediately with a temporary name
             const newTabId = Date.now().toString();
             const newTab: QueryTab = {
               id: newTabId,
               title: "Generated SQL", // Temporary name
               query: sql,
+              connectionId: textToSqlConnectionId,
               isExecuting: false,
               selectedSchema:
                 state.queryTabs.find((tab) => tab.id === state.activeTabId)
                   ?.selectedSchema ||
-                state.schemas[0]?.name ||
-                "public",
+                getDefaultSchema(state.schemas[textToSqlConnectionId]),
             };
 
             setState((prev) => ({
@@ -957,8 +1847,11 @@ export const App: React.FC = () => {
                 console.log("AI tab naming failed, keeping temporary name");
               });
           }}
-          schemas={state.schemas}
-          activeConnectionId={state.activeConnectionId || undefined}
+          schemas={
+            (textToSqlConnectionId && state.schemas[textToSqlConnectionId]) ||
+            []
+          }
+          activeConnectionId={textToSqlConnectionId || undefined}
         />
       )}
     </div>
@@ -61,7 +61,7 @@ export const AISettingsModal: React.FC<AISettingsModalProps> = ({
   const loadExistingCredentials = async () => {
     try {
       // First, check if there's a saved provider preference
-      const savedProvider = localStorage.getItem("ai-selected-provider");
+      const savedProvider = await window.electronAPI.config.get("aiProvider");
 
       if (savedProvider) {
         // Try to load credentials for the saved provider
@@ -99,7 +99,7 @@ export const AISettingsModal: React.FC<AISettingsModalProps> = ({
               provider: provider,
             });
             // Save this as the selected provider
-            localStorage.setItem("ai-selected-provider", provider);
+            await window.electronAPI.config.set("aiProvider", provider);
             setIsLoading(false);
             return;
           }
@@ -116,8 +116,8 @@ export const AISettingsModal: React.FC<AISettingsModalProps> = ({
 
   const handleProviderChange = useCallback(
     async (provider: AICredentials["provider"]) => {
-      // Save the selected provider to localStorage
-      localStorage.setItem("ai-selected-provider", provider);
+      // Save the selected provider to the config
+      await window.electronAPI.config.set("aiProvider", provider);
 
       setCredentials((prev) => ({
         provider,
@@ -200,8 +200,8 @@ export const AISettingsModal: React.FC<AISettingsModalProps> = ({
         JSON.stringify(credentials),
       );
 
-      // Save the selected provider to localStorage
-      localStorage.setItem("ai-selected-provider", credentials.provider);
+      // Save the selected provider to the config
+      await window.electronAPI.config.set("aiProvider", credentials.provider);
 
       onSave(credentials);
       onClose();
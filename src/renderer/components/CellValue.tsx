@@ -0,0 +1,75 @@
+import React, { useMemo } from "react";
+import { DisplaySettings, FieldInfo } from "../types";
+import {
+  formatBytes,
+  formatCellValue,
+  getImageMimeType,
+  getTypeHandler,
+  toBytes,
+} from "../utils/typeRegistry";
+
+interface CellValueProps {
+  value: unknown;
+  field: FieldInfo;
+  settings: DisplaySettings;
+}
+
+// Grids only show the start of large binary values
+const BINARY_PREVIEW_BYTES = 64;
+
+const toDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const BinaryValue: React.FC<{ bytes: Uint8Array }> = ({ bytes }) => {
+  const mimeType = getImageMimeType(bytes);
+  const imageUrl = useMemo(
+    () => (mimeType ? toDataUrl(bytes, mimeType) : null),
+    [bytes, mimeType],
+  );
+  const size = `${bytes.length.toLocaleString()} bytes`;
+
+  if (imageUrl) {
+    return (
+      <img
+        className="cell-image"
+        src={imageUrl}
+        alt={`${mimeType} • ${size}`}
+        title={`${mimeType} • ${size}`}
+      />
+    );
+  }
+
+  const preview = formatBytes(bytes.subarray(0, BINARY_PREVIEW_BYTES));
+  return (
+    <span className="cell-binary" title={size}>
+      {bytes.length > BINARY_PREVIEW_BYTES ? `${preview}…` : preview}
+    </span>
+  );
+};
+
+export const CellValue: React.FC<CellValueProps> = ({
+  value,
+  field,
+  settings,
+}) => {
+  if (value === null || value === undefined) {
+    return <span className="null-value">NULL</span>;
+  }
+
+  const { kind } = getTypeHandler(field);
+  if (kind === "binary") {
+    const bytes = toBytes(value);
+    if (bytes) return <BinaryValue bytes={bytes} />;
+  }
+
+  return (
+    <span className={`cell-${kind}`}>
+      {formatCellValue(value, field, settings)}
+    </span>
+  );
+};
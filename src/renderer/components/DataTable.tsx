@@ -1,9 +1,17 @@
 import React, { useState, useRef, useCallback, useMemo } from "react";
-import { QueryResult } from "../types";
+import { StatementResult } from "../types";
 import { exportToCSV, exportToJSON } from "../utils/export";
+import {
+  formatCellValue,
+  getTypeHandler,
+  hasTimestamptzFields,
+} from "../utils/typeRegistry";
+import { useDisplaySettings } from "../hooks/useDisplaySettings";
+import { CellValue } from "./CellValue";
+import { TimeZoneSelect } from "./TimeZoneSelect";
 
 interface DataTableProps {
-  result: QueryResult;
+  result: StatementResult;
 }
 
 interface ColumnState {
@@ -21,6 +29,7 @@ export const DataTable: React.FC<DataTableProps> = ({ result }) => {
     return initial;
   });
   const [filterText, setFilterText] = useState("");
+  const { settings, updateSettings } = useDisplaySettings();
 
   const resizeState = useRef<{
     columnName: string;
@@ -97,15 +106,17 @@ export const DataTable: React.FC<DataTableProps> = ({ result }) => {
     exportToCSV(
       result,
       `query_results_${new Date().toISOString().split("T")[0]}.csv`,
+      settings,
     );
-  }, [result]);
+  }, [result, settings]);
 
   const handleExportJSON = useCallback(() => {
     exportToJSON(
       result,
       `query_results_${new Date().toISOString().split("T")[0]}.json`,
+      settings,
     );
-  }, [result]);
+  }, [result, settings]);
 
   // Filter rows based on filter text
   const filteredRows = useMemo(() => {
@@ -115,15 +126,14 @@ export const DataTable: React.FC<DataTableProps> = ({ result }) => {
     return rows.filter((row) => {
       return fields.some((field) => {
         const value = row[field.name];
-        if (value === null) return false;
+        if (value === null || value === undefined) return false;
 
-        const stringValue =
-          typeof value === "object" ? JSON.stringify(value) : String(value);
-
-        return stringValue.toLowerCase().includes(lowerFilter);
+        return formatCellValue(value, field, settings)
+          .toLowerCase()
+          .includes(lowerFilter);
       });
     });
-  }, [rows, fields, filterText]);
+  }, [rows, fields, filterText, settings]);
 
   // Don't render if no fields or result
   if (!result || !fields || fields.length === 0) {
@@ -160,6 +170,9 @@ export const DataTable: React.FC<DataTableProps> = ({ result }) => {
               minWidth: "150px",
             }}
           />
+          {hasTimestamptzFields(fields) && (
+            <TimeZoneSelect settings={settings} onChange={updateSettings} />
+          )}
           <button onClick={handleExportCSV} className="export-btn">
             Export CSV
           </button>
@@ -270,30 +283,14 @@ export const DataTable: React.FC<DataTableProps> = ({ result }) => {
                           overflow: "hidden",
                           textOverflow: "ellipsis",
                           whiteSpace: "nowrap",
+                          textAlign: getTypeHandler(field).align,
                         }}
                       >
-                        {row[field.name] === null ? (
-                          <span
-                            style={{
-                              color: "#9ca3af",
-                              fontStyle: "italic",
-                              fontSize: "11px",
-                            }}
-                          >
-                            NULL
-                          </span>
-                        ) : typeof row[field.name] === "object" ? (
-                          <span
-                            style={{
-                              fontFamily: "monospace",
-                              fontSize: "11px",
-                            }}
-                          >
-                            {JSON.stringify(row[field.name])}
-                          </span>
-                        ) : (
-                          String(row[field.name])
-                        )}
+                        <CellValue
+                          value={row[field.name]}
+                          field={field}
+                          settings={settings}
+                        />
                       </td>
                     );
                   })}
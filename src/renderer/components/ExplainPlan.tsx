@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from "react";
+import { ExplainResult, PlanNode } from "../types";
+
+interface ExplainPlanProps {
+  explain: ExplainResult;
+}
+
+interface PlanNodeViewProps {
+  node: PlanNode;
+  analyzed: boolean;
+  total: number; // Root time (analyzed) or cost the node's share is measured against
+}
+
+// Time spent in a node across all loops, or its total cost when not analyzed
+const getInclusive = (node: PlanNode, analyzed: boolean): number =>
+  analyzed
+    ? (node["Actual Total Time"] || 0) * (node["Actual Loops"] || 1)
+    : node["Total Cost"];
+
+// What the node itself contributes, without the work of its children
+const getExclusive = (node: PlanNode, analyzed: boolean): number => {
+  const children = (node.Plans || []).reduce(
+    (sum, child) => sum + getInclusive(child, analyzed),
+    0,
+  );
+  return Math.max(0, getInclusive(node, analyzed) - children);
+};
+
+const formatNumber = (value: number, digits = 2): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const getNodeLabel = (node: PlanNode): string => {
+  const target = node["Relation Name"]
+    ? ` on ${node["Relation Name"]}${
+        node.Alias && node.Alias !== node["Relation Name"]
+          ? ` ${node.Alias}`
+          : ""
+      }`
+    : "";
+  const index = node["Index Name"] ? ` using ${node["Index Name"]}` : "";
+  return `${node["Node Type"]}${index}${target}`;
+};
+
+// Flags estimates that are off by more than 10x in either direction
+const getMisestimate = (node: PlanNode): string | null => {
+  const actual = node["Actual Rows"];
+  if (actual === undefined) return null;
+
+  const estimated = node["Plan Rows"];
+  const ratio = Math.max(actual, 1) / Math.max(estimated, 1);
+  if (ratio >= 10) return `${formatNumber(ratio, 0)}× underestimated`;
+  if (ratio <= 0.1) return `${formatNumber(1 / ratio, 0)}× overestimated`;
+  return null;
+};
+
+const PlanNodeView: React.FC<PlanNodeViewProps> = ({
+  node,
+  analyzed,
+  total,
+}) => {
+  const [expanded, setExpanded] = useState(true);
+  const children = node.Plans || [];
+  const share = total > 0 ? getExclusive(node, analyzed) / total : 0;
+  const heat = share >= 0.5 ? "hot" : share >= 0.2 ? "warm" : "";
+  const misestimate = getMisestimate(node);
+
+  return (
+    <li>
+      <div className={`plan-node ${heat}`} data-testid="plan-node">
+        <div className="plan-node-title">
+          {children.length > 0 ? (
+            <button
+              className="plan-node-toggle"
+              onClick={() => setExpanded(!expanded)}
+              title={expanded ? "Collapse" : "Expand"}
+            >
+              {expanded ? "▾" : "▸"}
+            </button>
+          ) : (
+            <span className="plan-node-toggle" />
+          )}
+          <span className="plan-node-type">{getNodeLabel(node)}</span>
+          <span className="plan-node-share" title="Share of the total">
+            {formatNumber(share * 100, 1)}%
+          </span>
+        </div>
+
+        <div className="plan-node-stats">
+          <span title="Estimated startup..total cost">
+            cost {formatNumber(node["Startup Cost"])}..
+            {formatNumber(node["Total Cost"])}
+          </span>
+          <span>
+            rows {formatNumber(node["Plan Rows"], 0)} est.
+            {node["Actual Rows"] !== undefined &&
+              ` / ${formatNumber(node["Actual Rows"], 0)} actual`}
+          </span>
+          {node["Actual Total Time"] !== undefined && (
+            <span title="Actual startup..total time per loop">
+              time {formatNumber(node["Actual Startup Time"] || 0, 3)}..
+              {formatNumber(node["Actual Total Time"], 3)} ms
+            </span>
+          )}
+          {node["Actual Loops"] !== undefined && (
+            <span>loops {formatNumber(node["Actual Loops"], 0)}</span>
+          )}
+          {node["Shared Hit Blocks"] !== undefined && (
+            <span title="Shared buffers hit / read from disk">
+              buffers {formatNumber(node["Shared Hit Blocks"], 0)} hit /{" "}
+              {formatNumber(node["Shared Read Blocks"] || 0, 0)} read
+            </span>
+          )}
+          {misestimate && (
+            <span className="plan-node-misestimate">{misestimate}</span>
+          )}
+        </div>
+      </div>
+
+      {expanded && children.length > 0 && (
+        <ul>
+          {children.map((child, index) => (
+            <PlanNodeView
+              key={index}
+              node={child}
+              analyzed={analyzed}
+              total={total}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const ExplainPlan: React.FC<ExplainPlanProps> = ({ explain }) => {
+  const { plan, analyzed } = explain;
+  const total = useMemo(() => getInclusive(plan, analyzed), [plan, analyzed]);
+
+  const handleCopyJSON = () => {
+    navigator.clipboard.writeText(JSON.stringify(plan, null, 2));
+  };
+
+  return (
+    <div className="results-container explain-plan" data-testid="explain-plan">
+      <div className="results-header">
+        <div className="results-info">
+          {analyzed ? "Explain Analyze" : "Explain"}
+          {explain.planningTime !== undefined &&
+            ` • planning ${formatNumber(explain.planningTime, 3)} ms`}
+          {explain.executionTime !== undefined &&
+            ` • execution ${formatNumber(explain.executionTime, 3)} ms`}
+          {` • ${explain.duration}ms`}
+        </div>
+        <div className="results-actions">
+          <button onClick={handleCopyJSON} className="export-btn">
+            Copy JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="plan-tree">
+        <ul>
+          <PlanNodeView node={plan} analyzed={analyzed} total={total} />
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { BackendSignal, BlockingSession } from "../types";
+import { useDatabase } from "../hooks/useDatabase";
+import { usePolling } from "../hooks/usePolling";
+import { extractErrorMessage } from "../utils/errorHandling";
+import { confirmSignal, formatElapsed, getStateClass } from "../utils/sessions";
+
+interface LockViewerProps {
+  connectionId: string;
+  onOpenQuery: (query: string) => void;
+  onClose: () => void;
+}
+
+interface BlockingNode {
+  session: BlockingSession;
+  waiters: BlockingNode[]; // Sessions waiting on this one
+}
+
+const REFRESH_INTERVAL = 2000;
+
+// Heads of the chains are the sessions that wait on nobody. A session blocked
+// by several others appears under each of them. A deadlock has no head until
+// the server breaks it, so whatever is left unreached becomes a root too.
+const buildBlockingTree = (sessions: BlockingSession[]): BlockingNode[] => {
+  const reached = new Set<number>();
+  const build = (session: BlockingSession, path: number[]): BlockingNode => {
+    reached.add(session.pid);
+    return {
+      session,
+      waiters: sessions
+        .filter(
+          (waiter) =>
+            waiter.blockedBy.includes(session.pid) &&
+            !path.includes(waiter.pid),
+        )
+        .map((waiter) => build(waiter, [...path, waiter.pid])),
+    };
+  };
+
+  const pids = new Set(sessions.map((session) => session.pid));
+  const roots = sessions
+    .filter((session) => session.blockedBy.every((pid) => !pids.has(pid)))
+    .map((session) => build(session, [session.pid]));
+  for (const session of sessions) {
+    if (!reached.has(session.pid)) {
+      roots.push(build(session, [session.pid]));
+    }
+  }
+  return roots;
+};
+
+const describeLocks = (session: BlockingSession): string => {
+  const waiting = session.locks.find((lock) => !lock.granted);
+  if (waiting) {
+    return `Waiting ${formatElapsed(waiting.waitDuration)} for ${waiting.mode} on ${waiting.target}`;
+  }
+  const held = session.locks.map((lock) => `${lock.mode} on ${lock.target}`);
+  return held.length > 0 ? `Holds ${held.join(", ")}` : "";
+};
+
+// Who blocks whom, from pg_locks, pg_stat_activity and pg_blocking_pids()
+export const LockViewer: React.FC<LockViewerProps> = ({
+  connectionId,
+  onOpenQuery,
+  onClose,
+}) => {
+  const { getBlockingSessions, signalSession } = useDatabase();
+  const [sessions, setSessions] = useState<BlockingSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [selectedPid, setSelectedPid] = useState<number | null>(null);
+  const treeRef = useRef<HTMLDivElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await getBlockingSessions(connectionId));
+      setError(null);
+    } catch (error) {
+      setError(extractErrorMessage(error));
+    }
+  }, [connectionId, getBlockingSessions]);
+
+  usePolling(refresh, REFRESH_INTERVAL, autoRefresh);
+
+  useEffect(() => {
+    if (selectedPid !== null) {
+      // A session blocked by several others is shown once per blocker; the
+      // first is the one to scroll to
+      treeRef.current
+        ?.querySelector(`[data-pid="${selectedPid}"]`)
+        ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }
+  }, [selectedPid]);
+
+  const handleSignal = async (pid: number, signal: BackendSignal) => {
+    if (!confirmSignal(pid, signal)) return;
+
+    try {
+      if (!(await signalSession(connectionId, pid, signal))) {
+        alert(`Backend ${pid} could not be signalled; it may have exited.`);
+      }
+    } catch (error) {
+      alert(extractErrorMessage(error));
+    }
+    await refresh();
+  };
+
+  const selected = sessions.find((session) => session.pid === selectedPid);
+
+  const renderNode = (node: BlockingNode, depth: number): React.ReactNode => {
+    const { session } = node;
+    return (
+      <React.Fragment key={session.pid}>
+        <div
+          data-pid={session.pid}
+          className={`blocking-node ${session.pid === selectedPid ? "selected" : ""}`}
+          style={{ paddingLeft: 12 + depth * 20 }}
+          onClick={() => setSelectedPid(session.pid)}
+          data-testid="blocking-node"
+        >
+          <div className="log-header">
+            <span className="log-timestamp">{session.pid}</span>
+            <span className={`session-state ${getStateClass(session.state)}`}>
+              {session.state}
+            </span>
+            <span className="log-connection">{session.username}</span>
+            {node.waiters.length > 0 && (
+              <span className="blocking-count">
+                blocks {node.waiters.length}
+              </span>
+            )}
+          </div>
+          <div className="session-meta">{describeLocks(session)}</div>
+          {session.blockedBy.length > 0 && (
+            <div className="session-meta">
+              Blocked by{" "}
+              {session.blockedBy.map((pid) => (
+                <button
+                  key={pid}
+                  className="blocker-link"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelectedPid(pid);
+                  }}
+                  title="Show the blocking session"
+                  data-testid="blocker-link"
+                >
+                  {pid}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {node.waiters.map((waiter) => renderNode(waiter, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="query-history-panel lock-viewer" data-testid="lock-viewer">
+      <div className="query-history-header">
+        <h3>Locks and Blocking</h3>
+        <button className="close-btn" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div className="query-history-filters">
+        <label className="error-filter">
+          <input
+            type="checkbox"
+            checked={autoRefresh}
+            onChange={(e) => setAutoRefresh(e.target.checked)}
+          />
+          Refresh every {REFRESH_INTERVAL / 1000}s
+        </label>
+        {error && <div className="log-error">{error}</div>}
+      </div>
+
+      <div className="query-history-list blocking-tree" ref={treeRef}>
+        {sessions.length === 0 ? (
+          <div className="empty-history">
+            <p>No session is waiting on a lock</p>
+          </div>
+        ) : (
+          buildBlockingTree(sessions).map((root) => renderNode(root, 0))
+        )}
+      </div>
+
+      {selected && (
+        <div className="blocking-details" data-testid="blocking-details">
+          <div className="log-header">
+            <span className="log-timestamp">{selected.pid}</span>
+            <span className="log-connection">{selected.applicationName}</span>
+            <span
+              className="log-duration"
+              title={`Transaction: ${formatElapsed(selected.transactionDuration)}`}
+            >
+              {formatElapsed(selected.queryDuration)}
+            </span>
+          </div>
+          <pre className="blocking-query" data-testid="blocking-query">
+            {selected.query}
+          </pre>
+          {selected.locks.length > 0 && (
+            <table className="blocking-locks">
+              <tbody>
+                {selected.locks.map((lock, index) => (
+                  <tr key={index}>
+                    <td>{lock.target}</td>
+                    <td>{lock.mode}</td>
+                    <td>
+                      {lock.granted
+                        ? "granted"
+                        : `waiting ${formatElapsed(lock.waitDuration)}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="log-actions">
+            <button
+              className="rerun-btn"
+              onClick={() => onOpenQuery(selected.query)}
+              disabled={!selected.query}
+            >
+              Open in New Tab
+            </button>
+            <button
+              className="rerun-btn"
+              onClick={() => handleSignal(selected.pid, "cancel")}
+              disabled={selected.state !== "active"}
+              title="Cancel the running query (pg_cancel_backend)"
+              data-testid="blocking-cancel-btn"
+            >
+              Cancel
+            </button>
+            <button
+              className="rerun-btn danger"
+              onClick={() => handleSignal(selected.pid, "terminate")}
+              title="Close the session (pg_terminate_backend)"
+              data-testid="blocking-terminate-btn"
+            >
+              Terminate
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
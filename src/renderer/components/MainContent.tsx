@@ -1,38 +1,90 @@
 import React, { useRef, useEffect } from "react";
 import { TabBar } from "./TabBar";
 import { QueryEditor, QueryEditorRef } from "./QueryEditor";
-import { DatabaseConnection, QueryTab, SchemaInfo } from "../types";
+import {
+  DatabaseConnection,
+  QueryParameterValue,
+  QueryTab,
+  SchemaInfo,
+  TimeoutSettings,
+  TransactionAction,
+  TransactionMode,
+} from "../types";
 
 interface MainContentProps {
   queryTabs: QueryTab[];
   activeTabId: string | null;
-  activeConnection: DatabaseConnection | undefined;
+  connections: DatabaseConnection[];
+  openConnectionIds: string[];
   onTabSelect: (id: string) => void;
   onTabClose: (id: string) => void;
   onNewTab: () => void;
+  onConnectionChange: (tabId: string, connectionId: string) => void;
   onQueryChange: (tabId: string, query: string) => void;
-  onQueryExecute: (tabId: string, query: string) => void;
+  onCursorChange: (tabId: string, cursor: number) => void;
+  onQueryExecute: (tabId: string, query: string, editorOffset?: number) => void;
+  onQueryExplain: (
+    tabId: string,
+    query: string,
+    analyze: boolean,
+    editorOffset?: number,
+  ) => void;
   onQueryCancel: (tabId: string) => void;
   onSchemaChange: (tabId: string, schema: string) => void;
-  schemas: SchemaInfo[];
+  onTransactionModeChange: (tabId: string, mode: TransactionMode) => void;
+  onTransactionAction: (
+    tabId: string,
+    action: TransactionAction,
+    savepoint?: string,
+  ) => void;
+  onFetchRows: (
+    tabId: string,
+    statementIndex: number,
+    all: boolean,
+  ) => Promise<void>;
+  onCountRows: (tabId: string, statementIndex: number) => Promise<void>;
+  onParametersChange: (
+    tabId: string,
+    parameters: Record<string, QueryParameterValue>,
+  ) => void;
+  onTimeoutsChange: (
+    tabId: string,
+    timeouts: TimeoutSettings | undefined,
+  ) => void;
+  schemas: Record<string, SchemaInfo[]>; // By connection
   onToggleHistory: () => void;
+  onToggleNotifications: () => void;
 }
 
 export const MainContent: React.FC<MainContentProps> = ({
   queryTabs,
   activeTabId,
-  activeConnection,
+  connections,
+  openConnectionIds,
   onTabSelect,
   onTabClose,
   onNewTab,
+  onConnectionChange,
   onQueryChange,
+  onCursorChange,
   onQueryExecute,
+  onQueryExplain,
   onQueryCancel,
   onSchemaChange,
+  onTransactionModeChange,
+  onTransactionAction,
+  onFetchRows,
+  onCountRows,
+  onParametersChange,
+  onTimeoutsChange,
   schemas,
   onToggleHistory,
+  onToggleNotifications,
 }) => {
   const activeTab = queryTabs.find((tab) => tab.id === activeTabId);
+  const tabConnection = connections.find(
+    (connection) => connection.id === activeTab?.connectionId,
+  );
   const queryEditorRef = useRef<QueryEditorRef>(null);
 
   // Focus the editor when activeTabId changes
@@ -45,7 +97,8 @@ export const MainContent: React.FC<MainContentProps> = ({
     }
   }, [activeTabId]);
 
-  if (!activeConnection) {
+  // Tabs stay usable after their connection is closed; they reconnect on run
+  if (queryTabs.length === 0 && openConnectionIds.length === 0) {
     return (
       <div className="main-content" data-testid="main-content">
         <div className="empty-state">
@@ -65,19 +118,30 @@ export const MainContent: React.FC<MainContentProps> = ({
         onTabClose={onTabClose}
         onNewTab={onNewTab}
         onToggleHistory={onToggleHistory}
+        onToggleNotifications={onToggleNotifications}
       />
 
-      {activeTab ? (
+      {activeTab && tabConnection ? (
         <QueryEditor
           key={activeTab.id}
           ref={queryEditorRef}
           tab={activeTab}
-          connection={activeConnection}
+          connection={tabConnection}
+          connections={connections}
+          onConnectionChange={onConnectionChange}
           onQueryChange={onQueryChange}
+          onCursorChange={onCursorChange}
           onQueryExecute={onQueryExecute}
+          onQueryExplain={onQueryExplain}
           onQueryCancel={onQueryCancel}
           onSchemaChange={onSchemaChange}
-          schemas={schemas}
+          onTransactionModeChange={onTransactionModeChange}
+          onTransactionAction={onTransactionAction}
+          onFetchRows={onFetchRows}
+          onCountRows={onCountRows}
+          onParametersChange={onParametersChange}
+          onTimeoutsChange={onTimeoutsChange}
+          schemas={schemas[activeTab.connectionId] || []}
         />
       ) : (
         <div className="empty-state">
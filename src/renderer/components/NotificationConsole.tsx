@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import { ChannelNotification } from "../types";
+import { formatClockTime } from "../utils/clock";
+
+interface NotificationConsoleProps {
+  notifications: ChannelNotification[]; // Received on the active connection, oldest first
+  channels: string[];
+  error: string | null;
+  onListen: (channel: string) => void;
+  onUnlisten: (channel: string) => void;
+  onSend: (channel: string, payload: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Pretty-prints JSON payloads and leaves anything else as sent
+const formatPayload = (payload: string): string => {
+  const trimmed = payload.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return payload;
+  try {
+    return JSON.stringify(JSON.parse(trimmed), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+export const NotificationConsole: React.FC<NotificationConsoleProps> = ({
+  notifications,
+  channels,
+  error,
+  onListen,
+  onUnlisten,
+  onSend,
+  onClear,
+  onClose,
+}) => {
+  const [channelInput, setChannelInput] = useState("");
+  const [sendChannel, setSendChannel] = useState("");
+  const [payload, setPayload] = useState("");
+
+  const handleListen = (e: React.FormEvent) => {
+    e.preventDefault();
+    const channel = channelInput.trim();
+    if (!channel) return;
+    onListen(channel);
+    setChannelInput("");
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const channel = sendChannel.trim() || channels[0];
+    if (!channel) return;
+    onSend(channel, payload);
+  };
+
+  return (
+    <div
+      className="query-history-panel notification-console"
+      data-testid="notification-console"
+    >
+      <div className="query-history-header">
+        <h3>Notifications</h3>
+        <button className="close-btn" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div className="query-history-filters">
+        <form className="notification-form" onSubmit={handleListen}>
+          <input
+            type="text"
+            placeholder="Channel to listen on"
+            value={channelInput}
+            onChange={(e) => setChannelInput(e.target.value)}
+            className="filter-input"
+            data-testid="listen-channel-input"
+          />
+          <button
+            type="submit"
+            className="btn btn-secondary"
+            data-testid="listen-btn"
+          >
+            Listen
+          </button>
+        </form>
+
+        {channels.length > 0 && (
+          <div className="notification-channels">
+            {channels.map((channel) => (
+              <span
+                key={channel}
+                className="notification-channel"
+                data-testid="listened-channel"
+              >
+                {channel}
+                <button
+                  onClick={() => onUnlisten(channel)}
+                  title={`Stop listening on ${channel}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="log-error">{error}</div>}
+      </div>
+
+      <div className="query-history-list" data-testid="notification-list">
+        {notifications.length === 0 ? (
+          <div className="empty-history">
+            <p>
+              {channels.length > 0
+                ? "Waiting for notifications..."
+                : "Listen on a channel to see its notifications"}
+            </p>
+          </div>
+        ) : (
+          notifications.map((notification, index) => (
+            <div
+              key={index}
+              className="query-log-entry"
+              data-testid="notification-item"
+            >
+              <div className="log-header">
+                <span className="log-timestamp">
+                  {formatClockTime(notification.timestamp)}
+                </span>
+                <span className="log-connection">{notification.channel}</span>
+                <span className="log-duration">
+                  PID {notification.processId}
+                </span>
+              </div>
+              {notification.payload && (
+                <pre className="notification-payload">
+                  {formatPayload(notification.payload)}
+                </pre>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <form className="notification-send" onSubmit={handleSend}>
+        <input
+          type="text"
+          placeholder={channels[0] || "Channel"}
+          value={sendChannel}
+          onChange={(e) => setSendChannel(e.target.value)}
+          className="filter-input"
+          data-testid="notify-channel-input"
+        />
+        <textarea
+          placeholder="Payload"
+          value={payload}
+          onChange={(e) => setPayload(e.target.value)}
+          className="filter-input"
+          rows={3}
+          data-testid="notify-payload-input"
+        />
+        <div className="notification-actions">
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={onClear}
+            disabled={notifications.length === 0}
+          >
+            Clear
+          </button>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={!sendChannel.trim() && channels.length === 0}
+            data-testid="notify-btn"
+          >
+            Send NOTIFY
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from "react";
+import { QueryParameterType, QueryParameterValue } from "../types";
+
+interface ParameterPanelProps {
+  placeholders: string[];
+  values: Record<string, QueryParameterValue>;
+  onChange: (values: Record<string, QueryParameterValue>) => void;
+  disabled?: boolean;
+}
+
+const PARAMETER_TYPES: QueryParameterType[] = [
+  "auto",
+  "text",
+  "integer",
+  "bigint",
+  "numeric",
+  "boolean",
+  "date",
+  "timestamp",
+  "timestamptz",
+  "uuid",
+  "jsonb",
+];
+
+const EMPTY_VALUE: QueryParameterValue = { value: "", type: "auto" };
+
+export const ParameterPanel: React.FC<ParameterPanelProps> = ({
+  placeholders,
+  values,
+  onChange,
+  disabled,
+}) => {
+  const update = (name: string, changes: Partial<QueryParameterValue>) => {
+    onChange({
+      ...values,
+      [name]: { ...(values[name] || EMPTY_VALUE), ...changes },
+    });
+  };
+
+  return (
+    <div className="parameter-panel" data-testid="parameter-panel">
+      {placeholders.map((name) => {
+        const parameter = values[name] || EMPTY_VALUE;
+        return (
+          <div key={name} className="parameter-row">
+            <label htmlFor={`parameter-${name}`} className="parameter-name">
+              {name}
+            </label>
+            <input
+              id={`parameter-${name}`}
+              type="text"
+              value={parameter.value}
+              placeholder={parameter.isNull ? "NULL" : "Value"}
+              onChange={(e) => update(name, { value: e.target.value })}
+              disabled={disabled || parameter.isNull}
+              data-testid="parameter-value"
+            />
+            <select
+              value={parameter.type}
+              onChange={(e) =>
+                update(name, { type: e.target.value as QueryParameterType })
+              }
+              disabled={disabled}
+              title="Parameter type"
+            >
+              {PARAMETER_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <label className="parameter-null">
+              <input
+                type="checkbox"
+                checked={!!parameter.isNull}
+                onChange={(e) => update(name, { isNull: e.target.checked })}
+                disabled={disabled}
+              />
+              NULL
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
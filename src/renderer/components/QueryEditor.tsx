@@ -1,5 +1,6 @@
 import React, {
   useEffect,
+  useMemo,
   useRef,
   useState,
   forwardRef,
@@ -11,10 +12,27 @@ import { completionKeymap, acceptCompletion } from "@codemirror/autocomplete";
 import { keymap, placeholder } from "@codemirror/view";
 import { Prec, Compartment } from "@codemirror/state";
 import { ayuLight, coolGlow } from "thememirror";
-import { DatabaseConnection, QueryTab, SchemaInfo } from "../types";
+import {
+  DatabaseConnection,
+  QueryParameterValue,
+  QueryTab,
+  SchemaInfo,
+  TimeoutSettings,
+  TransactionAction,
+  TransactionMode,
+} from "../types";
 import { QueryResults } from "./QueryResults";
-import { DataTable } from "./DataTable";
-import { VirtualDataTable } from "./VirtualDataTable";
+import { ResultSetTabs } from "./ResultSetTabs";
+import { TransactionControls } from "./TransactionControls";
+import { ParameterPanel } from "./ParameterPanel";
+import { TimeoutPanel } from "./TimeoutPanel";
+import { ExplainPlan } from "./ExplainPlan";
+import { QueryErrorPanel } from "./QueryErrorPanel";
+import { findPlaceholders } from "../utils/queryParameters";
+import { findStatementAt } from "../utils/sqlLexer";
+import { flashRange, runHighlightField } from "../utils/runHighlight";
+import { errorMarkerField, showErrorMarker } from "../utils/errorMarker";
+import { getConnectionColor, getEnvironmentLabel } from "../utils/environments";
 import { useTheme } from "../hooks/useTheme";
 import { format } from "sql-formatter";
 
@@ -43,11 +61,40 @@ const convertSchemaForCodeMirror = (
 
 interface QueryEditorProps {
   tab: QueryTab;
-  connection: DatabaseConnection;
+  connection: DatabaseConnection; // The one the tab is bound to
+  connections: DatabaseConnection[];
+  onConnectionChange: (tabId: string, connectionId: string) => void;
   onQueryChange: (tabId: string, query: string) => void;
-  onQueryExecute: (tabId: string, query: string) => void;
+  onCursorChange: (tabId: string, cursor: number) => void;
+  onQueryExecute: (tabId: string, query: string, editorOffset?: number) => void;
+  onQueryExplain: (
+    tabId: string,
+    query: string,
+    analyze: boolean,
+    editorOffset?: number,
+  ) => void;
   onQueryCancel: (tabId: string) => void;
   onSchemaChange: (tabId: string, schema: string) => void;
+  onTransactionModeChange: (tabId: string, mode: TransactionMode) => void;
+  onTransactionAction: (
+    tabId: string,
+    action: TransactionAction,
+    savepoint?: string,
+  ) => void;
+  onFetchRows: (
+    tabId: string,
+    statementIndex: number,
+    all: boolean,
+  ) => Promise<void>;
+  onCountRows: (tabId: string, statementIndex: number) => Promise<void>;
+  onParametersChange: (
+    tabId: string,
+    parameters: Record<string, QueryParameterValue>,
+  ) => void;
+  onTimeoutsChange: (
+    tabId: string,
+    timeouts: TimeoutSettings | undefined,
+  ) => void;
   schemas: SchemaInfo[];
 }
 
@@ -57,7 +104,25 @@ export interface QueryEditorRef {
 
 export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
   (
-    { tab, connection, onQueryChange, onQueryExecute, onQueryCancel, onSchemaChange, schemas },
+    {
+      tab,
+      connection,
+      connections,
+      onConnectionChange,
+      onQueryChange,
+      onCursorChange,
+      onQueryExecute,
+      onQueryExplain,
+      onQueryCancel,
+      onSchemaChange,
+      onTransactionModeChange,
+      onTransactionAction,
+      onFetchRows,
+      onCountRows,
+      onParametersChange,
+      onTimeoutsChange,
+      schemas,
+    },
     ref,
   ) => {
     const { isDark } = useTheme();
@@ -68,6 +133,7 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
     const sqlCompartmentRef = useRef<Compartment>(new Compartment());
     const themeCompartmentRef = useRef<Compartment>(new Compartment());
     const keymapCompartmentRef = useRef<Compartment>(new Compartment());
+    const [showTimeouts, setShowTimeouts] = useState(!!tab.timeouts);
 
     // Listen for custom save event triggered by keyboard shortcut
     useEffect(() => {
@@ -81,6 +147,42 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
       return () => document.removeEventListener('triggerSave', handleSaveEvent);
     }, []);
 
+    // Sends the selection if there is one, else the statement under the cursor
+    // or the whole document, and highlights what is about to run
+    const runFromEditor = (
+      tabId: string,
+      run: (tabId: string, query: string, editorOffset: number) => void,
+      currentStatement: boolean,
+    ) => {
+      const view = viewRef.current;
+      if (!view) return;
+
+      const { state } = view;
+      const selection = state.selection.main;
+      if (!selection.empty) {
+        flashRange(view, selection.from, selection.to);
+        run(
+          tabId,
+          state.sliceDoc(selection.from, selection.to),
+          selection.from,
+        );
+        return;
+      }
+
+      if (currentStatement) {
+        const statement = findStatementAt(
+          state.doc.toString(),
+          selection.head,
+        );
+        if (!statement) return;
+        flashRange(view, statement.start, statement.end);
+        run(tabId, statement.text, statement.start);
+        return;
+      }
+
+      run(tabId, state.doc.toString(), 0);
+    };
+
     // Helper function to create the keymap extension
     const createKeymapExtension = (tabId: string, executeCallback: typeof onQueryExecute) => {
       return Prec.high(
@@ -93,8 +195,14 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
           {
             key: "Mod-Enter",
             run: () => {
-              const query = viewRef.current?.state.doc.toString() || "";
-              executeCallback(tabId, query);
+              runFromEditor(tabId, executeCallback, false);
+              return true;
+            },
+          },
+          {
+            key: "Mod-Shift-Enter",
+            run: () => {
+              runFromEditor(tabId, executeCallback, true);
               return true;
             },
           },
@@ -185,8 +293,10 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
       const modKey = isMac ? '⌘' : 'Ctrl';
       const placeholderText = `Write your SQL query here or press ${modKey}+Shift+T to use AI SQL Generator...`;
 
+      // A restored tab picks up where the cursor was before the restart
       const view = new EditorView({
         doc: tab.query,
+        selection: { anchor: Math.min(tab.cursor ?? 0, tab.query.length) },
         extensions: [
           basicSetup,
           placeholder(placeholderText),
@@ -196,16 +306,22 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
             upperCaseKeywords: true,
           })),
           themeCompartmentRef.current.of(isDark ? coolGlow : ayuLight),
+          runHighlightField,
+          errorMarkerField,
           keymapCompartmentRef.current.of(createKeymapExtension(tab.id, onQueryExecute)),
           EditorView.updateListener.of((update) => {
             if (update.docChanged) {
               const newQuery = update.state.doc.toString();
               onQueryChange(tab.id, newQuery);
             }
+            if (update.selectionSet || update.docChanged) {
+              onCursorChange(tab.id, update.state.selection.main.head);
+            }
           }),
         ],
         parent: editorRef.current,
       });
+      view.dispatch({ effects: EditorView.scrollIntoView(view.state.selection.main.head, { y: 'center' }) });
 
       viewRef.current = view;
       isInitializedRef.current = true;
@@ -279,11 +395,30 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
       }
     }, [tab.query, tab.id]);
 
+    // Underline where the server says the query failed
+    useEffect(() => {
+      if (!viewRef.current) return;
+      showErrorMarker(viewRef.current, tab.error);
+    }, [tab.error, tab.id]);
+
+    const placeholders = useMemo(() => findPlaceholders(tab.query), [tab.query]);
+
     const handleExecute = () => {
-      if (viewRef.current) {
-        const query = viewRef.current.state.doc.toString();
-        onQueryExecute(tab.id, query);
-      }
+      runFromEditor(tab.id, onQueryExecute, false);
+    };
+
+    const handleExecuteStatement = () => {
+      runFromEditor(tab.id, onQueryExecute, true);
+    };
+
+    // Explain takes a single statement, so it follows the cursor like Mod-Shift-Enter
+    const handleExplain = (analyze: boolean) => {
+      runFromEditor(
+        tab.id,
+        (tabId, query, editorOffset) =>
+          onQueryExplain(tabId, query, analyze, editorOffset),
+        true,
+      );
     };
 
     const handleSaveQuery = async () => {
@@ -350,8 +485,22 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
       }
     };
 
+    const bannerColor = getConnectionColor(connection);
+
     return (
       <div className="query-editor" data-testid="query-editor">
+        {bannerColor && (
+          <div
+            className="connection-banner"
+            style={{ backgroundColor: bannerColor }}
+            data-testid="connection-banner"
+          >
+            {connection.environment && (
+              <strong>{getEnvironmentLabel(connection.environment)}</strong>
+            )}
+            <span>{connection.name}</span>
+          </div>
+        )}
         <div className="toolbar">
           <button
             onClick={handleExecute}
@@ -361,15 +510,46 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
           >
             {tab.isExecuting ? "Executing..." : "Execute (⌘+Enter)"}
           </button>
+
+          <button
+            onClick={handleExecuteStatement}
+            disabled={tab.isExecuting || !tab.query.trim()}
+            className="secondary"
+            title="Run the selection or the statement under the cursor (⌘+Shift+Enter)"
+            data-testid="run-statement-btn"
+          >
+            Run Statement
+          </button>
+
+          <button
+            onClick={() => handleExplain(false)}
+            disabled={tab.isExecuting || !tab.query.trim()}
+            className="secondary"
+            title="Show the estimated plan"
+            data-testid="explain-btn"
+          >
+            Explain
+          </button>
+
+          <button
+            onClick={() => handleExplain(true)}
+            disabled={tab.isExecuting || !tab.query.trim()}
+            className="secondary"
+            title="Run the statement and show the actual plan; changes are rolled back"
+            data-testid="explain-analyze-btn"
+          >
+            Explain Analyze
+          </button>
           
           {tab.isExecuting && (
             <button
               onClick={() => onQueryCancel(tab.id)}
+              disabled={tab.isCancelling}
               className="secondary"
               title="Cancel running query"
               data-testid="cancel-query-btn"
             >
-              Cancel
+              {tab.isCancelling ? "Cancelling..." : "Cancel"}
             </button>
           )}
           
@@ -414,6 +594,24 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
             Format
           </button>
 
+          <div className="schema-selector">
+            <label htmlFor={`connection-select-${tab.id}`}>Connection:</label>
+            <select
+              id={`connection-select-${tab.id}`}
+              value={tab.connectionId}
+              onChange={(e) => onConnectionChange(tab.id, e.target.value)}
+              disabled={tab.isExecuting}
+              data-testid="tab-connection-select"
+            >
+              {connections.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                  {option.readOnly && " (read-only)"}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="schema-selector">
             <label htmlFor={`schema-select-${tab.id}`}>Schema:</label>
             <select
@@ -422,6 +620,11 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
               onChange={(e) => onSchemaChange(tab.id, e.target.value)}
               disabled={tab.isExecuting}
             >
+              {/* Until a restored tab's connection opens, its schemas are unknown */}
+              {tab.selectedSchema &&
+                !schemas.some((schema) => schema.name === tab.selectedSchema) && (
+                  <option value={tab.selectedSchema}>{tab.selectedSchema}</option>
+                )}
               {schemas.map((schema) => (
                 <option key={schema.name} value={schema.name}>
                   {schema.name}
@@ -430,9 +633,40 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
             </select>
           </div>
 
-          <span className="toolbar-info">Connected to: {connection.name}</span>
+          <TransactionControls
+            tab={tab}
+            onModeChange={onTransactionModeChange}
+            onAction={onTransactionAction}
+          />
+
+          <button
+            onClick={() => setShowTimeouts(!showTimeouts)}
+            className="secondary"
+            title="Override the connection's timeouts for this tab"
+            data-testid="timeouts-btn"
+          >
+            Timeouts{tab.timeouts && " (tab)"}
+          </button>
         </div>
 
+        {showTimeouts && (
+          <TimeoutPanel
+            timeouts={tab.timeouts || {}}
+            defaults={connection.timeouts || {}}
+            onChange={(timeouts) => onTimeoutsChange(tab.id, timeouts)}
+            disabled={tab.isExecuting}
+          />
+        )}
+
+        {placeholders.length > 0 && (
+          <ParameterPanel
+            placeholders={placeholders}
+            values={tab.parameters || {}}
+            onChange={(parameters) => onParametersChange(tab.id, parameters)}
+            disabled={tab.isExecuting}
+          />
+        )}
+
         <div className="editor-container" data-testid="query-input">
           <div
             ref={editorRef}
@@ -443,23 +677,27 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
         </div>
 
         <div className="results-section" data-testid="query-results">
-          {tab.error && (
-            <div className="error-banner" data-testid="query-error">
-              <strong>Error:</strong> {tab.error}
-            </div>
-          )}
+          {tab.error && <QueryErrorPanel error={tab.error} query={tab.query} />}
 
-          {tab.result ? (
-            tab.result.rows.length > 1000 ? (
-              <VirtualDataTable result={tab.result} />
-            ) : (
-              <DataTable result={tab.result} />
-            )
+          {tab.explain ? (
+            <ExplainPlan explain={tab.explain} />
+          ) : tab.result ? (
+            <ResultSetTabs
+              result={tab.result}
+              runId={tab.runCount ?? 0}
+              onFetchRows={(statementIndex, all) =>
+                onFetchRows(tab.id, statementIndex, all)
+              }
+              onCountRows={(statementIndex) =>
+                onCountRows(tab.id, statementIndex)
+              }
+            />
           ) : !tab.error ? (
             <QueryResults
               result={tab.result}
               error={tab.error}
               isExecuting={tab.isExecuting}
+              lastRun={tab.lastRun}
             />
           ) : null}
         </div>
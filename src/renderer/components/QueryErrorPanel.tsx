@@ -0,0 +1,83 @@
+import React from "react";
+import { QueryError } from "../types";
+import { TIMEOUT_FIELDS } from "../utils/timeouts";
+import { ServerMessages } from "./ServerMessages";
+
+interface QueryErrorPanelProps {
+  error: QueryError;
+  query: string; // Editor text that editorOffset points into
+}
+
+const getLineAndColumn = (
+  text: string,
+  offset: number,
+): { line: number; column: number } => {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+export const QueryErrorPanel: React.FC<QueryErrorPanelProps> = ({
+  error,
+  query,
+}) => {
+  const location =
+    error.editorOffset !== undefined
+      ? getLineAndColumn(query, error.editorOffset)
+      : undefined;
+  const timeout = TIMEOUT_FIELDS.find((field) => field.kind === error.timeout);
+
+  const details: [string, string | undefined][] = [
+    ["SQLSTATE", error.code],
+    ["Setting", timeout?.setting],
+    ["Detail", error.detail],
+    ["Hint", error.hint],
+    [
+      "Position",
+      location
+        ? `line ${location.line}, column ${location.column}${
+            error.statementIndex !== undefined
+              ? ` (statement ${error.statementIndex + 1})`
+              : ""
+          }`
+        : undefined,
+    ],
+    ["Where", error.where],
+    ["Schema", error.schema],
+    ["Table", error.table],
+    ["Column", error.column],
+    ["Data type", error.dataType],
+    ["Constraint", error.constraint],
+    [
+      "Internal query",
+      error.internalQuery &&
+        (error.internalPosition !== undefined
+          ? `${error.internalQuery} (at character ${error.internalPosition})`
+          : error.internalQuery),
+    ],
+  ];
+
+  return (
+    <>
+      <div className="error-banner" data-testid="query-error">
+        <strong>
+          {timeout ? `${timeout.label} timeout` : error.severity || "Error"}:
+        </strong>{" "}
+        {error.message}
+        {details.some(([, value]) => value) && (
+          <dl className="error-details">
+            {details
+              .filter(([, value]) => value)
+              .map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt>{label}</dt>
+                  <dd>{value}</dd>
+                </React.Fragment>
+              ))}
+          </dl>
+        )}
+      </div>
+      {/* What the script printed before it failed, e.g. RAISE NOTICE output */}
+      {error.notices && <ServerMessages notices={error.notices} />}
+    </>
+  );
+};
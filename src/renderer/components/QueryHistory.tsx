@@ -1,32 +1,107 @@
-import React, { useState, useMemo } from 'react';
-import { QueryLogEntry } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { DatabaseConnection, QueryHistoryFilter, QueryLogEntry, QueryParameterValue } from '../types';
+import { extractErrorMessage } from '../utils/errorHandling';
+
+const PAGE_SIZE = 100;
 
 interface QueryHistoryProps {
-  queryLogs: QueryLogEntry[];
+  connections: DatabaseConnection[];
+  version: number; // Changes when a query was added, so that the list searches again
   onClose: () => void;
-  onRerunQuery: (query: string, schema?: string) => void;
+  onRerunQuery: (query: string, schema?: string, parameters?: Record<string, QueryParameterValue>, connectionId?: string) => void;
 }
 
+// Dates from the date inputs are local days; the end day is included
+const startOfDay = (date: string) => new Date(`${date}T00:00`);
+
 export const QueryHistory: React.FC<QueryHistoryProps> = ({ 
-  queryLogs, 
+  connections,
+  version,
   onClose, 
   onRerunQuery 
 }) => {
   const [filterText, setFilterText] = useState('');
-  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
-
-  const filteredLogs = useMemo(() => {
-    return queryLogs.filter(log => {
-      if (showOnlyErrors && log.success) return false;
-      if (filterText) {
-        const searchText = filterText.toLowerCase();
-        return log.query.toLowerCase().includes(searchText) ||
-               log.connectionName.toLowerCase().includes(searchText) ||
-               (log.schema && log.schema.toLowerCase().includes(searchText));
+  const [connectionId, setConnectionId] = useState('');
+  const [schema, setSchema] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [minDuration, setMinDuration] = useState('');
+  const [status, setStatus] = useState<'' | 'success' | 'error'>('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [logs, setLogs] = useState<QueryLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const filter = useMemo((): QueryHistoryFilter => {
+    const to = toDate ? startOfDay(toDate) : undefined;
+    to?.setDate(to.getDate() + 1);
+    return {
+      text: filterText || undefined,
+      connectionId: connectionId || undefined,
+      schema: schema.trim() || undefined,
+      from: fromDate ? startOfDay(fromDate).toISOString() : undefined,
+      to: to?.toISOString(),
+      minDuration: minDuration ? Number(minDuration) : undefined,
+      status: status || undefined,
+      starred: starredOnly || undefined,
+    };
+  }, [filterText, connectionId, schema, fromDate, toDate, minDuration, status, starredOnly]);
+
+  // Another filter starts over at the first page
+  useEffect(() => {
+    setLimit(PAGE_SIZE);
+  }, [filter]);
+
+  // Waits for typing to pause; answers to older searches are dropped
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const page = await window.electronAPI.history.search({ ...filter, limit });
+        if (!cancelled) {
+          setLogs(page.entries);
+          setTotal(page.total);
+        }
+      } catch (error) {
+        console.error('Error searching query history:', error);
       }
-      return true;
-    });
-  }, [queryLogs, filterText, showOnlyErrors]);
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filter, limit, version, reloadCount]);
+
+  const toggleStar = async (log: QueryLogEntry) => {
+    try {
+      await window.electronAPI.history.setStarred(log.id, !log.starred);
+      setLogs((prev) => prev.map((entry) =>
+        entry.id === log.id ? { ...entry, starred: !log.starred } : entry
+      ));
+    } catch (error) {
+      alert(`Starring the query failed: ${extractErrorMessage(error)}`);
+    }
+  };
+
+  const exportHistory = async () => {
+    try {
+      await window.electronAPI.history.exportEntries(filter);
+    } catch (error) {
+      alert(`Exporting the history failed: ${extractErrorMessage(error)}`);
+    }
+  };
+
+  const importHistory = async () => {
+    try {
+      const added = await window.electronAPI.history.importEntries();
+      if (added === null) return;
+      alert(`Imported ${added} ${added === 1 ? 'query' : 'queries'}. Queries already in the history were skipped.`);
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      alert(`Importing the history failed: ${extractErrorMessage(error)}`);
+    }
+  };
 
   const formatDuration = (duration?: number) => {
     if (!duration) return '-';
@@ -54,6 +129,11 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
   };
 
+  const formatParameter = (name: string, parameter: QueryParameterValue) => {
+    const value = parameter.isNull ? 'NULL' : `'${parameter.value}'`;
+    return parameter.type === 'auto' ? `${name} = ${value}` : `${name} = ${value}::${parameter.type}`;
+  };
+
   const truncateQuery = (query: string, maxLength: number = 200) => {
     const singleLine = query.replace(/\s+/g, ' ').trim();
     if (singleLine.length <= maxLength) return singleLine;
@@ -64,41 +144,135 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
     <div className="query-history-panel" data-testid="history-section">
       <div className="query-history-header">
         <h3>Query History</h3>
-        <button className="close-btn" onClick={onClose}>×</button>
+        <div className="query-history-actions">
+          <button
+            className="rerun-btn"
+            onClick={importHistory}
+            title="Add the queries of an exported history"
+            data-testid="history-import-btn"
+          >
+            Import
+          </button>
+          <button
+            className="rerun-btn"
+            onClick={exportHistory}
+            title="Save the queries matching the filters to a file"
+            data-testid="history-export-btn"
+          >
+            Export
+          </button>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
       </div>
 
       <div className="query-history-filters">
         <input
           type="text"
-          placeholder="Filter queries..."
+          placeholder="Search queries..."
           value={filterText}
           onChange={(e) => setFilterText(e.target.value)}
           className="filter-input"
           data-testid="history-filter-input"
         />
+        <div className="history-filter-row">
+          <select
+            value={connectionId}
+            onChange={(e) => setConnectionId(e.target.value)}
+            data-testid="history-connection-filter"
+          >
+            <option value="">All connections</option>
+            {connections.map((connection) => (
+              <option key={connection.id} value={connection.id}>
+                {connection.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Schema"
+            value={schema}
+            onChange={(e) => setSchema(e.target.value)}
+            data-testid="history-schema-filter"
+          />
+        </div>
+        <div className="history-filter-row">
+          <label>
+            From
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              data-testid="history-from-filter"
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              data-testid="history-to-filter"
+            />
+          </label>
+        </div>
+        <div className="history-filter-row">
+          <label>
+            Slower than
+            <input
+              type="number"
+              min="0"
+              placeholder="ms"
+              value={minDuration}
+              onChange={(e) => setMinDuration(e.target.value)}
+              data-testid="history-duration-filter"
+            />
+          </label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as typeof status)}
+            data-testid="history-status-filter"
+          >
+            <option value="">Succeeded or failed</option>
+            <option value="success">Succeeded</option>
+            <option value="error">Failed</option>
+          </select>
+        </div>
         <label className="error-filter">
           <input
             type="checkbox"
-            checked={showOnlyErrors}
-            onChange={(e) => setShowOnlyErrors(e.target.checked)}
+            checked={starredOnly}
+            onChange={(e) => setStarredOnly(e.target.checked)}
+            data-testid="history-starred-filter"
           />
-          Show errors only
+          Starred only
         </label>
       </div>
 
+      <div className="history-total" data-testid="history-total">
+        {total === 1 ? '1 query' : `${total} queries`}
+      </div>
+
       <div className="query-history-list">
-        {filteredLogs.length === 0 ? (
+        {logs.length === 0 ? (
           <div className="empty-history">
             <p>No queries found</p>
           </div>
         ) : (
-          filteredLogs.map((log) => (
+          logs.map((log) => (
             <div 
               key={log.id} 
               className={`query-log-entry ${log.success ? 'success' : 'error'}`}
               data-testid="history-item"
             >
               <div className="log-header">
+                <button
+                  className={`star-btn ${log.starred ? 'starred' : ''}`}
+                  onClick={() => toggleStar(log)}
+                  title={log.starred ? 'Unstar' : 'Star to keep this query for good'}
+                  data-testid="history-star-btn"
+                >
+                  {log.starred ? '★' : '☆'}
+                </button>
                 <span className="log-timestamp">{formatTimestamp(log.timestamp)}</span>
                 <span className="log-connection">{log.connectionName}</span>
                 {log.schema && <span className="log-schema">{log.schema}</span>}
@@ -111,6 +285,14 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
               <div className="log-query">
                 <code>{truncateQuery(log.query)}</code>
               </div>
+
+              {log.parameters && (
+                <div className="log-parameters" data-testid="history-parameters">
+                  {Object.entries(log.parameters).map(([name, parameter]) => (
+                    <code key={name}>{formatParameter(name, parameter)}</code>
+                  ))}
+                </div>
+              )}
               
               {log.error && (
                 <div className="log-error">
@@ -121,7 +303,7 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
               <div className="log-actions">
                 <button 
                   className="rerun-btn"
-                  onClick={() => onRerunQuery(log.query, log.schema)}
+                  onClick={() => onRerunQuery(log.query, log.schema, log.parameters, log.connectionId)}
                   title="Run this query again"
                 >
                   Rerun
@@ -130,6 +312,15 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
             </div>
           ))
         )}
+        {logs.length < total && (
+          <button
+            className="rerun-btn history-more-btn"
+            onClick={() => setLimit(limit + PAGE_SIZE)}
+            data-testid="history-more-btn"
+          >
+            Show more
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,17 +1,24 @@
 import React from "react";
-import { QueryResult } from "../types";
+import { QueryResult, RunSummary } from "../types";
+import { useDisplaySettings } from "../hooks/useDisplaySettings";
+import { getTypeHandler } from "../utils/typeRegistry";
+import { CellValue } from "./CellValue";
 
 interface QueryResultsProps {
   result?: QueryResult;
   error?: string;
   isExecuting: boolean;
+  lastRun?: RunSummary; // Shown until the tab runs again after a restart
 }
 
 export const QueryResults: React.FC<QueryResultsProps> = ({
   result,
   error,
   isExecuting,
+  lastRun,
 }) => {
+  const { settings } = useDisplaySettings();
+
   if (isExecuting) {
     return (
       <div className="results-container">
@@ -32,6 +39,24 @@ export const QueryResults: React.FC<QueryResultsProps> = ({
     );
   }
 
+  if (!result && lastRun) {
+    return (
+      <div className="results-container">
+        <div className="empty-state" data-testid="restored-summary">
+          <div>
+            {lastRun.error
+              ? `Failed before the restart: ${lastRun.error}`
+              : `Returned ${lastRun.rowCount ?? 0} rows in ${lastRun.duration}ms before the restart`}
+          </div>
+          <div style={{ fontSize: "12px", color: "#999", marginTop: "5px" }}>
+            Ran {new Date(lastRun.ranAt).toLocaleString()}. Execute the query
+            again to see its results.
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!result) {
     return (
       <div className="results-container">
@@ -69,12 +94,16 @@ export const QueryResults: React.FC<QueryResultsProps> = ({
             {rows.map((row, rowIndex) => (
               <tr key={rowIndex} data-testid="result-row">
                 {fields.map((field, fieldIndex) => (
-                  <td key={fieldIndex} data-testid="result-cell">
-                    {row[field.name] === null ? (
-                      <span className="null-value">NULL</span>
-                    ) : (
-                      String(row[field.name])
-                    )}
+                  <td
+                    key={fieldIndex}
+                    data-testid="result-cell"
+                    style={{ textAlign: getTypeHandler(field).align }}
+                  >
+                    <CellValue
+                      value={row[field.name]}
+                      field={field}
+                      settings={settings}
+                    />
                   </td>
                 ))}
               </tr>
@@ -1,12 +1,16 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { QueryResult } from '../types';
+import { StatementResult } from '../types';
 import { exportToCSV, exportToJSON } from '../utils/export';
+import { getTypeHandler } from '../utils/typeRegistry';
+import { useDisplaySettings } from '../hooks/useDisplaySettings';
+import { CellValue } from './CellValue';
 
 interface ResizableTableProps {
-  result: QueryResult;
+  result: StatementResult;
 }
 
 export const ResizableTable: React.FC<ResizableTableProps> = ({ result }) => {
+  const { settings } = useDisplaySettings();
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
   const tableRef = useRef<HTMLTableElement>(null);
@@ -67,11 +71,11 @@ export const ResizableTable: React.FC<ResizableTableProps> = ({ result }) => {
   const { rows, fields, rowCount, duration } = result;
 
   const handleExportCSV = () => {
-    exportToCSV(result, `query_results_${new Date().toISOString().split('T')[0]}.csv`);
+    exportToCSV(result, `query_results_${new Date().toISOString().split('T')[0]}.csv`, settings);
   };
 
   const handleExportJSON = () => {
-    exportToJSON(result, `query_results_${new Date().toISOString().split('T')[0]}.json`);
+    exportToJSON(result, `query_results_${new Date().toISOString().split('T')[0]}.json`, settings);
   };
 
   return (
@@ -115,17 +119,12 @@ export const ResizableTable: React.FC<ResizableTableProps> = ({ result }) => {
                 {fields.map((field, fieldIndex) => (
                   <td 
                     key={fieldIndex}
-                    style={{ width: columnWidths[field.name] || 150 }}
+                    style={{
+                      width: columnWidths[field.name] || 150,
+                      textAlign: getTypeHandler(field).align
+                    }}
                   >
-                    {row[field.name] === null ? (
-                      <span className="null-value">NULL</span>
-                    ) : typeof row[field.name] === 'object' ? (
-                      <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>
-                        {JSON.stringify(row[field.name])}
-                      </span>
-                    ) : (
-                      String(row[field.name])
-                    )}
+                    <CellValue value={row[field.name]} field={field} settings={settings} />
                   </td>
                 ))}
               </tr>
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { QueryResult, StatementResult } from "../types";
+import { DataTable } from "./DataTable";
+import { VirtualDataTable } from "./VirtualDataTable";
+import { ServerMessages } from "./ServerMessages";
+
+interface ResultSetTabsProps {
+  result: QueryResult;
+  runId: number; // Changes when a new run replaces the result
+  onFetchRows?: (statementIndex: number, all: boolean) => Promise<void>;
+  onCountRows?: (statementIndex: number) => Promise<void>;
+}
+
+// Selects the Messages tab instead of a statement
+const MESSAGES_TAB = -1;
+
+// Prefer the last statement that returned rows, like the single-result view
+// used to, then the messages of scripts like DO blocks that only raise notices
+const getDefaultIndex = (
+  results: StatementResult[],
+  hasNotices: boolean,
+): number => {
+  for (let i = results.length - 1; i >= 0; i--) {
+    if (results[i].fields.length > 0) return i;
+  }
+  return hasNotices ? MESSAGES_TAB : Math.max(0, results.length - 1);
+};
+
+const getResultLabel = (statement: StatementResult, index: number): string => {
+  const command = statement.command || "Statement";
+  return statement.fields.length > 0
+    ? `${index + 1}: ${command} (${statement.rowCount}${statement.hasMore ? "+" : ""})`
+    : `${index + 1}: ${command}`;
+};
+
+export const ResultSetTabs: React.FC<ResultSetTabsProps> = ({
+  result,
+  runId,
+  onFetchRows,
+  onCountRows,
+}) => {
+  const results: StatementResult[] =
+    result.results && result.results.length > 0
+      ? result.results
+      : [{ ...result, command: "" }];
+  const notices = result.notices || [];
+
+  const [activeIndex, setActiveIndex] = useState(() =>
+    getDefaultIndex(results, notices.length > 0),
+  );
+
+  // Reset the selection whenever a new run replaces the results, but not
+  // when paging appends fetched rows to them
+  const [currentRunId, setCurrentRunId] = useState(runId);
+  if (runId !== currentRunId) {
+    setCurrentRunId(runId);
+    setActiveIndex(getDefaultIndex(results, notices.length > 0));
+  }
+
+  const activeStatementIndex = Math.min(
+    Math.max(0, activeIndex),
+    results.length - 1,
+  );
+  const active = results[activeStatementIndex];
+
+  return (
+    <div className="result-set-tabs" data-testid="result-set-tabs">
+      {(results.length > 1 || notices.length > 0) && (
+        <div className="result-tab-bar">
+          {results.map((statement, index) => (
+            <button
+              key={index}
+              className={`result-tab ${index === activeIndex ? "active" : ""}`}
+              onClick={() => setActiveIndex(index)}
+              title={`${statement.command} • ${statement.rowCount} rows • ${statement.duration}ms`}
+              data-testid="result-tab"
+            >
+              {getResultLabel(statement, index)}
+            </button>
+          ))}
+          {notices.length > 0 && (
+            <button
+              className={`result-tab ${activeIndex === MESSAGES_TAB ? "active" : ""}`}
+              onClick={() => setActiveIndex(MESSAGES_TAB)}
+              title="Notices and warnings from the server"
+              data-testid="messages-tab"
+            >
+              Messages ({notices.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {activeIndex === MESSAGES_TAB ? (
+        <ServerMessages notices={notices} />
+      ) : active.fields.length === 0 ? (
+        <div className="results-container">
+          <div className="results-header">
+            <div className="results-info" data-testid="results-info">
+              {active.command || "Statement"} completed • {active.rowCount} rows
+              affected in {active.duration}ms
+            </div>
+          </div>
+        </div>
+      ) : active.hasMore || active.rows.length > 1000 ? (
+        <VirtualDataTable
+          key={activeIndex}
+          result={active}
+          onLoadMore={
+            onFetchRows && ((all) => onFetchRows(activeStatementIndex, all))
+          }
+          onCountRows={onCountRows && (() => onCountRows(activeStatementIndex))}
+        />
+      ) : (
+        <DataTable key={activeIndex} result={active} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from "react";
+import { ServerNotice } from "../types";
+import { formatClockTime } from "../utils/clock";
+
+interface ServerMessagesProps {
+  notices: ServerNotice[];
+}
+
+// NOTICE, WARNING, INFO, ... output of a run, such as RAISE NOTICE in PL/pgSQL
+export const ServerMessages: React.FC<ServerMessagesProps> = ({ notices }) => (
+  <div className="server-messages" data-testid="server-messages">
+    <table>
+      <thead>
+        <tr>
+          <th>Time</th>
+          <th>Severity</th>
+          <th>Statement</th>
+          <th>Message</th>
+        </tr>
+      </thead>
+      <tbody>
+        {notices.map((notice, index) => (
+          <tr key={index} data-testid="server-message">
+            <td className="notice-time">{formatClockTime(notice.timestamp)}</td>
+            <td>
+              <span
+                className={`notice-severity ${notice.severity.toLowerCase()}`}
+              >
+                {notice.severity}
+              </span>
+            </td>
+            <td>
+              {notice.statementIndex !== undefined
+                ? notice.statementIndex + 1
+                : ""}
+            </td>
+            <td>
+              {notice.message}
+              {notice.detail && (
+                <div className="notice-extra">Detail: {notice.detail}</div>
+              )}
+              {notice.hint && (
+                <div className="notice-extra">Hint: {notice.hint}</div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
@@ -0,0 +1,186 @@
+import React, { useCallback, useState } from "react";
+import { BackendSignal, SessionActivity } from "../types";
+import { useDatabase } from "../hooks/useDatabase";
+import { usePolling } from "../hooks/usePolling";
+import { extractErrorMessage } from "../utils/errorHandling";
+import { confirmSignal, formatElapsed, getStateClass } from "../utils/sessions";
+
+interface SessionActivityMonitorProps {
+  connectionId: string;
+  onClose: () => void;
+}
+
+const REFRESH_INTERVAL = 2000;
+
+const formatClient = (session: SessionActivity): string => {
+  if (session.clientAddress === null) {
+    return session.backendType === "client backend" ? "local" : "";
+  }
+  return session.clientPort !== null && session.clientPort !== -1
+    ? `${session.clientAddress}:${session.clientPort}`
+    : session.clientAddress;
+};
+
+// Live pg_stat_activity for the active connection's server
+export const SessionActivityMonitor: React.FC<SessionActivityMonitorProps> = ({
+  connectionId,
+  onClose,
+}) => {
+  const { getActivity, signalSession } = useDatabase();
+  const [sessions, setSessions] = useState<SessionActivity[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyActive, setOnlyActive] = useState(true);
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await getActivity(connectionId));
+      setError(null);
+    } catch (error) {
+      setError(extractErrorMessage(error));
+    }
+  }, [connectionId, getActivity]);
+
+  usePolling(refresh, REFRESH_INTERVAL, autoRefresh);
+
+  const handleSignal = async (
+    session: SessionActivity,
+    signal: BackendSignal,
+  ) => {
+    if (!confirmSignal(session.pid, signal)) return;
+
+    try {
+      if (!(await signalSession(connectionId, session.pid, signal))) {
+        alert(
+          `Backend ${session.pid} could not be signalled; it may have exited.`,
+        );
+      }
+    } catch (error) {
+      alert(extractErrorMessage(error));
+    }
+    await refresh();
+  };
+
+  const visibleSessions = sessions.filter(
+    (session) =>
+      (!onlyActive || session.state !== "idle") &&
+      (!onlyMine || session.isCurrentUser),
+  );
+
+  return (
+    <div
+      className="query-history-panel activity-monitor"
+      data-testid="activity-monitor"
+    >
+      <div className="query-history-header">
+        <h3>Session Activity</h3>
+        <button className="close-btn" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div className="query-history-filters activity-filters">
+        <label className="error-filter">
+          <input
+            type="checkbox"
+            checked={onlyActive}
+            onChange={(e) => setOnlyActive(e.target.checked)}
+            data-testid="activity-only-active"
+          />
+          Hide idle sessions
+        </label>
+        <label className="error-filter">
+          <input
+            type="checkbox"
+            checked={onlyMine}
+            onChange={(e) => setOnlyMine(e.target.checked)}
+            data-testid="activity-only-mine"
+          />
+          Only my role
+        </label>
+        <label className="error-filter">
+          <input
+            type="checkbox"
+            checked={autoRefresh}
+            onChange={(e) => setAutoRefresh(e.target.checked)}
+          />
+          Refresh every {REFRESH_INTERVAL / 1000}s
+        </label>
+        {error && <div className="log-error">{error}</div>}
+      </div>
+
+      <div className="query-history-list">
+        {visibleSessions.length === 0 ? (
+          <div className="empty-history">
+            <p>No sessions found</p>
+          </div>
+        ) : (
+          visibleSessions.map((session) => (
+            <div
+              key={session.pid}
+              className="query-log-entry"
+              data-testid="activity-item"
+            >
+              <div className="log-header">
+                <span className="log-timestamp">{session.pid}</span>
+                <span
+                  className={`session-state ${getStateClass(session.state)}`}
+                >
+                  {session.state}
+                </span>
+                <span className="log-connection">
+                  {session.username || session.backendType}
+                  {session.database && `@${session.database}`}
+                </span>
+                <span
+                  className="log-duration"
+                  title={`Transaction: ${formatElapsed(session.transactionDuration)}`}
+                >
+                  {formatElapsed(session.queryDuration)}
+                </span>
+              </div>
+
+              <div className="session-meta">
+                {[
+                  session.applicationName,
+                  formatClient(session),
+                  session.waitEventType &&
+                    `Waiting on ${session.waitEventType}: ${session.waitEvent}`,
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </div>
+
+              {session.query && (
+                <div className="log-query">
+                  <code>{session.query}</code>
+                </div>
+              )}
+
+              <div className="log-actions">
+                <button
+                  className="rerun-btn"
+                  onClick={() => handleSignal(session, "cancel")}
+                  disabled={session.state !== "active"}
+                  title="Cancel the running query (pg_cancel_backend)"
+                  data-testid="activity-cancel-btn"
+                >
+                  Cancel
+                </button>
+                <button
+                  className="rerun-btn danger"
+                  onClick={() => handleSignal(session, "terminate")}
+                  title="Close the session (pg_terminate_backend)"
+                  data-testid="activity-terminate-btn"
+                >
+                  Terminate
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
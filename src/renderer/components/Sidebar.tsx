@@ -1,29 +1,99 @@
-import React, { useState, useRef, useCallback } from "react";
-import { DatabaseConnection, SchemaInfo } from "../types";
+import React, { useState, useRef, useCallback, useEffect } from "react";
+import { ConnectionHealth, DatabaseConnection, SchemaInfo } from "../types";
 import { LoadingSpinner } from "./LoadingSpinner";
+import { buildConnectionUri } from "../utils/connectionUri";
+import { getConnectionColor, getEnvironmentLabel } from "../utils/environments";
 
 interface SidebarProps {
   connections: DatabaseConnection[];
   activeConnectionId: string | null;
-  schemas: SchemaInfo[];
+  openConnectionIds: string[];
+  schemas: Record<string, SchemaInfo[]>; // By connection
   connectionErrors?: Record<string, string>;
   connectingConnectionIds?: Set<string>;
+  connectionHealth?: Record<string, ConnectionHealth>; // Open connections only
   loadingTableSchemas?: Set<string>;
+  width: number;
+  onWidthChange: (width: number) => void;
   onConnectionSelect: (id: string) => void;
+  onConnectionClose: (id: string) => void;
   onConnectionRemove: (id: string) => void;
   onConnectionEdit: (connection: DatabaseConnection) => void;
   onNewConnection: () => void;
-  onTableSelect: (schema: string, table: string) => void;
+  onTableSelect: (connectionId: string, schema: string, table: string) => void;
 }
 
+const describeHealth = (health: ConnectionHealth): string => {
+  if (health.status === "connected") return "Connected";
+  const retry = health.nextAttemptAt
+    ? `, retrying in ${Math.max(0, Math.ceil((health.nextAttemptAt - Date.now()) / 1000))}s`
+    : "";
+  return `Connection lost: ${health.error}. Reconnecting (attempt ${health.attempt}${retry})`;
+};
+
+const ConnectionStatusDot: React.FC<{ health?: ConnectionHealth }> = ({
+  health,
+}) =>
+  health ? (
+    <span
+      className={`connection-status ${health.status}`}
+      title={describeHealth(health)}
+      data-testid="connection-status"
+      data-status={health.status}
+    />
+  ) : null;
+
+const EnvironmentBadge: React.FC<{ connection: DatabaseConnection }> = ({
+  connection,
+}) =>
+  connection.environment ? (
+    <span
+      className="connection-env-badge"
+      style={{ backgroundColor: getConnectionColor(connection) }}
+      title={getEnvironmentLabel(connection.environment)}
+      data-testid="connection-env-badge"
+    >
+      {connection.environment}
+    </span>
+  ) : null;
+
+// Ungrouped connections first, then one group per folder by name
+const groupByFolder = (
+  connections: DatabaseConnection[],
+): { folder: string | null; members: DatabaseConnection[] }[] => {
+  const folders = new Map<string, DatabaseConnection[]>();
+  const ungrouped: DatabaseConnection[] = [];
+  for (const connection of connections) {
+    if (connection.folder) {
+      folders.set(connection.folder, [
+        ...(folders.get(connection.folder) ?? []),
+        connection,
+      ]);
+    } else {
+      ungrouped.push(connection);
+    }
+  }
+  return [
+    { folder: null, members: ungrouped },
+    ...[...folders.keys()]
+      .sort((a, b) => a.localeCompare(b))
+      .map((folder) => ({ folder, members: folders.get(folder)! })),
+  ];
+};
+
 export const Sidebar: React.FC<SidebarProps> = ({
   connections,
   activeConnectionId,
+  openConnectionIds,
   schemas,
   connectionErrors = {},
   connectingConnectionIds = new Set(),
+  connectionHealth = {},
   loadingTableSchemas = new Set(),
+  width,
+  onWidthChange,
   onConnectionSelect,
+  onConnectionClose,
   onConnectionRemove,
   onConnectionEdit,
   onNewConnection,
@@ -33,8 +103,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const [expandedSchemas, setExpandedSchemas] = useState<Set<string>>(
     new Set(),
   );
-  const [sidebarWidth, setSidebarWidth] = useState(280);
   const [connectionsExpanded, setConnectionsExpanded] = useState(true);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(
+    new Set(),
+  );
+  const [collapsedSchemaTrees, setCollapsedSchemaTrees] = useState<Set<string>>(
+    new Set(),
+  );
+  const [contextMenu, setContextMenu] = useState<{
+    connection: DatabaseConnection;
+    x: number;
+    y: number;
+  } | null>(null);
   const sidebarRef = useRef<HTMLDivElement>(null);
   const isResizing = useRef(false);
 
@@ -44,7 +124,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       isResizing.current = true;
 
       const startX = e.clientX;
-      const startWidth = sidebarWidth;
+      const startWidth = width;
 
       const handleMouseMove = (e: MouseEvent) => {
         if (!isResizing.current) return;
@@ -53,7 +133,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
           220,
           Math.min(400, startWidth + (e.clientX - startX)),
         );
-        setSidebarWidth(newWidth);
+        onWidthChange(newWidth);
       };
 
       const handleMouseUp = () => {
@@ -69,27 +149,63 @@ export const Sidebar: React.FC<SidebarProps> = ({
       document.body.style.cursor = "ew-resize";
       document.body.style.userSelect = "none";
     },
-    [sidebarWidth],
+    [width, onWidthChange],
   );
 
-  const toggleSchema = (schemaName: string) => {
+  // Any click, including one on a menu item, closes the context menu
+  useEffect(() => {
+    if (!contextMenu) return;
+
+    const close = () => setContextMenu(null);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+    document.addEventListener("click", close);
+    document.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("blur", close);
+    return () => {
+      document.removeEventListener("click", close);
+      document.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("blur", close);
+    };
+  }, [contextMenu]);
+
+  // Keyed by connection and schema, since every open connection has a public
+  const toggleSchema = (schemaKey: string) => {
     setExpandedSchemas((prev) => {
       const newSet = new Set(prev);
-      if (newSet.has(schemaName)) {
-        newSet.delete(schemaName);
+      if (newSet.has(schemaKey)) {
+        newSet.delete(schemaKey);
       } else {
-        newSet.add(schemaName);
+        newSet.add(schemaKey);
       }
       return newSet;
     });
   };
 
-  const filteredSchemas = schemas.filter(
-    (schema) =>
-      schema.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      schema.tables.some((table) =>
-        table.name.toLowerCase().includes(searchTerm.toLowerCase()),
-      ),
+  const toggleSchemaTree = (connectionId: string) => {
+    setCollapsedSchemaTrees((prev) => {
+      const next = new Set(prev);
+      if (next.has(connectionId)) {
+        next.delete(connectionId);
+      } else {
+        next.add(connectionId);
+      }
+      return next;
+    });
+  };
+
+  const filterSchemas = (schemas: SchemaInfo[]) =>
+    schemas.filter(
+      (schema) =>
+        schema.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        schema.tables.some((table) =>
+          table.name.toLowerCase().includes(searchTerm.toLowerCase()),
+        ),
+    );
+
+  const openConnections = connections.filter((connection) =>
+    openConnectionIds.includes(connection.id),
   );
 
   const filteredTables = (schema: SchemaInfo) => {
@@ -103,11 +219,209 @@ export const Sidebar: React.FC<SidebarProps> = ({
     );
   };
 
+  const toggleFolder = (folder: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(folder)) {
+        next.delete(folder);
+      } else {
+        next.add(folder);
+      }
+      return next;
+    });
+  };
+
+  const renderConnection = (connection: DatabaseConnection) => (
+    <div
+      key={connection.id}
+      className={`connection-item ${activeConnectionId === connection.id ? "active" : ""} ${getConnectionColor(connection) ? "labelled" : ""}`}
+      onClick={() =>
+        connectingConnectionIds.size > 0
+          ? undefined
+          : onConnectionSelect(connection.id)
+      }
+      style={{
+        cursor: connectingConnectionIds.size > 0 ? "not-allowed" : "pointer",
+        opacity: connectingConnectionIds.size > 0 ? 0.6 : 1,
+        borderLeftColor: getConnectionColor(connection),
+      }}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        setContextMenu({ connection, x: e.clientX, y: e.clientY });
+      }}
+      data-testid="connection-item"
+      data-connection-name={connection.name}
+    >
+      <div className="connection-info">
+        <div className="connection-header">
+          <ConnectionStatusDot health={connectionHealth[connection.id]} />
+          <div className="connection-name">{connection.name}</div>
+          <EnvironmentBadge connection={connection} />
+          {connectingConnectionIds.has(connection.id) && (
+            <div className="connecting-indicator">
+              <LoadingSpinner size="small" text="Connecting..." />
+            </div>
+          )}
+        </div>
+        <div className="connection-details">
+          {connection.host}:{connection.port}/{connection.database}
+        </div>
+        {connectionHealth[connection.id]?.status === "reconnecting" && (
+          <div className="connection-reconnecting">Reconnecting...</div>
+        )}
+        {connectionErrors[connection.id] && (
+          <div
+            title={connectionErrors[connection.id]}
+            data-testid="connection-error"
+            style={{
+              fontSize: "10px",
+              color: "#dc2626",
+              marginTop: "2px",
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap",
+              cursor: "help",
+            }}
+          >
+            {connectionErrors[connection.id]}
+          </div>
+        )}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "4px",
+        }}
+      >
+        <button
+          className="connection-edit"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (connectingConnectionIds.size === 0) {
+              onConnectionEdit(connection);
+            }
+          }}
+          title="Edit connection"
+          disabled={connectingConnectionIds.size > 0}
+          style={{
+            opacity: connectingConnectionIds.size > 0 ? 0.4 : 1,
+            cursor:
+              connectingConnectionIds.size > 0 ? "not-allowed" : "pointer",
+          }}
+          data-testid="edit-connection-btn"
+        >
+          ✎
+        </button>
+        <button
+          className="connection-remove"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (connectingConnectionIds.size === 0) {
+              onConnectionRemove(connection.id);
+            }
+          }}
+          disabled={connectingConnectionIds.size > 0}
+          style={{
+            opacity: connectingConnectionIds.size > 0 ? 0.4 : 1,
+            cursor:
+              connectingConnectionIds.size > 0 ? "not-allowed" : "pointer",
+          }}
+          data-testid="delete-connection-btn"
+        >
+          ×
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderSchema = (connectionId: string, schema: SchemaInfo) => (
+    <div
+      key={schema.name}
+      className="schema-item"
+      data-testid="schema-item"
+      data-schema-name={schema.name}
+    >
+      <div
+        className="schema-name"
+        onClick={() => toggleSchema(`${connectionId}:${schema.name}`)}
+      >
+        {expandedSchemas.has(`${connectionId}:${schema.name}`) ? "▼" : "▶"}{" "}
+        {schema.name}
+      </div>
+      {expandedSchemas.has(`${connectionId}:${schema.name}`) && (
+        <div className="table-list">
+          {filteredTables(schema).map((table) => {
+            const tableKey = `${connectionId}:${schema.name}.${table.name}`;
+            const isLoading = loadingTableSchemas.has(tableKey);
+
+            return (
+              <div
+                key={table.name}
+                className="table-item"
+                onClick={() =>
+                  !isLoading &&
+                  onTableSelect(connectionId, schema.name, table.name)
+                }
+                style={{
+                  cursor: isLoading ? "wait" : "pointer",
+                  opacity: isLoading ? 0.6 : 1,
+                  color: isLoading
+                    ? "var(--text-quaternary)"
+                    : "var(--text-tertiary)",
+                }}
+                data-testid="table-item"
+                data-schema={schema.name}
+                data-table={table.name}
+              >
+                <svg
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                  style={{
+                    marginRight: "6px",
+                    verticalAlign: "middle",
+                    opacity: 0.7,
+                    flexShrink: 0,
+                    minWidth: "14px",
+                  }}
+                >
+                  <path d="M4,3H20A2,2 0 0,1 22,5V20A2,2 0 0,1 20,22H4A2,2 0 0,1 2,20V5A2,2 0 0,1 4,3M4,7V10H8V7H4M10,7V10H14V7H10M20,10V7H16V10H20M4,12V15H8V12H4M4,20H8V17H4V20M10,12V15H14V12H10M10,20H14V17H10V20M20,20V17H16V20H20M20,12H16V15H20V12Z" />
+                </svg>
+                <span
+                  style={{
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {table.name}
+                </span>
+                {isLoading && (
+                  <span
+                    style={{
+                      marginLeft: "8px",
+                      fontSize: "10px",
+                      color: "var(--accent-primary)",
+                    }}
+                  >
+                    Loading...
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div
       ref={sidebarRef}
       className="sidebar"
-      style={{ width: sidebarWidth }}
+      style={{ width }}
       data-testid="sidebar"
     >
       <button
@@ -136,106 +450,35 @@ export const Sidebar: React.FC<SidebarProps> = ({
             Connections
           </h4>
           {connectionsExpanded
-            ? connections.map((connection) => (
-                <div
-                  key={connection.id}
-                  className={`connection-item ${activeConnectionId === connection.id ? "active" : ""}`}
-                  onClick={() =>
-                    connectingConnectionIds.size > 0
-                      ? undefined
-                      : onConnectionSelect(connection.id)
-                  }
-                  style={{
-                    cursor:
-                      connectingConnectionIds.size > 0
-                        ? "not-allowed"
-                        : "pointer",
-                    opacity: connectingConnectionIds.size > 0 ? 0.6 : 1,
-                  }}
-                  data-testid="connection-item"
-                  data-connection-name={connection.name}
-                >
-                  <div className="connection-info">
-                    <div className="connection-header">
-                      <div className="connection-name">{connection.name}</div>
-                      {connectingConnectionIds.has(connection.id) && (
-                        <div className="connecting-indicator">
-                          <LoadingSpinner size="small" text="Connecting..." />
-                        </div>
-                      )}
-                    </div>
-                    <div className="connection-details">
-                      {connection.host}:{connection.port}/{connection.database}
-                    </div>
-                    {connectionErrors[connection.id] && (
-                      <div
-                        title={connectionErrors[connection.id]}
-                        data-testid="connection-error"
-                        style={{
-                          fontSize: "10px",
-                          color: "#dc2626",
-                          marginTop: "2px",
-                          overflow: "hidden",
-                          textOverflow: "ellipsis",
-                          whiteSpace: "nowrap",
-                          cursor: "help",
-                        }}
-                      >
-                        {connectionErrors[connection.id]}
-                      </div>
-                    )}
-                  </div>
+            ? groupByFolder(connections).map(({ folder, members }) =>
+                folder === null ? (
+                  <React.Fragment key="">
+                    {members.map(renderConnection)}
+                  </React.Fragment>
+                ) : (
                   <div
-                    style={{
-                      display: "flex",
-                      alignItems: "center",
-                      gap: "4px",
-                    }}
+                    key={folder}
+                    className="connection-folder"
+                    data-testid="connection-folder"
+                    data-folder={folder}
                   >
-                    <button
-                      className="connection-edit"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (connectingConnectionIds.size === 0) {
-                          onConnectionEdit(connection);
-                        }
-                      }}
-                      title="Edit connection"
-                      disabled={connectingConnectionIds.size > 0}
-                      style={{
-                        opacity: connectingConnectionIds.size > 0 ? 0.4 : 1,
-                        cursor:
-                          connectingConnectionIds.size > 0
-                            ? "not-allowed"
-                            : "pointer",
-                      }}
-                      data-testid="edit-connection-btn"
+                    <div
+                      className="connection-folder-header"
+                      onClick={() => toggleFolder(folder)}
                     >
-                      ✎
-                    </button>
-                    <button
-                      className="connection-remove"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (connectingConnectionIds.size === 0) {
-                          onConnectionRemove(connection.id);
-                        }
-                      }}
-                      disabled={connectingConnectionIds.size > 0}
-                      style={{
-                        opacity: connectingConnectionIds.size > 0 ? 0.4 : 1,
-                        cursor:
-                          connectingConnectionIds.size > 0
-                            ? "not-allowed"
-                            : "pointer",
-                      }}
-                      data-testid="delete-connection-btn"
-                    >
-                      ×
-                    </button>
+                      <span className="connection-folder-toggle">
+                        {collapsedFolders.has(folder) ? "▶" : "▼"}
+                      </span>
+                      <span className="connection-folder-name">{folder}</span>
+                      <span className="connection-folder-count">
+                        {members.length}
+                      </span>
+                    </div>
+                    {!collapsedFolders.has(folder) &&
+                      members.map(renderConnection)}
                   </div>
-                </div>
-              ))
+                ),
+              )
             : activeConnectionId &&
               (() => {
                 const activeConnection = connections.find(
@@ -252,9 +495,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   >
                     <div className="connection-info">
                       <div className="connection-header">
+                        <ConnectionStatusDot
+                          health={connectionHealth[activeConnection.id]}
+                        />
                         <div className="connection-name">
                           {activeConnection.name}
                         </div>
+                        <EnvironmentBadge connection={activeConnection} />
                         {connectingConnectionIds.has(activeConnection.id) && (
                           <div className="connecting-indicator">
                             <LoadingSpinner size="small" text="Connecting..." />
@@ -272,7 +519,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </div>
       )}
 
-      {activeConnectionId && (
+      {openConnections.length > 0 && (
         <div
           className="sidebar-section"
           style={{
@@ -294,96 +541,80 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
           <h4>Database Schema</h4>
           <div className="schema-tree" data-testid="schema-tree">
-            {filteredSchemas.map((schema) => (
+            {openConnections.map((connection) => (
               <div
-                key={schema.name}
-                className="schema-item"
-                data-testid="schema-item"
-                data-schema-name={schema.name}
+                key={connection.id}
+                className="schema-connection"
+                data-testid="schema-connection"
+                data-connection-id={connection.id}
               >
                 <div
-                  className="schema-name"
-                  onClick={() => toggleSchema(schema.name)}
+                  className={`schema-connection-name ${connection.id === activeConnectionId ? "active" : ""}`}
+                  onClick={() => toggleSchemaTree(connection.id)}
                 >
-                  {expandedSchemas.has(schema.name) ? "▼" : "▶"} {schema.name}
+                  {collapsedSchemaTrees.has(connection.id) ? "▶" : "▼"}{" "}
+                  {connection.name}
+                  <EnvironmentBadge connection={connection} />
                 </div>
-                {expandedSchemas.has(schema.name) && (
-                  <div className="table-list">
-                    {filteredTables(schema).map((table) => {
-                      const tableKey = `${schema.name}.${table.name}`;
-                      const isLoading = loadingTableSchemas.has(tableKey);
-
-                      return (
-                        <div
-                          key={table.name}
-                          className="table-item"
-                          onClick={() =>
-                            !isLoading && onTableSelect(schema.name, table.name)
-                          }
-                          style={{
-                            cursor: isLoading ? "wait" : "pointer",
-                            opacity: isLoading ? 0.6 : 1,
-                            color: isLoading
-                              ? "var(--text-quaternary)"
-                              : "var(--text-tertiary)",
-                          }}
-                          data-testid="table-item"
-                          data-schema={schema.name}
-                          data-table={table.name}
-                        >
-                          <svg
-                            width="14"
-                            height="14"
-                            viewBox="0 0 24 24"
-                            fill="currentColor"
-                            style={{
-                              marginRight: "6px",
-                              verticalAlign: "middle",
-                              opacity: 0.7,
-                              flexShrink: 0,
-                              minWidth: "14px",
-                            }}
-                          >
-                            <path d="M4,3H20A2,2 0 0,1 22,5V20A2,2 0 0,1 20,22H4A2,2 0 0,1 2,20V5A2,2 0 0,1 4,3M4,7V10H8V7H4M10,7V10H14V7H10M20,10V7H16V10H20M4,12V15H8V12H4M4,20H8V17H4V20M10,12V15H14V12H10M10,20H14V17H10V20M20,20V17H16V20H20M20,12H16V15H20V12Z" />
-                          </svg>
-                          <span
-                            style={{
-                              overflow: "hidden",
-                              textOverflow: "ellipsis",
-                              whiteSpace: "nowrap",
-                            }}
-                          >
-                            {table.name}
-                          </span>
-                          {isLoading && (
-                            <span
-                              style={{
-                                marginLeft: "8px",
-                                fontSize: "10px",
-                                color: "var(--accent-primary)",
-                              }}
-                            >
-                              Loading...
-                            </span>
-                          )}
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
+                {!collapsedSchemaTrees.has(connection.id) &&
+                  filterSchemas(schemas[connection.id] || []).map((schema) =>
+                    renderSchema(connection.id, schema),
+                  )}
               </div>
             ))}
           </div>
         </div>
       )}
 
-      {!activeConnectionId && connections.length === 0 && (
+      {connections.length === 0 && (
         <div className="empty-state">
           <h3>No Connections</h3>
           <p>Create a new connection to get started</p>
         </div>
       )}
 
+      {contextMenu && (
+        <div
+          className="context-menu"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          data-testid="connection-context-menu"
+        >
+          <button
+            onClick={() =>
+              navigator.clipboard.writeText(
+                buildConnectionUri(contextMenu.connection),
+              )
+            }
+            title="Copy a postgresql:// URI without the password"
+            data-testid="copy-uri-btn"
+          >
+            Copy as URI
+          </button>
+          {openConnectionIds.includes(contextMenu.connection.id) && (
+            <button
+              onClick={() => onConnectionClose(contextMenu.connection.id)}
+              title="Close the connection; its tabs reconnect when they run"
+              data-testid="disconnect-btn"
+            >
+              Disconnect
+            </button>
+          )}
+          <button
+            onClick={() => onConnectionEdit(contextMenu.connection)}
+            disabled={connectingConnectionIds.size > 0}
+          >
+            Edit
+          </button>
+          <button
+            className="danger"
+            onClick={() => onConnectionRemove(contextMenu.connection.id)}
+            disabled={connectingConnectionIds.size > 0}
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
       <div
         className="sidebar-resize-handle"
         onMouseDown={handleMouseDown}
@@ -8,6 +8,7 @@ interface TabBarProps {
   onTabClose: (id: string) => void;
   onNewTab: () => void;
   onToggleHistory: () => void;
+  onToggleNotifications: () => void;
 }
 
 export const TabBar: React.FC<TabBarProps> = ({
@@ -17,6 +18,7 @@ export const TabBar: React.FC<TabBarProps> = ({
   onTabClose,
   onNewTab,
   onToggleHistory,
+  onToggleNotifications,
 }) => {
   return (
     <div className="tab-bar">
@@ -54,12 +56,25 @@ export const TabBar: React.FC<TabBarProps> = ({
         className="history-button"
         onClick={onToggleHistory}
         title="Query History"
+        data-testid="history-btn"
       >
         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
           <circle cx="12" cy="12" r="10" />
           <polyline points="12 6 12 12 16 14" />
         </svg>
       </button>
+
+      <button
+        className="history-button"
+        onClick={onToggleNotifications}
+        title="LISTEN/NOTIFY Console"
+        data-testid="notifications-btn"
+      >
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 8a6 6 0 0 0-12 0c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+      </button>
     </div>
   );
 };
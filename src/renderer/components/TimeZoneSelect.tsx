@@ -0,0 +1,24 @@
+import React from "react";
+import { DisplaySettings, DisplayTimeZone } from "../types";
+
+interface TimeZoneSelectProps {
+  settings: DisplaySettings;
+  onChange: (updates: Partial<DisplaySettings>) => void;
+}
+
+export const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({
+  settings,
+  onChange,
+}) => (
+  <select
+    className="timezone-select"
+    value={settings.timeZone}
+    onChange={(e) => onChange({ timeZone: e.target.value as DisplayTimeZone })}
+    title="Time zone for timestamptz values"
+    data-testid="timezone-select"
+  >
+    <option value="session">Session time zone</option>
+    <option value="local">Local time zone</option>
+    <option value="UTC">UTC</option>
+  </select>
+);
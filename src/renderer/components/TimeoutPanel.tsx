@@ -0,0 +1,67 @@
+import React from "react";
+import { TimeoutSettings } from "../types";
+import {
+  TIMEOUT_FIELDS,
+  compactTimeouts,
+  formatSeconds,
+  parseSeconds,
+} from "../utils/timeouts";
+
+interface TimeoutPanelProps {
+  timeouts: TimeoutSettings; // The tab's overrides
+  defaults: TimeoutSettings; // The connection's settings
+  onChange: (timeouts: TimeoutSettings | undefined) => void;
+  disabled?: boolean;
+}
+
+export const TimeoutPanel: React.FC<TimeoutPanelProps> = ({
+  timeouts,
+  defaults,
+  onChange,
+  disabled,
+}) => (
+  <div className="parameter-panel timeout-panel" data-testid="timeout-panel">
+    {TIMEOUT_FIELDS.map(({ key, label, setting }) => (
+      <div key={key} className="parameter-row">
+        <label
+          htmlFor={`timeout-${key}`}
+          className="parameter-name"
+          title={setting}
+        >
+          {label}
+        </label>
+        <input
+          id={`timeout-${key}`}
+          type="number"
+          min={0}
+          step={1}
+          value={timeouts[key] ?? ""}
+          placeholder={
+            defaults[key] !== undefined
+              ? `Connection: ${formatSeconds(defaults[key]!)}`
+              : "Server default"
+          }
+          onChange={(e) =>
+            onChange(
+              compactTimeouts({
+                ...timeouts,
+                [key]: parseSeconds(e.target.value),
+              }),
+            )
+          }
+          disabled={disabled}
+          data-testid={`timeout-${key}`}
+        />
+        <span className="timeout-unit">s</span>
+      </div>
+    ))}
+    <button
+      onClick={() => onChange(undefined)}
+      className="btn btn-secondary"
+      disabled={disabled || !compactTimeouts(timeouts)}
+      title="Use the connection's timeouts"
+    >
+      Reset
+    </button>
+  </div>
+);
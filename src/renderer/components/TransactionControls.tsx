@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from "react";
+import { QueryTab, TransactionAction, TransactionMode } from "../types";
+
+interface TransactionControlsProps {
+  tab: QueryTab;
+  onModeChange: (tabId: string, mode: TransactionMode) => void;
+  onAction: (
+    tabId: string,
+    action: TransactionAction,
+    savepoint?: string,
+  ) => void;
+}
+
+const STATUS_LABELS = {
+  idle: "Idle",
+  inTransaction: "In transaction",
+  failed: "Failed",
+};
+
+export const TransactionControls: React.FC<TransactionControlsProps> = ({
+  tab,
+  onModeChange,
+  onAction,
+}) => {
+  const mode = tab.transactionMode || "auto";
+  const status = tab.transactionStatus || "idle";
+  const savepoints = tab.savepoints || [];
+  const [selectedSavepoint, setSelectedSavepoint] = useState("");
+
+  // Drop the selection once its savepoint is gone
+  useEffect(() => {
+    if (selectedSavepoint && !tab.savepoints?.includes(selectedSavepoint)) {
+      setSelectedSavepoint("");
+    }
+  }, [tab.savepoints, selectedSavepoint]);
+
+  return (
+    <div className="schema-selector transaction-controls">
+      <label htmlFor={`transaction-mode-${tab.id}`}>Commit:</label>
+      <select
+        id={`transaction-mode-${tab.id}`}
+        value={mode}
+        onChange={(e) =>
+          onModeChange(tab.id, e.target.value as TransactionMode)
+        }
+        disabled={tab.isExecuting}
+        data-testid="transaction-mode-select"
+      >
+        <option value="auto">Auto</option>
+        <option value="manual">Manual</option>
+      </select>
+
+      {mode === "manual" && (
+        <>
+          <span
+            className={`transaction-status ${status}`}
+            data-testid="transaction-status"
+          >
+            {STATUS_LABELS[status]}
+          </span>
+          <button
+            onClick={() => onAction(tab.id, "commit")}
+            className="secondary"
+            disabled={tab.isExecuting || status === "idle"}
+            title={
+              status === "failed"
+                ? "The transaction failed; committing will roll it back"
+                : "Commit the open transaction"
+            }
+            data-testid="commit-btn"
+          >
+            Commit
+          </button>
+          <button
+            onClick={() => onAction(tab.id, "rollback")}
+            className="secondary"
+            disabled={tab.isExecuting || status === "idle"}
+            title="Roll back the open transaction"
+            data-testid="rollback-btn"
+          >
+            Rollback
+          </button>
+          <button
+            onClick={() => onAction(tab.id, "savepoint")}
+            className="secondary"
+            disabled={tab.isExecuting || status !== "inTransaction"}
+            title="Create a savepoint in the open transaction"
+            data-testid="savepoint-btn"
+          >
+            Savepoint
+          </button>
+          {savepoints.length > 0 && (
+            <>
+              <select
+                value={selectedSavepoint}
+                onChange={(e) => setSelectedSavepoint(e.target.value)}
+                disabled={tab.isExecuting}
+                data-testid="savepoint-select"
+              >
+                <option value="">Savepoint…</option>
+                {savepoints.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() =>
+                  onAction(tab.id, "rollbackToSavepoint", selectedSavepoint)
+                }
+                className="secondary"
+                disabled={tab.isExecuting || !selectedSavepoint}
+                title="Roll back to the selected savepoint"
+              >
+                Rollback To
+              </button>
+              <button
+                onClick={() =>
+                  onAction(tab.id, "releaseSavepoint", selectedSavepoint)
+                }
+                className="secondary"
+                disabled={
+                  tab.isExecuting ||
+                  !selectedSavepoint ||
+                  status !== "inTransaction"
+                }
+                title="Release the selected savepoint"
+              >
+                Release
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
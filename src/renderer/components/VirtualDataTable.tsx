@@ -5,11 +5,23 @@ import React, {
   useMemo,
   useEffect,
 } from "react";
-import { QueryResult } from "../types";
+import { FixedSizeList, ListChildComponentProps } from "react-window";
+import InfiniteLoader from "react-window-infinite-loader";
+import { StatementResult } from "../types";
 import { exportToCSV, exportToJSON } from "../utils/export";
+import {
+  formatCellValue,
+  getTypeHandler,
+  hasTimestamptzFields,
+} from "../utils/typeRegistry";
+import { useDisplaySettings } from "../hooks/useDisplaySettings";
+import { CellValue } from "./CellValue";
+import { TimeZoneSelect } from "./TimeZoneSelect";
 
 interface VirtualDataTableProps {
-  result: QueryResult;
+  result: StatementResult;
+  onLoadMore?: (all: boolean) => Promise<void>; // Fetches more rows from the result's cursor
+  onCountRows?: () => Promise<void>;
 }
 
 interface ColumnState {
@@ -22,10 +34,26 @@ const ROW_HEIGHT = 35;
 const MIN_COLUMN_WIDTH = 50;
 const DEFAULT_COLUMN_WIDTH = 150;
 
+// Cells are flex containers, so alignment maps onto justify-content
+const ALIGN_TO_JUSTIFY = {
+  left: "flex-start",
+  center: "center",
+  right: "flex-end",
+} as const;
+
 export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
   result,
+  onLoadMore,
+  onCountRows,
 }) => {
-  const { rows = [], fields = [], rowCount = 0, duration = 0 } = result || {};
+  const {
+    rows = [],
+    fields = [],
+    rowCount = 0,
+    duration = 0,
+    hasMore = false,
+    totalRowCount,
+  } = result || {};
   const [columns, setColumns] = useState<Record<string, ColumnState>>(() => {
     const initial: Record<string, ColumnState> = {};
     fields.forEach((field) => {
@@ -34,11 +62,13 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
     return initial;
   });
   const [filterText, setFilterText] = useState("");
+  const { settings, updateSettings } = useDisplaySettings();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCounting, setIsCounting] = useState(false);
 
   const bodyRef = useRef<HTMLDivElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [scrollTop, setScrollTop] = useState(0);
   const [containerHeight, setContainerHeight] = useState(400);
 
   const resizeState = useRef<{
@@ -75,6 +105,22 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
     return () => window.removeEventListener("resize", updateHeight);
   }, []);
 
+  // Keep the fixed header aligned with the body's horizontal scroll
+  const hasRows = fields.length > 0 && rows.length > 0;
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+
+    const syncHeader = () => {
+      if (headerRef.current) {
+        headerRef.current.scrollLeft = body.scrollLeft;
+      }
+    };
+
+    body.addEventListener("scroll", syncHeader);
+    return () => body.removeEventListener("scroll", syncHeader);
+  }, [hasRows]);
+
   const handleMouseDown = useCallback(
     (e: React.MouseEvent, columnName: string) => {
       e.preventDefault();
@@ -140,13 +186,30 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
     [columns],
   );
 
+  // Exports hold the loaded rows only, so they ask first while the cursor has
+  // more; Fetch All loads the rest
+  const confirmPartialExport = useCallback(
+    () =>
+      !hasMore ||
+      confirm(
+        `Only the ${rows.length.toLocaleString()} rows loaded so far will be exported. Use Fetch All first to export every row. Export the loaded rows?`,
+      ),
+    [hasMore, rows.length],
+  );
+
   const handleExportCSV = useCallback(() => {
-    exportToCSV(result);
-  }, [result]);
+    if (!confirmPartialExport()) return;
+    exportToCSV(result, undefined, settings);
+  }, [result, settings, confirmPartialExport]);
 
   const handleExportJSON = useCallback(() => {
-    exportToJSON(result);
-  }, [result]);
+    if (!confirmPartialExport()) return;
+    exportToJSON(result, undefined, settings);
+  }, [result, settings, confirmPartialExport]);
+
+  const totalWidth = fields.reduce((sum, field) => {
+    return sum + (columns[field.name]?.width || DEFAULT_COLUMN_WIDTH);
+  }, 0);
 
   // Filter rows based on filter text
   const filteredRows = useMemo(() => {
@@ -156,45 +219,61 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
     return rows.filter((row) => {
       return fields.some((field) => {
         const value = row[field.name];
-        if (value === null) return false;
-
-        const stringValue =
-          typeof value === "object" ? JSON.stringify(value) : String(value);
+        if (value === null || value === undefined) return false;
 
-        return stringValue.toLowerCase().includes(lowerFilter);
+        return formatCellValue(value, field, settings)
+          .toLowerCase()
+          .includes(lowerFilter);
       });
     });
-  }, [rows, fields, filterText]);
-
-  // Calculate visible rows for virtualization
-  const visibleRowsInfo = useMemo(() => {
-    const startIndex = Math.floor(scrollTop / ROW_HEIGHT);
-    const visibleCount = Math.ceil(containerHeight / ROW_HEIGHT) + 2; // +2 for buffer
-    const endIndex = Math.min(startIndex + visibleCount, filteredRows.length);
-
-    return {
-      startIndex: Math.max(0, startIndex),
-      endIndex,
-      offsetY: startIndex * ROW_HEIGHT,
-    };
-  }, [scrollTop, containerHeight, filteredRows.length]);
+  }, [rows, fields, filterText, settings]);
+
+  // Scrolling only pulls more rows while the whole result is shown; a filter
+  // would otherwise keep fetching pages in search of matches
+  const canLoadMore = hasMore && !!onLoadMore && !filterText;
+
+  const loadMore = useCallback(
+    async (all: boolean) => {
+      if (!onLoadMore || isLoading) return;
+      setIsLoading(true);
+      try {
+        await onLoadMore(all);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [onLoadMore, isLoading],
+  );
+
+  const handleCountRows = useCallback(async () => {
+    if (!onCountRows) return;
+    setIsCounting(true);
+    try {
+      await onCountRows();
+    } finally {
+      setIsCounting(false);
+    }
+  }, [onCountRows]);
 
   // Row renderer
   const renderRow = useCallback(
-    (index: number) => {
+    ({ index, style }: ListChildComponentProps) => {
       const row = filteredRows[index];
-      if (!row) return null;
+      if (!row) {
+        // Placeholder row shown while the next page is on its way
+        return (
+          <div style={style} className="loading-row">
+            Loading more rows...
+          </div>
+        );
+      }
 
       return (
         <div
-          key={index}
           style={{
-            position: "absolute",
-            top: index * ROW_HEIGHT,
-            left: 0,
-            height: ROW_HEIGHT,
+            ...style,
             display: "flex",
-            width: "100%",
+            width: totalWidth,
           }}
         >
           {fields.map((field, fieldIndex) => {
@@ -225,36 +304,21 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
                   whiteSpace: "nowrap",
                   display: "flex",
                   alignItems: "center",
+                  justifyContent: ALIGN_TO_JUSTIFY[getTypeHandler(field).align],
                   boxSizing: "border-box",
                 }}
               >
-                {value === null ? (
-                  <span
-                    style={{
-                      color: "#9ca3af",
-                      fontStyle: "italic",
-                      fontSize: "11px",
-                    }}
-                  >
-                    NULL
-                  </span>
-                ) : typeof value === "object" ? (
-                  <span style={{ fontFamily: "monospace", fontSize: "11px" }}>
-                    {JSON.stringify(value)}
-                  </span>
-                ) : (
-                  String(value)
-                )}
+                <CellValue value={value} field={field} settings={settings} />
               </div>
             );
           })}
         </div>
       );
     },
-    [filteredRows, fields, columns],
+    [filteredRows, fields, columns, totalWidth, settings],
   );
 
-  if (!fields.length || !rows.length) {
+  if (!hasRows) {
     return (
       <div className="empty-results">
         <p>No results to display</p>
@@ -262,15 +326,19 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
     );
   }
 
-  const totalWidth = fields.reduce((sum, field) => {
-    return sum + (columns[field.name]?.width || DEFAULT_COLUMN_WIDTH);
-  }, 0);
-
   return (
     <div className="virtual-data-table" ref={containerRef}>
       <div className="results-header">
         <div className="results-info">
-          <span className="row-count">{rowCount.toLocaleString()} rows</span>
+          <span className="row-count" data-testid="row-count">
+            {hasMore
+              ? `${rows.length.toLocaleString()}${
+                  totalRowCount !== undefined
+                    ? ` of ${totalRowCount.toLocaleString()}`
+                    : ""
+                } rows loaded, more available`
+              : `${rowCount.toLocaleString()} rows`}
+          </span>
           <span className="duration">{duration}ms</span>
           {filterText && (
             <span className="filtered-count">
@@ -296,6 +364,31 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
               marginRight: "8px",
             }}
           />
+          {hasTimestamptzFields(fields) && (
+            <TimeZoneSelect settings={settings} onChange={updateSettings} />
+          )}
+          {hasMore && onLoadMore && (
+            <button
+              onClick={() => loadMore(true)}
+              className="export-btn"
+              disabled={isLoading}
+              title="Fetch every remaining row"
+              data-testid="fetch-all-btn"
+            >
+              {isLoading ? "Fetching..." : "Fetch All"}
+            </button>
+          )}
+          {hasMore && onCountRows && totalRowCount === undefined && (
+            <button
+              onClick={handleCountRows}
+              className="export-btn"
+              disabled={isCounting}
+              title="Count the total number of rows"
+              data-testid="count-rows-btn"
+            >
+              {isCounting ? "Counting..." : "Count Total"}
+            </button>
+          )}
           <button
             onClick={handleExportCSV}
             className="export-btn"
@@ -407,37 +500,30 @@ export const VirtualDataTable: React.FC<VirtualDataTableProps> = ({
         </div>
 
         {/* Scrollable Body */}
-        <div
-          ref={bodyRef}
-          style={{
-            flex: 1,
-            overflow: "auto",
-            position: "relative",
-          }}
-          onScroll={(e) => {
-            const element = e.currentTarget;
-            if (headerRef.current) {
-              headerRef.current.scrollLeft = element.scrollLeft;
-            }
-            setScrollTop(element.scrollTop);
-          }}
+        <InfiniteLoader
+          isItemLoaded={(index) => index < filteredRows.length}
+          itemCount={
+            canLoadMore ? filteredRows.length + 1 : filteredRows.length
+          }
+          loadMoreItems={() => loadMore(false)}
         >
-          <div
-            style={{
-              height: filteredRows.length * ROW_HEIGHT,
-              width: totalWidth,
-              position: "relative",
-            }}
-          >
-            {Array.from(
-              { length: visibleRowsInfo.endIndex - visibleRowsInfo.startIndex },
-              (_, i) => {
-                const index = visibleRowsInfo.startIndex + i;
-                return renderRow(index);
-              },
-            )}
-          </div>
-        </div>
+          {({ onItemsRendered, ref }) => (
+            <FixedSizeList
+              ref={ref}
+              outerRef={bodyRef}
+              onItemsRendered={onItemsRendered}
+              height={Math.max(containerHeight, ROW_HEIGHT)}
+              width="100%"
+              itemCount={
+                canLoadMore ? filteredRows.length + 1 : filteredRows.length
+              }
+              itemSize={ROW_HEIGHT}
+              overscanCount={2}
+            >
+              {renderRow}
+            </FixedSizeList>
+          )}
+        </InfiniteLoader>
       </div>
     </div>
   );
@@ -0,0 +1,31 @@
+import { useState, useEffect, useRef } from 'react';
+import { ConnectionHealth } from '../types';
+
+// Health of every open connection as reported by the main process' keepalive,
+// and notice of pinned sessions that were lost with a connection
+export const useConnectionHealth = (onSessionLost: (sessionId: string, message: string) => void) => {
+  const [health, setHealth] = useState<Record<string, ConnectionHealth>>({});
+  const onSessionLostRef = useRef(onSessionLost);
+  onSessionLostRef.current = onSessionLost;
+
+  useEffect(() => {
+    window.electronAPI.database.onConnectionHealth((update) => {
+      setHealth(prev => {
+        const next = { ...prev, [update.connectionId]: update };
+        if (update.status === 'disconnected') {
+          delete next[update.connectionId];
+        }
+        return next;
+      });
+    });
+    window.electronAPI.database.onSessionLost((sessionId, message) => {
+      onSessionLostRef.current(sessionId, message);
+    });
+
+    return () => {
+      window.electronAPI.database.removeHealthListeners();
+    };
+  }, []);
+
+  return health;
+};
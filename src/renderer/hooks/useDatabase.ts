@@ -1,5 +1,5 @@
 import { useCallback } from 'react';
-import { DatabaseConnection, QueryResult, SchemaInfo, TableInfo } from '../types';
+import { BackendSignal, BlockingSession, CancelResult, DatabaseConnection, ExplainOptions, ExplainResult, FetchResult, QueryOptions, QueryResult, SchemaInfo, SessionActivity, TableInfo, TransactionStatus } from '../types';
 
 export const useDatabase = () => {
   const connect = useCallback(async (connection: DatabaseConnection): Promise<{ error?: string }> => {
@@ -20,14 +20,58 @@ export const useDatabase = () => {
     await window.electronAPI.database.disconnect(connectionId);
   }, []);
 
-  const query = useCallback(async (connectionId: string, sql: string, params: any[] = [], schema?: string, queryId?: string): Promise<QueryResult> => {
-    return await window.electronAPI.database.query(connectionId, sql, params, schema, queryId);
+  const query = useCallback(async (connectionId: string, sql: string, params: any[] = [], schema?: string, queryId?: string, options?: QueryOptions): Promise<QueryResult> => {
+    return await window.electronAPI.database.query(connectionId, sql, params, schema, queryId, options);
   }, []);
 
-  const cancelQuery = useCallback(async (queryId: string): Promise<void> => {
+  const explain = useCallback(async (connectionId: string, sql: string, params: unknown[] = [], schema?: string, queryId?: string, options?: ExplainOptions): Promise<ExplainResult> => {
+    return await window.electronAPI.database.explain(connectionId, sql, params, schema, queryId, options);
+  }, []);
+
+  const cancelQuery = useCallback(async (queryId: string): Promise<CancelResult> => {
     return await window.electronAPI.database.cancelQuery(queryId);
   }, []);
 
+  const fetchRows = useCallback(async (cursorId: string, count?: number): Promise<FetchResult> => {
+    return await window.electronAPI.database.fetchRows(cursorId, count);
+  }, []);
+
+  const countRows = useCallback(async (cursorId: string): Promise<number> => {
+    return await window.electronAPI.database.countRows(cursorId);
+  }, []);
+
+  const closeCursor = useCallback(async (cursorId: string): Promise<void> => {
+    return await window.electronAPI.database.closeCursor(cursorId);
+  }, []);
+
+  const getTransactionStatus = useCallback(async (sessionId: string): Promise<TransactionStatus> => {
+    return await window.electronAPI.database.getTransactionStatus(sessionId);
+  }, []);
+
+  const commit = useCallback(async (sessionId: string): Promise<TransactionStatus> => {
+    return await window.electronAPI.database.commit(sessionId);
+  }, []);
+
+  const rollback = useCallback(async (sessionId: string): Promise<TransactionStatus> => {
+    return await window.electronAPI.database.rollback(sessionId);
+  }, []);
+
+  const savepoint = useCallback(async (sessionId: string, name: string): Promise<TransactionStatus> => {
+    return await window.electronAPI.database.savepoint(sessionId, name);
+  }, []);
+
+  const rollbackToSavepoint = useCallback(async (sessionId: string, name: string): Promise<TransactionStatus> => {
+    return await window.electronAPI.database.rollbackToSavepoint(sessionId, name);
+  }, []);
+
+  const releaseSavepoint = useCallback(async (sessionId: string, name: string): Promise<TransactionStatus> => {
+    return await window.electronAPI.database.releaseSavepoint(sessionId, name);
+  }, []);
+
+  const closeSession = useCallback(async (sessionId: string): Promise<void> => {
+    return await window.electronAPI.database.closeSession(sessionId);
+  }, []);
+
   const getSchemas = useCallback(async (connectionId: string): Promise<SchemaInfo[]> => {
     return await window.electronAPI.database.getSchemas(connectionId);
   }, []);
@@ -44,6 +88,30 @@ export const useDatabase = () => {
     return await window.electronAPI.database.getSchemaTableSchemas(connectionId, schema);
   }, []);
 
+  const listen = useCallback(async (connectionId: string, channel: string): Promise<string[]> => {
+    return await window.electronAPI.database.listen(connectionId, channel);
+  }, []);
+
+  const unlisten = useCallback(async (connectionId: string, channel: string): Promise<string[]> => {
+    return await window.electronAPI.database.unlisten(connectionId, channel);
+  }, []);
+
+  const notify = useCallback(async (connectionId: string, channel: string, payload: string): Promise<void> => {
+    await window.electronAPI.database.notify(connectionId, channel, payload);
+  }, []);
+
+  const getActivity = useCallback(async (connectionId: string): Promise<SessionActivity[]> => {
+    return await window.electronAPI.database.getActivity(connectionId);
+  }, []);
+
+  const signalSession = useCallback(async (connectionId: string, pid: number, signal: BackendSignal): Promise<boolean> => {
+    return await window.electronAPI.database.signalSession(connectionId, pid, signal);
+  }, []);
+
+  const getBlockingSessions = useCallback(async (connectionId: string): Promise<BlockingSession[]> => {
+    return await window.electronAPI.database.getBlockingSessions(connectionId);
+  }, []);
+
   const savePassword = useCallback(async (connectionId: string, password: string): Promise<void> => {
     await window.electronAPI.keychain.set('postgres', connectionId, password);
   }, []);
@@ -56,17 +124,45 @@ export const useDatabase = () => {
     await window.electronAPI.keychain.delete('postgres', connectionId);
   }, []);
 
+  // The SSH tunnel's password or private key passphrase
+  const saveSshSecret = useCallback(async (connectionId: string, secret: string): Promise<void> => {
+    await window.electronAPI.keychain.set('ssh', connectionId, secret);
+  }, []);
+
+  const saveSslKeyPassphrase = useCallback(async (connectionId: string, passphrase: string): Promise<void> => {
+    await window.electronAPI.keychain.set('sslkey', connectionId, passphrase);
+  }, []);
+
   return {
     connect,
     disconnect,
     query,
+    explain,
     cancelQuery,
+    fetchRows,
+    countRows,
+    closeCursor,
+    getTransactionStatus,
+    commit,
+    rollback,
+    savepoint,
+    rollbackToSavepoint,
+    releaseSavepoint,
+    closeSession,
     getSchemas,
     getTables,
     getTableSchema,
     getSchemaTableSchemas,
+    listen,
+    unlisten,
+    notify,
+    getActivity,
+    signalSession,
+    getBlockingSessions,
     savePassword,
     getPassword,
     deletePassword,
+    saveSshSecret,
+    saveSslKeyPassphrase,
   };
 };
\ No newline at end of file
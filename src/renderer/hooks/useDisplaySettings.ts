@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DisplaySettings } from '../types';
+import {
+  DISPLAY_SETTINGS_CHANGE_EVENT,
+  loadDisplaySettings,
+  saveDisplaySettings,
+} from '../utils/displaySettings';
+
+export const useDisplaySettings = () => {
+  const [settings, setSettings] = useState<DisplaySettings>(loadDisplaySettings);
+
+  useEffect(() => {
+    // Keep every grid in step when one of them changes a setting
+    const handleChange = () => setSettings(loadDisplaySettings());
+
+    window.addEventListener(DISPLAY_SETTINGS_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(DISPLAY_SETTINGS_CHANGE_EVENT, handleChange);
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<DisplaySettings>) => {
+    saveDisplaySettings({ ...loadDisplaySettings(), ...updates }).catch((error) =>
+      console.error('Failed to save display settings:', error)
+    );
+  }, []);
+
+  return { settings, updateSettings };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChannelNotification } from '../types';
+import { useDatabase } from './useDatabase';
+import { extractErrorMessage } from '../utils/errorHandling';
+
+// Keep the console responsive on chatty channels by dropping the oldest
+const MAX_NOTIFICATIONS = 1000;
+
+// Channel subscriptions and the notifications received on them, for every
+// connection; lives above the console so nothing is missed while it is closed
+export const useNotifications = () => {
+  const { listen, unlisten, notify } = useDatabase();
+  const [notifications, setNotifications] = useState<ChannelNotification[]>([]);
+  const [channels, setChannels] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.database.onNotification((notification) => {
+      setNotifications(prev => [...prev, notification].slice(-MAX_NOTIFICATIONS));
+    });
+    window.electronAPI.database.onListenerEnded((connectionId, message) => {
+      setChannels(prev => ({ ...prev, [connectionId]: [] }));
+      setError(`Stopped listening: ${message}`);
+    });
+
+    return () => {
+      window.electronAPI.database.removeNotificationListeners();
+    };
+  }, []);
+
+  const subscribe = useCallback(async (connectionId: string, channel: string) => {
+    try {
+      const listening = await listen(connectionId, channel);
+      setChannels(prev => ({ ...prev, [connectionId]: listening }));
+      setError(null);
+    } catch (error) {
+      setError(extractErrorMessage(error));
+    }
+  }, [listen]);
+
+  const unsubscribe = useCallback(async (connectionId: string, channel: string) => {
+    try {
+      const listening = await unlisten(connectionId, channel);
+      setChannels(prev => ({ ...prev, [connectionId]: listening }));
+      setError(null);
+    } catch (error) {
+      setError(extractErrorMessage(error));
+    }
+  }, [unlisten]);
+
+  const send = useCallback(async (connectionId: string, channel: string, payload: string) => {
+    try {
+      await notify(connectionId, channel, payload);
+      setError(null);
+    } catch (error) {
+      setError(extractErrorMessage(error));
+    }
+  }, [notify]);
+
+  const clear = useCallback((connectionId: string) => {
+    setNotifications(prev => prev.filter(notification => notification.connectionId !== connectionId));
+  }, []);
+
+  return { notifications, channels, error, subscribe, unsubscribe, send, clear };
+};
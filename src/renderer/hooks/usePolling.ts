@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+
+// Runs the callback now and then every interval while enabled. Each run is
+// awaited before the next is scheduled, so a slow server doesn't pile up
+// requests.
+export const usePolling = (callback: () => Promise<void>, interval: number, enabled: boolean) => {
+  useEffect(() => {
+    let timer: number | undefined;
+    let stopped = false;
+    const tick = async () => {
+      await callback();
+      if (!stopped && enabled) {
+        timer = window.setTimeout(tick, interval);
+      }
+    };
+    tick();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [callback, interval, enabled]);
+};
@@ -5,14 +5,332 @@ export interface DatabaseConnection {
   port: number;
   database: string;
   username: string;
-  ssl?: boolean;
+  ssl?: SslConfig; // Plain text when unset
+  readOnly?: boolean; // Sessions default to read-only transactions and write statements are refused
+  timeouts?: TimeoutSettings; // Defaults for every tab on the connection
+  ssh?: SshTunnelConfig; // Reach the server through a bastion host
+  folder?: string; // Sidebar group; ungrouped when unset
+  environment?: ConnectionEnvironment;
+  color?: string; // Label and editor banner color; the environment's by default
 }
 
+// Production connections ask before running writes
+export type ConnectionEnvironment = "dev" | "staging" | "prod";
+
+export type SslMode =
+  | "disable"
+  | "prefer"
+  | "require"
+  | "verify-ca"
+  | "verify-full";
+
+// The files are read by the main process on connect. The client key's
+// passphrase is kept in the keychain.
+export interface SslConfig {
+  mode: SslMode;
+  rootCertPath?: string; // CA certificates to trust instead of the system's
+  certPath?: string; // Client certificate
+  keyPath?: string; // Client certificate's private key
+}
+
+export type SshAuthMethod = "password" | "privateKey";
+
+// The database host and port are resolved on the SSH server's side. The SSH
+// password or key passphrase is kept in the keychain, not here.
+export interface SshTunnelConfig {
+  host: string;
+  port: number;
+  username: string;
+  authMethod: SshAuthMethod;
+  privateKeyPath?: string; // For "privateKey"; a leading ~ is the home directory
+  verifyHostKey: boolean; // Refuse servers whose key isn't in known_hosts
+  knownHostsPath?: string; // Defaults to ~/.ssh/known_hosts
+}
+
+// Server-side limits in seconds. Unset keeps the server's own setting and 0
+// turns the limit off.
+export interface TimeoutSettings {
+  statementTimeout?: number; // statement_timeout
+  lockTimeout?: number; // lock_timeout
+  idleInTransactionTimeout?: number; // idle_in_transaction_session_timeout
+}
+
+// What config.json in the user data directory holds, one key per section.
+// Every window reads the same file through the main process; secrets stay
+// in the keychain.
+export interface ConfigValues {
+  connections: DatabaseConnection[];
+  aiProvider: string | null; // The provider last chosen in AI settings
+  workspace: Workspace; // Saved by the main window as it changes
+  windowBounds: WindowBounds | null; // Saved by the main process
+  displaySettings: DisplaySettings;
+}
+
+// A section another window saved
+export type ConfigChange = {
+  [K in keyof ConfigValues]: { key: K; value: ConfigValues[K] };
+}[keyof ConfigValues];
+
+// Open tabs and layout, restored on the next start
+export interface Workspace {
+  tabs: SavedTab[];
+  activeTabId: string | null;
+  sidebarWidth?: number;
+}
+
+// What a tab keeps across restarts. Results, sessions and cursors are gone
+// by then.
+export interface SavedTab {
+  id: string;
+  title: string;
+  query: string;
+  connectionId: string;
+  selectedSchema?: string;
+  parameters?: Record<string, QueryParameterValue>;
+  timeouts?: TimeoutSettings;
+  cursor?: number; // Offset of the editor cursor
+  lastRun?: RunSummary;
+}
+
+// The last run of a tab without its rows
+export interface RunSummary {
+  ranAt: string; // ISO 8601
+  duration: number;
+  rowCount?: number;
+  error?: string;
+}
+
+export interface WindowBounds {
+  x?: number;
+  y?: number;
+  width: number;
+  height: number;
+  maximized?: boolean;
+}
+
+// How result cells are rendered and exported
+export interface DisplaySettings {
+  timeZone: DisplayTimeZone;
+}
+
+// "session" keeps timestamptz values in the server session's time zone
+export type DisplayTimeZone = "session" | "local" | "UTC";
+
+export interface QueryLogEntry {
+  id: string;
+  connectionId: string;
+  connectionName: string;
+  query: string;
+  schema?: string;
+  parameters?: Record<string, QueryParameterValue>; // Values bound to the query's placeholders
+  timestamp: Date;
+  duration?: number;
+  rowCount?: number;
+  error?: string;
+  success: boolean;
+  starred?: boolean; // Starred entries are never dropped from the history
+}
+
+// Every field narrows the search; leaving all of them out lists the whole
+// history, newest first
+export interface QueryHistoryFilter {
+  text?: string; // Words to find in the query, its error, connection or schema
+  connectionId?: string;
+  schema?: string;
+  from?: string; // ISO 8601, inclusive
+  to?: string; // ISO 8601, exclusive
+  minDuration?: number; // Milliseconds
+  maxDuration?: number;
+  status?: "success" | "error";
+  starred?: boolean; // Only starred entries
+  limit?: number; // Defaults to 100
+  offset?: number;
+}
+
+export interface QueryHistoryPage {
+  entries: QueryLogEntry[];
+  total: number; // Matches in all pages
+}
+
+export type QueryParameterType =
+  | "auto"
+  | "text"
+  | "integer"
+  | "bigint"
+  | "numeric"
+  | "boolean"
+  | "date"
+  | "timestamp"
+  | "timestamptz"
+  | "uuid"
+  | "jsonb";
+
+export interface QueryParameterValue {
+  value: string;
+  type: QueryParameterType; // "auto" lets the server infer the type
+  isNull?: boolean;
+}
+
+export interface FieldInfo {
+  name: string;
+  dataTypeID: number; // Type OID reported by the server
+  typeName?: string; // pg_type.typname
+  typeCategory?: string; // pg_type.typcategory, e.g. N for numeric or E for enum
+}
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface StatementResult {
+  command: string; // Command tag reported by the server, e.g. SELECT or INSERT
+  rows: Record<string, unknown>[];
+  fields: FieldInfo[];
+  rowCount: number;
+  duration: number;
+  cursorId?: string; // Open server-side cursor holding the rows not fetched yet
+  hasMore?: boolean;
+  totalRowCount?: number; // Filled in on demand by countRows
+  sourceRange?: SourceRange; // Where the statement sits in the submitted SQL
+}
+
+// "terminated" means the server ignored the cancel and its connection was closed
+export type CancelResult = "cancelled" | "terminated" | "notRunning";
+
+export interface FetchResult {
+  rows: Record<string, unknown>[];
+  hasMore: boolean;
+}
+
+export interface QueryOptions {
+  sessionId?: string; // Run on the tab's pinned session instead of a pooled client
+  fetchSize?: number; // Fetch row-returning statements through cursors in pages of this size
+  timeouts?: TimeoutSettings; // The tab's overrides of the connection's timeouts
+}
+
+export type TransactionStatus = "idle" | "inTransaction" | "failed";
+
 export interface QueryResult {
   rows: Record<string, unknown>[];
-  fields: { name: string; dataTypeID: number }[];
+  fields: FieldInfo[];
   rowCount: number;
   duration: number;
+  results: StatementResult[]; // One entry per executed statement, in order
+  transactionStatus?: TransactionStatus; // Only set for runs on a pinned session
+  notices?: ServerNotice[]; // Server messages in the order they arrived
+}
+
+// A NOTICE, WARNING, INFO, ... the server sent while a statement ran
+export interface ServerNotice {
+  severity: string;
+  message: string;
+  code?: string; // SQLSTATE
+  detail?: string;
+  hint?: string;
+  where?: string;
+  statementIndex?: number; // Which statement of the script raised it
+  timestamp: number; // Milliseconds since the epoch, when it arrived
+}
+
+// A NOTIFY received by the connection's listener client
+export interface ChannelNotification {
+  connectionId: string;
+  channel: string;
+  payload: string;
+  processId: number; // Backend PID of the session that sent it
+  timestamp: number; // Milliseconds since the epoch, when it arrived
+}
+
+// A row of pg_stat_activity
+export interface SessionActivity {
+  pid: number;
+  database: string | null;
+  username: string | null;
+  applicationName: string;
+  clientAddress: string | null; // Null for Unix-socket and background connections
+  clientPort: number | null;
+  backendType: string;
+  state: string; // active, idle, idle in transaction, ...
+  waitEventType: string | null;
+  waitEvent: string | null;
+  query: string; // The running query, or the last one when idle
+  queryDuration: number | null; // Milliseconds since the query started
+  transactionDuration: number | null; // Milliseconds since the transaction started
+  isCurrentUser: boolean; // Runs as the role this connection logged in with
+}
+
+export type BackendSignal = "cancel" | "terminate";
+
+// A pg_locks entry on an object that some session is waiting for
+export interface LockInfo {
+  target: string; // Relation name, "transaction 1234", ...
+  lockType: string;
+  mode: string; // AccessExclusiveLock, RowExclusiveLock, ...
+  granted: boolean;
+  waitDuration: number | null; // Milliseconds spent waiting, when not granted
+}
+
+// A session that waits on a lock or holds one that another session waits on
+export interface BlockingSession {
+  pid: number;
+  username: string | null;
+  applicationName: string;
+  state: string;
+  query: string;
+  blockedBy: number[]; // pg_blocking_pids(); empty for the head of a chain
+  queryDuration: number | null;
+  transactionDuration: number | null;
+  locks: LockInfo[];
+}
+
+export type ConnectionStatus = "connected" | "reconnecting" | "disconnected";
+
+// Pushed by the main process whenever a connection's health changes
+export interface ConnectionHealth {
+  connectionId: string;
+  status: ConnectionStatus;
+  error?: string; // Why the last keepalive or reconnect attempt failed
+  attempt?: number; // Reconnect attempts so far
+  nextAttemptAt?: number; // Milliseconds since the epoch
+}
+
+export interface ExplainOptions {
+  analyze: boolean; // Execute the statement to collect actual rows, timings and buffers
+  sessionId?: string;
+  timeouts?: TimeoutSettings;
+}
+
+// One node of a FORMAT JSON plan; only the keys the plan view reads are listed
+export interface PlanNode {
+  "Node Type": string;
+  "Relation Name"?: string;
+  "Index Name"?: string;
+  Alias?: string;
+  "Startup Cost": number;
+  "Total Cost": number;
+  "Plan Rows": number;
+  "Plan Width": number;
+  "Actual Startup Time"?: number;
+  "Actual Total Time"?: number;
+  "Actual Rows"?: number;
+  "Actual Loops"?: number;
+  "Shared Hit Blocks"?: number;
+  "Shared Read Blocks"?: number;
+  "Shared Dirtied Blocks"?: number;
+  "Shared Written Blocks"?: number;
+  "Temp Read Blocks"?: number;
+  "Temp Written Blocks"?: number;
+  Plans?: PlanNode[];
+  [key: string]: unknown;
+}
+
+export interface ExplainResult {
+  plan: PlanNode;
+  planningTime?: number;
+  executionTime?: number; // Only reported by EXPLAIN ANALYZE
+  analyzed: boolean;
+  duration: number;
 }
 
 export interface SchemaInfo {
@@ -41,12 +359,35 @@ declare global {
       database: {
         connect: (config: DatabaseConnection) => Promise<{ connectionId: string; error?: string }>;
         disconnect: (connectionId: string) => Promise<void>;
-        query: (connectionId: string, sql: string, params: any[], schema?: string, queryId?: string) => Promise<QueryResult>;
-        cancelQuery: (queryId: string) => Promise<void>;
+        query: (connectionId: string, sql: string, params: any[], schema?: string, queryId?: string, options?: QueryOptions) => Promise<QueryResult>;
+        explain: (connectionId: string, sql: string, params: unknown[], schema?: string, queryId?: string, options?: ExplainOptions) => Promise<ExplainResult>;
+        cancelQuery: (queryId: string) => Promise<CancelResult>;
+        fetchRows: (cursorId: string, count?: number) => Promise<FetchResult>;
+        countRows: (cursorId: string) => Promise<number>;
+        closeCursor: (cursorId: string) => Promise<void>;
+        getTransactionStatus: (sessionId: string) => Promise<TransactionStatus>;
+        commit: (sessionId: string) => Promise<TransactionStatus>;
+        rollback: (sessionId: string) => Promise<TransactionStatus>;
+        savepoint: (sessionId: string, name: string) => Promise<TransactionStatus>;
+        rollbackToSavepoint: (sessionId: string, name: string) => Promise<TransactionStatus>;
+        releaseSavepoint: (sessionId: string, name: string) => Promise<TransactionStatus>;
+        closeSession: (sessionId: string) => Promise<void>;
         getSchemas: (connectionId: string) => Promise<SchemaInfo[]>;
         getTables: (connectionId: string, schema: string) => Promise<TableInfo[]>;
         getTableSchema: (connectionId: string, schema: string, table: string) => Promise<TableInfo | undefined>;
         getSchemaTableSchemas: (connectionId: string, schema: string) => Promise<TableInfo[]>;
+        listen: (connectionId: string, channel: string) => Promise<string[]>;
+        unlisten: (connectionId: string, channel: string) => Promise<string[]>;
+        notify: (connectionId: string, channel: string, payload: string) => Promise<void>;
+        onNotification: (callback: (notification: ChannelNotification) => void) => void;
+        onListenerEnded: (callback: (connectionId: string, message: string) => void) => void;
+        removeNotificationListeners: () => void;
+        getActivity: (connectionId: string) => Promise<SessionActivity[]>;
+        signalSession: (connectionId: string, pid: number, signal: BackendSignal) => Promise<boolean>;
+        getBlockingSessions: (connectionId: string) => Promise<BlockingSession[]>;
+        onConnectionHealth: (callback: (health: ConnectionHealth) => void) => void;
+        onSessionLost: (callback: (sessionId: string, message: string) => void) => void;
+        removeHealthListeners: () => void;
       };
       keychain: {
         set: (service: string, account: string, password: string) => Promise<void>;
@@ -55,8 +396,8 @@ declare global {
       };
       on: (channel: string, callback: (...args: unknown[]) => void) => void;
       removeAllListeners: (channel: string) => void;
-      setHasOpenTabsCallback: (callback: () => boolean) => void;
-      hasOpenTabs: () => boolean;
+      setBeforeCloseCallback: (callback: () => Promise<boolean>) => void;
+      beforeClose: () => Promise<boolean>;
       theme: {
         get: () => Promise<boolean>;
         onChange: (callback: (isDark: boolean) => void) => void;
@@ -65,6 +406,22 @@ declare global {
       file: {
         saveQuery: (content: string) => Promise<string | null>;
         loadQuery: () => Promise<string | null>;
+        choosePath: (title: string) => Promise<string | null>;
+        importConnections: () => Promise<DatabaseConnection[]>;
+      };
+      config: {
+        get: <K extends keyof ConfigValues>(key: K) => Promise<ConfigValues[K]>;
+        set: <K extends keyof ConfigValues>(key: K, value: ConfigValues[K]) => Promise<void>;
+        importLegacy: (values: Partial<ConfigValues>) => Promise<boolean>;
+        onChange: (callback: (change: ConfigChange) => void) => void;
+        removeChangeListener: () => void;
+      };
+      history: {
+        add: (entry: QueryLogEntry) => Promise<void>;
+        search: (filter: QueryHistoryFilter) => Promise<QueryHistoryPage>;
+        setStarred: (id: string, starred: boolean) => Promise<void>;
+        exportEntries: (filter: QueryHistoryFilter) => Promise<string | null>; // The file written, or null when cancelled
+        importEntries: () => Promise<number | null>; // Entries added, or null when cancelled
       };
       ai: {
         generateTabName: (query: string, credentials: any) => Promise<string>;
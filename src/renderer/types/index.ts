@@ -5,15 +5,295 @@ export interface DatabaseConnection {
   port: number;
   database: string;
   username: string;
-  ssl?: boolean;
+  ssl?: SslConfig; // Plain text when unset
+  readOnly?: boolean; // Sessions default to read-only transactions and write statements are refused
   maxConnections?: number;
+  timeouts?: TimeoutSettings; // Defaults for every tab on the connection
+  ssh?: SshTunnelConfig; // Reach the server through a bastion host
+  folder?: string; // Sidebar group; ungrouped when unset
+  environment?: ConnectionEnvironment;
+  color?: string; // Label and editor banner color; the environment's by default
 }
 
+// Production connections ask before running writes
+export type ConnectionEnvironment = "dev" | "staging" | "prod";
+
+export type SslMode =
+  | "disable"
+  | "prefer"
+  | "require"
+  | "verify-ca"
+  | "verify-full";
+
+// The files are read by the main process on connect. The client key's
+// passphrase is kept in the keychain.
+export interface SslConfig {
+  mode: SslMode;
+  rootCertPath?: string; // CA certificates to trust instead of the system's
+  certPath?: string; // Client certificate
+  keyPath?: string; // Client certificate's private key
+}
+
+export type SshAuthMethod = "password" | "privateKey";
+
+// The database host and port are resolved on the SSH server's side. The SSH
+// password or key passphrase is kept in the keychain, not here.
+export interface SshTunnelConfig {
+  host: string;
+  port: number;
+  username: string;
+  authMethod: SshAuthMethod;
+  privateKeyPath?: string; // For "privateKey"; a leading ~ is the home directory
+  verifyHostKey: boolean; // Refuse servers whose key isn't in known_hosts
+  knownHostsPath?: string; // Defaults to ~/.ssh/known_hosts
+}
+
+// Server-side limits in seconds. Unset keeps the server's own setting and 0
+// turns the limit off.
+export interface TimeoutSettings {
+  statementTimeout?: number; // statement_timeout
+  lockTimeout?: number; // lock_timeout
+  idleInTransactionTimeout?: number; // idle_in_transaction_session_timeout
+}
+
+export type TimeoutKind = "statement" | "lock" | "idleInTransaction";
+
+// What config.json in the user data directory holds, one key per section.
+// Every window reads the same file through the main process; secrets stay
+// in the keychain.
+export interface ConfigValues {
+  connections: DatabaseConnection[];
+  aiProvider: string | null; // The provider last chosen in AI settings
+  workspace: Workspace; // Saved by the main window as it changes
+  windowBounds: WindowBounds | null; // Saved by the main process
+  displaySettings: DisplaySettings;
+}
+
+// A section another window saved
+export type ConfigChange = {
+  [K in keyof ConfigValues]: { key: K; value: ConfigValues[K] };
+}[keyof ConfigValues];
+
+// Open tabs and layout, restored on the next start
+export interface Workspace {
+  tabs: SavedTab[];
+  activeTabId: string | null;
+  sidebarWidth?: number;
+}
+
+// What a tab keeps across restarts. Results, sessions and cursors are gone
+// by then.
+export interface SavedTab {
+  id: string;
+  title: string;
+  query: string;
+  connectionId: string;
+  selectedSchema?: string;
+  parameters?: Record<string, QueryParameterValue>;
+  timeouts?: TimeoutSettings;
+  cursor?: number; // Offset of the editor cursor
+  lastRun?: RunSummary;
+}
+
+// The last run of a tab without its rows
+export interface RunSummary {
+  ranAt: string; // ISO 8601
+  duration: number;
+  rowCount?: number;
+  error?: string;
+}
+
+export interface WindowBounds {
+  x?: number;
+  y?: number;
+  width: number;
+  height: number;
+  maximized?: boolean;
+}
+
+export interface FieldInfo {
+  name: string;
+  dataTypeID: number; // Type OID reported by the server
+  typeName?: string; // pg_type.typname
+  typeCategory?: string; // pg_type.typcategory, e.g. N for numeric or E for enum
+}
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface StatementResult {
+  command: string; // Command tag reported by the server, e.g. SELECT or INSERT
+  rows: Record<string, unknown>[];
+  fields: FieldInfo[];
+  rowCount: number;
+  duration: number;
+  cursorId?: string; // Open server-side cursor holding the rows not fetched yet
+  hasMore?: boolean;
+  totalRowCount?: number; // Filled in on demand by countRows
+  sourceRange?: SourceRange; // Where the statement sits in the submitted SQL
+}
+
+// What the server reported about a failed statement, as sent over IPC
+export interface QueryError {
+  message: string;
+  severity?: string; // ERROR, FATAL, ...
+  code?: string; // SQLSTATE
+  detail?: string;
+  hint?: string;
+  where?: string; // Call stack of functions and queries involved
+  schema?: string;
+  table?: string;
+  column?: string;
+  dataType?: string;
+  constraint?: string;
+  position?: number; // 1-based, in the statement as sent to the server
+  offset?: number; // 0-based, in the SQL submitted to query or explain
+  internalQuery?: string; // Query inside a function that failed
+  internalPosition?: number; // 1-based, in internalQuery
+  statementIndex?: number; // Which statement of the script failed
+  timeout?: TimeoutKind; // Set when one of the timeout settings stopped the query
+  notices?: ServerNotice[]; // Server messages that arrived before the error
+  editorOffset?: number; // 0-based, in the tab's editor text; set by the renderer
+}
+
+// "terminated" means the server ignored the cancel and its connection was closed
+export type CancelResult = "cancelled" | "terminated" | "notRunning";
+
+export interface FetchResult {
+  rows: Record<string, unknown>[];
+  hasMore: boolean;
+}
+
+export interface QueryOptions {
+  sessionId?: string; // Run on the tab's pinned session instead of a pooled client
+  fetchSize?: number; // Fetch row-returning statements through cursors in pages of this size
+  timeouts?: TimeoutSettings; // The tab's overrides of the connection's timeouts
+}
+
+export type TransactionStatus = "idle" | "inTransaction" | "failed";
+
 export interface QueryResult {
   rows: Record<string, unknown>[];
-  fields: { name: string; dataTypeID: number }[];
+  fields: FieldInfo[];
   rowCount: number;
   duration: number;
+  results: StatementResult[]; // One entry per executed statement, in order
+  transactionStatus?: TransactionStatus; // Only set for runs on a pinned session
+  notices?: ServerNotice[]; // Server messages in the order they arrived
+}
+
+// A NOTICE, WARNING, INFO, ... the server sent while a statement ran
+export interface ServerNotice {
+  severity: string;
+  message: string;
+  code?: string; // SQLSTATE
+  detail?: string;
+  hint?: string;
+  where?: string;
+  statementIndex?: number; // Which statement of the script raised it
+  timestamp: number; // Milliseconds since the epoch, when it arrived
+}
+
+// A NOTIFY received by the connection's listener client
+export interface ChannelNotification {
+  connectionId: string;
+  channel: string;
+  payload: string;
+  processId: number; // Backend PID of the session that sent it
+  timestamp: number; // Milliseconds since the epoch, when it arrived
+}
+
+// A row of pg_stat_activity
+export interface SessionActivity {
+  pid: number;
+  database: string | null;
+  username: string | null;
+  applicationName: string;
+  clientAddress: string | null; // Null for Unix-socket and background connections
+  clientPort: number | null;
+  backendType: string;
+  state: string; // active, idle, idle in transaction, ...
+  waitEventType: string | null;
+  waitEvent: string | null;
+  query: string; // The running query, or the last one when idle
+  queryDuration: number | null; // Milliseconds since the query started
+  transactionDuration: number | null; // Milliseconds since the transaction started
+  isCurrentUser: boolean; // Runs as the role this connection logged in with
+}
+
+export type BackendSignal = "cancel" | "terminate";
+
+// A pg_locks entry on an object that some session is waiting for
+export interface LockInfo {
+  target: string; // Relation name, "transaction 1234", ...
+  lockType: string;
+  mode: string; // AccessExclusiveLock, RowExclusiveLock, ...
+  granted: boolean;
+  waitDuration: number | null; // Milliseconds spent waiting, when not granted
+}
+
+// A session that waits on a lock or holds one that another session waits on
+export interface BlockingSession {
+  pid: number;
+  username: string | null;
+  applicationName: string;
+  state: string;
+  query: string;
+  blockedBy: number[]; // pg_blocking_pids(); empty for the head of a chain
+  queryDuration: number | null;
+  transactionDuration: number | null;
+  locks: LockInfo[];
+}
+
+export type ConnectionStatus = "connected" | "reconnecting" | "disconnected";
+
+// Pushed by the main process whenever a connection's health changes
+export interface ConnectionHealth {
+  connectionId: string;
+  status: ConnectionStatus;
+  error?: string; // Why the last keepalive or reconnect attempt failed
+  attempt?: number; // Reconnect attempts so far
+  nextAttemptAt?: number; // Milliseconds since the epoch
+}
+
+export interface ExplainOptions {
+  analyze: boolean; // Execute the statement to collect actual rows, timings and buffers
+  sessionId?: string;
+  timeouts?: TimeoutSettings;
+}
+
+// One node of a FORMAT JSON plan; only the keys the plan view reads are listed
+export interface PlanNode {
+  "Node Type": string;
+  "Relation Name"?: string;
+  "Index Name"?: string;
+  Alias?: string;
+  "Startup Cost": number;
+  "Total Cost": number;
+  "Plan Rows": number;
+  "Plan Width": number;
+  "Actual Startup Time"?: number;
+  "Actual Total Time"?: number;
+  "Actual Rows"?: number;
+  "Actual Loops"?: number;
+  "Shared Hit Blocks"?: number;
+  "Shared Read Blocks"?: number;
+  "Shared Dirtied Blocks"?: number;
+  "Shared Written Blocks"?: number;
+  "Temp Read Blocks"?: number;
+  "Temp Written Blocks"?: number;
+  Plans?: PlanNode[];
+  [key: string]: unknown;
+}
+
+export interface ExplainResult {
+  plan: PlanNode;
+  planningTime?: number;
+  executionTime?: number; // Only reported by EXPLAIN ANALYZE
+  analyzed: boolean;
+  duration: number;
 }
 
 export interface SchemaInfo {
@@ -40,37 +320,107 @@ export interface QueryTab {
   id: string;
   title: string;
   query: string;
+  connectionId: string; // Runs against this connection, whichever one the sidebar shows
   result?: QueryResult;
   isExecuting: boolean;
-  error?: string;
+  error?: QueryError;
   selectedSchema?: string; // The schema context for this tab
   activeQueryId?: string; // ID of the currently running query for cancellation
+  isCancelling?: boolean; // Waiting for the server to confirm the query stopped
+  transactionMode?: TransactionMode; // Defaults to auto-commit
+  transactionStatus?: TransactionStatus; // Status of the tab's pinned session in manual mode
+  savepoints?: string[]; // Savepoints created in the current transaction, oldest first
+  parameters?: Record<string, QueryParameterValue>; // Values for $n and :name placeholders, keyed by placeholder
+  explain?: ExplainResult; // Plan shown instead of the result after Explain
+  timeouts?: TimeoutSettings; // Overrides of the connection's timeouts for this tab
+  cursor?: number; // Offset of the editor cursor, kept when the editor is rebuilt
+  lastRun?: RunSummary; // Stands in for the result after a restart
+  runCount?: number; // Bumped by every run that produces a result
+}
+
+export type QueryParameterType =
+  | "auto"
+  | "text"
+  | "integer"
+  | "bigint"
+  | "numeric"
+  | "boolean"
+  | "date"
+  | "timestamp"
+  | "timestamptz"
+  | "uuid"
+  | "jsonb";
+
+export interface QueryParameterValue {
+  value: string;
+  type: QueryParameterType; // "auto" lets the server infer the type
+  isNull?: boolean;
 }
 
+export type TransactionMode = "auto" | "manual";
+
+export type TransactionAction =
+  | "commit"
+  | "rollback"
+  | "savepoint"
+  | "rollbackToSavepoint"
+  | "releaseSavepoint";
+
 export interface QueryLogEntry {
   id: string;
   connectionId: string;
   connectionName: string;
   query: string;
   schema?: string;
+  parameters?: Record<string, QueryParameterValue>; // Values bound to the query's placeholders
   timestamp: Date;
   duration?: number;
   rowCount?: number;
   error?: string;
   success: boolean;
+  starred?: boolean; // Starred entries are never dropped from the history
+}
+
+// Every field narrows the search; leaving all of them out lists the whole
+// history, newest first
+export interface QueryHistoryFilter {
+  text?: string; // Words to find in the query, its error, connection or schema
+  connectionId?: string;
+  schema?: string;
+  from?: string; // ISO 8601, inclusive
+  to?: string; // ISO 8601, exclusive
+  minDuration?: number; // Milliseconds
+  maxDuration?: number;
+  status?: "success" | "error";
+  starred?: boolean; // Only starred entries
+  limit?: number; // Defaults to 100
+  offset?: number;
 }
 
+export interface QueryHistoryPage {
+  entries: QueryLogEntry[];
+  total: number; // Matches in all pages
+}
+
+// How result cells are rendered and exported
+export interface DisplaySettings {
+  timeZone: DisplayTimeZone;
+}
+
+// "session" keeps timestamptz values in the server session's time zone
+export type DisplayTimeZone = "session" | "local" | "UTC";
+
 export interface AppState {
   connections: DatabaseConnection[];
-  activeConnectionId: string | null;
-  schemas: SchemaInfo[];
+  activeConnectionId: string | null; // Selected in the sidebar; new tabs bind to it
+  openConnectionIds: string[]; // Connected, in the order they were opened
+  schemas: Record<string, SchemaInfo[]>; // Keyed by connection ID
   queryTabs: QueryTab[];
   activeTabId: string | null;
   isConnecting: boolean;
   showConnectionForm: boolean;
-  loadingTableSchemas: Set<string>; // Track which tables are currently loading schema
-  tableSchemaCache: Record<string, TableInfo>; // Cache for loaded table schemas
-  loadingSchemaDetails: Set<string>; // Track which schemas are loading detailed table info
-  queryLogs: QueryLogEntry[]; // Query execution history
+  loadingTableSchemas: Set<string>; // Tables whose schema is loading, as connectionId:schema.table
+  tableSchemaCache: Record<string, Record<string, TableInfo>>; // Loaded table schemas by connection ID, then schema.table
+  loadingSchemaDetails: Set<string>; // Schemas loading detailed table info, as connectionId:schema
   showQueryHistory: boolean; // Toggle for showing query history panel
 }
\ No newline at end of file
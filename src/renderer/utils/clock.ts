@@ -0,0 +1,7 @@
+// 24-hour local time with milliseconds, for events that arrive in bursts
+export const formatClockTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString(undefined, { hour12: false })}.${String(
+    date.getMilliseconds(),
+  ).padStart(3, "0")}`;
+};
@@ -0,0 +1,27 @@
+import { DisplaySettings } from "../types";
+
+export const DISPLAY_SETTINGS_CHANGE_EVENT = "messql-display-settings-change";
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  timeZone: "session",
+};
+
+// The settings live in the config store; this copy lets grids and exports
+// read them without waiting
+let current = DEFAULT_DISPLAY_SETTINGS;
+
+export const loadDisplaySettings = (): DisplaySettings => current;
+
+// Takes settings read from the config store or saved by another window, and
+// tells every grid
+export const applyDisplaySettings = (settings: DisplaySettings): void => {
+  current = { ...DEFAULT_DISPLAY_SETTINGS, ...settings };
+  window.dispatchEvent(new Event(DISPLAY_SETTINGS_CHANGE_EVENT));
+};
+
+export const saveDisplaySettings = (
+  settings: DisplaySettings,
+): Promise<void> => {
+  applyDisplaySettings(settings);
+  return window.electronAPI.config.set("displaySettings", current);
+};
@@ -0,0 +1,68 @@
+import { ConnectionEnvironment, DatabaseConnection } from "../types";
+import {
+  getLeadingKeyword,
+  isWriteStatement,
+  splitStatements,
+} from "../../main/services/sqlLexer";
+
+export const ENVIRONMENTS: {
+  environment: ConnectionEnvironment;
+  label: string;
+  color: string; // Used when the connection has no color of its own
+}[] = [
+  { environment: "dev", label: "Development", color: "#16a34a" },
+  { environment: "staging", label: "Staging", color: "#d97706" },
+  { environment: "prod", label: "Production", color: "#dc2626" },
+];
+
+export const LABEL_COLORS = [
+  "#dc2626",
+  "#d97706",
+  "#ca8a04",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#7c3aed",
+  "#db2777",
+];
+
+export const getEnvironmentLabel = (
+  environment: ConnectionEnvironment,
+): string =>
+  ENVIRONMENTS.find((entry) => entry.environment === environment)?.label ??
+  environment;
+
+export const getConnectionColor = (
+  connection: DatabaseConnection,
+): string | undefined =>
+  connection.color ??
+  ENVIRONMENTS.find((entry) => entry.environment === connection.environment)
+    ?.color;
+
+// DO blocks and procedures can write too, and nothing here can tell whether
+// they do
+const findRiskyStatements = (sql: string): string[] =>
+  splitStatements(sql)
+    .filter(
+      (statement) =>
+        isWriteStatement(statement.text) ||
+        ["DO", "CALL"].includes(getLeadingKeyword(statement.text)),
+    )
+    .map((statement) => getLeadingKeyword(statement.text));
+
+// Asks before a script with writes runs on a production connection; anything
+// else goes ahead without a prompt
+export const confirmProductionRun = (
+  connection: DatabaseConnection,
+  sql: string,
+): boolean => {
+  if (connection.environment !== "prod") return true;
+
+  const risky = findRiskyStatements(sql);
+  if (risky.length === 0) return true;
+
+  const keywords = [...new Set(risky)].join(", ");
+  return confirm(
+    `"${connection.name}" is a production connection. Run ${risky.length} statement${risky.length === 1 ? "" : "s"} that may change data or schema (${keywords})?`,
+  );
+};
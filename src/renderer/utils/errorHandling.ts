@@ -1,14 +1,15 @@
+import { QueryError } from "../types";
+
 /**
- * Extracts the actual error message from IPC-wrapped errors.
+ * Strips the wrapping from IPC errors.
  *
  * When errors are thrown in Electron's main process IPC handlers,
  * they get wrapped with "Error invoking remote method 'methodName': " prefix.
- * This function extracts the actual error message for better user experience.
  *
  * @param error - The error object or unknown error
- * @returns The extracted error message
+ * @returns The message the main process threw
  */
-export const extractErrorMessage = (error: unknown): string => {
+const stripIpcPrefix = (error: unknown): string => {
   if (!(error instanceof Error)) {
     return "Unknown error";
   }
@@ -29,3 +30,38 @@ export const extractErrorMessage = (error: unknown): string => {
 
   return message;
 };
+
+/**
+ * Extracts the structured error from IPC-wrapped errors.
+ *
+ * Errors reported by the server arrive as JSON after a prefix such as
+ * "Query failed: ", since IPC only keeps an error's message. Anything else
+ * becomes an error with just a message.
+ *
+ * @param error - The error object or unknown error
+ * @returns The error with every field the server reported
+ */
+export const extractQueryError = (error: unknown): QueryError => {
+  const message = stripIpcPrefix(error);
+  const match = message.match(/^([^:{]+): (\{[\s\S]*\})$/);
+
+  if (match) {
+    try {
+      const details = JSON.parse(match[2]) as QueryError;
+      return { ...details, message: `${match[1]}: ${details.message}` };
+    } catch {
+      // Not ours; fall through to the plain message
+    }
+  }
+
+  return { message };
+};
+
+/**
+ * Extracts the actual error message from IPC-wrapped errors.
+ *
+ * @param error - The error object or unknown error
+ * @returns The extracted error message
+ */
+export const extractErrorMessage = (error: unknown): string =>
+  extractQueryError(error).message;
@@ -0,0 +1,62 @@
+import { StateEffect, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
+import { QueryError } from "../types";
+import { tokenize } from "../../main/services/sqlLexer";
+
+const setErrorMarker = StateEffect.define<{
+  from: number;
+  to: number;
+  message: string;
+} | null>();
+
+// Underlines the token the server reported an error at. The marker follows
+// edits until the next run replaces or clears it.
+export const errorMarkerField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(marker, transaction) {
+    marker = marker.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (effect.is(setErrorMarker)) {
+        marker = effect.value
+          ? Decoration.set([
+              Decoration.mark({
+                class: "cm-error-marker",
+                attributes: { title: effect.value.message },
+              }).range(effect.value.from, effect.value.to),
+            ])
+          : Decoration.none;
+      }
+    }
+    return marker;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+// Marks the error's editorOffset, or clears the marker when there is none
+export const showErrorMarker = (view: EditorView, error?: QueryError) => {
+  const text = view.state.doc.toString();
+  const offset = error?.editorOffset;
+  if (
+    !error ||
+    offset === undefined ||
+    text.length === 0 ||
+    offset > text.length
+  ) {
+    view.dispatch({ effects: setErrorMarker.of(null) });
+    return;
+  }
+
+  // Errors at the end of the input point past the last character
+  const position = Math.min(offset, text.length - 1);
+  const token = tokenize(text).find(
+    (candidate) => candidate.start <= position && position < candidate.end,
+  );
+  const [from, to] =
+    token && token.type !== "whitespace"
+      ? [token.start, token.end]
+      : [position, position + 1];
+
+  view.dispatch({
+    effects: setErrorMarker.of({ from, to, message: error.message }),
+  });
+};
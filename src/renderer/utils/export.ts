@@ -1,6 +1,12 @@
-import { QueryResult } from '../types';
+import { DisplaySettings, StatementResult } from '../types';
+import { loadDisplaySettings } from './displaySettings';
+import { formatCellValue, toExportValue } from './typeRegistry';
 
-export const exportToCSV = (result: QueryResult, filename: string = 'query_results.csv') => {
+export const exportToCSV = (
+  result: StatementResult,
+  filename: string = 'query_results.csv',
+  settings: DisplaySettings = loadDisplaySettings()
+) => {
   const { rows, fields } = result;
   
   // Create CSV header
@@ -14,7 +20,7 @@ export const exportToCSV = (result: QueryResult, filename: string = 'query_resul
         return '';
       }
       // Escape quotes and wrap in quotes if contains comma, quote, or newline
-      const stringValue = String(value);
+      const stringValue = formatCellValue(value, field, settings);
       if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
         return `"${stringValue.replace(/"/g, '""')}"`;
       }
@@ -37,7 +43,11 @@ export const exportToCSV = (result: QueryResult, filename: string = 'query_resul
   URL.revokeObjectURL(url);
 };
 
-export const exportToJSON = (result: QueryResult, filename: string = 'query_results.json') => {
+export const exportToJSON = (
+  result: StatementResult,
+  filename: string = 'query_results.json',
+  settings: DisplaySettings = loadDisplaySettings()
+) => {
   const { rows, fields, rowCount, duration } = result;
   
   const exportData = {
@@ -48,9 +58,15 @@ export const exportToJSON = (result: QueryResult, filename: string = 'query_resu
       fields: fields.map(field => ({
         name: field.name,
         dataTypeID: field.dataTypeID,
+        typeName: field.typeName,
       })),
     },
-    data: rows,
+    // Keep values JSON-native where the type allows it (numbers, objects)
+    data: rows.map(row =>
+      Object.fromEntries(
+        fields.map(field => [field.name, toExportValue(row[field.name], field, settings)])
+      )
+    ),
   };
   
   const jsonContent = JSON.stringify(exportData, null, 2);
@@ -0,0 +1,148 @@
+import { QueryParameterValue } from "../types";
+import {
+  RewrittenSql,
+  SqlEdit,
+  applyEdits,
+  hasOwnParameters,
+  splitStatements,
+  tokenize,
+} from "../../main/services/sqlLexer";
+
+/**
+ * Walks the SQL outside literals and comments, handing every `$n` and `:name`
+ * placeholder to `replace` and splicing in what it returns. The `$n` of
+ * PREPARE statements and routine definitions are their own, so they are left
+ * alone.
+ */
+const mapPlaceholders = (
+  sql: string,
+  replace: (placeholder: string) => string,
+): RewrittenSql => {
+  const tokens = tokenize(sql);
+  const edits: SqlEdit[] = [];
+  const ownParameters = splitStatements(sql).filter((statement) =>
+    hasOwnParameters(statement.text),
+  );
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "parameter") {
+      if (
+        ownParameters.some(
+          (statement) =>
+            token.start >= statement.start && token.end <= statement.end,
+        )
+      ) {
+        continue;
+      }
+      edits.push({
+        start: token.start,
+        end: token.end,
+        text: replace(token.text),
+      });
+      continue;
+    }
+
+    // A colon right before a name, unless it follows a value as in a[1:n]
+    const previous = tokens[i - 1];
+    const name = tokens[i + 1];
+    if (
+      token.text === ":" &&
+      name?.type === "identifier" &&
+      !(
+        previous &&
+        ["identifier", "number", "quotedIdentifier"].includes(previous.type)
+      )
+    ) {
+      edits.push({
+        start: token.start,
+        end: name.end,
+        text: replace(`:${name.text}`),
+      });
+      i++;
+    }
+  }
+
+  return applyEdits(sql, edits);
+};
+
+/**
+ * Lists the placeholders used in the SQL: positional ones by number, then
+ * named ones in order of first appearance.
+ */
+export const findPlaceholders = (sql: string): string[] => {
+  const found = new Set<string>();
+  mapPlaceholders(sql, (placeholder) => {
+    found.add(placeholder);
+    return placeholder;
+  });
+
+  const positional = [...found]
+    .filter((name) => name.startsWith("$"))
+    .sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+  const named = [...found].filter((name) => name.startsWith(":"));
+  return [...positional, ...named];
+};
+
+/**
+ * Rewrites named placeholders to positional ones numbered after the highest
+ * `$n`, adds casts for explicitly typed values and collects the values in
+ * order, along with the entries of `values` that were used. Throws when a
+ * placeholder has no value.
+ */
+export const bindParameters = (
+  sql: string,
+  values: Record<string, QueryParameterValue>,
+): {
+  sql: string;
+  params: (string | null)[];
+  used: Record<string, QueryParameterValue>;
+  toSourceOffset: (offset: number) => number; // Maps offsets in the bound SQL back to `sql`
+} => {
+  const placeholders = findPlaceholders(sql);
+  if (placeholders.length === 0) {
+    return { sql, params: [], used: {}, toSourceOffset: (offset) => offset };
+  }
+
+  const missing = placeholders.filter((name) => !values[name]);
+  if (missing.length > 0) {
+    throw new Error(`No value given for parameter ${missing.join(", ")}`);
+  }
+
+  const positionalCount = Math.max(
+    0,
+    ...placeholders
+      .filter((name) => name.startsWith("$"))
+      .map((name) => Number(name.slice(1))),
+  );
+  const named = placeholders.filter((name) => name.startsWith(":"));
+  const positionOf = (name: string): number =>
+    name.startsWith("$")
+      ? Number(name.slice(1))
+      : positionalCount + named.indexOf(name) + 1;
+
+  // Gaps in the numbering are sent as NULL; the server only sees the ones used
+  const params: (string | null)[] = new Array(
+    positionalCount + named.length,
+  ).fill(null);
+  placeholders.forEach((name) => {
+    const value = values[name];
+    params[positionOf(name) - 1] = value.isNull ? null : value.value;
+  });
+
+  const bound = mapPlaceholders(sql, (name) => {
+    const type = values[name].type;
+    return `$${positionOf(name)}${type === "auto" ? "" : `::${type}`}`;
+  });
+
+  const used = Object.fromEntries(
+    placeholders.map((name) => [name, values[name]]),
+  );
+
+  return {
+    sql: bound.text,
+    params,
+    used,
+    toSourceOffset: bound.toSourceOffset,
+  };
+};
@@ -0,0 +1,49 @@
+import { StateEffect, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
+
+const HIGHLIGHT_DURATION = 600;
+
+const setRunHighlight = StateEffect.define<{
+  from: number;
+  to: number;
+} | null>();
+
+const runHighlightMark = Decoration.mark({ class: "cm-run-highlight" });
+
+// Marks the text that was just sent to the server
+export const runHighlightField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(highlight, transaction) {
+    highlight = highlight.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (effect.is(setRunHighlight)) {
+        highlight =
+          effect.value && effect.value.to > effect.value.from
+            ? Decoration.set([
+                runHighlightMark.range(effect.value.from, effect.value.to),
+              ])
+            : Decoration.none;
+      }
+    }
+    return highlight;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+const clearTimers = new WeakMap<EditorView, number>();
+
+// Highlights a range briefly; the field must be among the view's extensions
+export const flashRange = (view: EditorView, from: number, to: number) => {
+  view.dispatch({ effects: setRunHighlight.of({ from, to }) });
+
+  window.clearTimeout(clearTimers.get(view));
+  clearTimers.set(
+    view,
+    window.setTimeout(() => {
+      // The tab may have been closed in the meantime
+      if (view.dom.isConnected) {
+        view.dispatch({ effects: setRunHighlight.of(null) });
+      }
+    }, HIGHLIGHT_DURATION),
+  );
+};
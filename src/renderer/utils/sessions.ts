@@ -0,0 +1,28 @@
+import { BackendSignal } from "../types";
+
+export const formatElapsed = (milliseconds: number | null): string => {
+  if (milliseconds === null) return "-";
+  if (milliseconds < 1000) return `${Math.round(milliseconds)}ms`;
+  const seconds = milliseconds / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = String(Math.floor((whole % 3600) / 60)).padStart(2, "0");
+  const rest = String(whole % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes}:${rest}` : `${minutes}:${rest}`;
+};
+
+// Sessions holding a transaction open stand out, aborted or not
+export const getStateClass = (state: string): string =>
+  state.startsWith("idle in transaction")
+    ? "idle-in-transaction"
+    : state.replace(/\W+/g, "-");
+
+// Asks before signalling another session's backend
+export const confirmSignal = (pid: number, signal: BackendSignal): boolean =>
+  confirm(
+    signal === "cancel"
+      ? `Cancel the query running in backend ${pid}?`
+      : `Terminate backend ${pid}? Its connection is closed and any open transaction is rolled back.`,
+  );
@@ -0,0 +1,17 @@
+import { SqlStatement, splitStatements } from "../../main/services/sqlLexer";
+
+/**
+ * Finds the statement to run for a cursor at `offset`: the one the cursor is
+ * in, else the closest one before it (as right after a semicolon), else the
+ * first one.
+ */
+export const findStatementAt = (
+  sql: string,
+  offset: number,
+): SqlStatement | undefined => {
+  const statements = splitStatements(sql);
+  return (
+    [...statements].reverse().find((statement) => statement.start <= offset) ||
+    statements[0]
+  );
+};
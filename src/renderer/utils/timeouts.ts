@@ -0,0 +1,48 @@
+import { TimeoutKind, TimeoutSettings } from "../types";
+
+export const TIMEOUT_FIELDS: {
+  key: keyof TimeoutSettings;
+  kind: TimeoutKind;
+  label: string;
+  setting: string; // Server parameter the value is sent as
+}[] = [
+  {
+    key: "statementTimeout",
+    kind: "statement",
+    label: "Statement",
+    setting: "statement_timeout",
+  },
+  {
+    key: "lockTimeout",
+    kind: "lock",
+    label: "Lock wait",
+    setting: "lock_timeout",
+  },
+  {
+    key: "idleInTransactionTimeout",
+    kind: "idleInTransaction",
+    label: "Idle in transaction",
+    setting: "idle_in_transaction_session_timeout",
+  },
+];
+
+// Reads a seconds input; blank means unset
+export const parseSeconds = (value: string): number | undefined => {
+  if (value.trim() === "") return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+export const formatSeconds = (seconds: number): string =>
+  seconds === 0 ? "none" : `${seconds}s`;
+
+// Drops unset values so that a spread over the defaults only overrides what
+// was given
+export const compactTimeouts = (
+  timeouts: TimeoutSettings,
+): TimeoutSettings | undefined => {
+  const entries = Object.entries(timeouts).filter(
+    ([, seconds]) => seconds !== undefined,
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
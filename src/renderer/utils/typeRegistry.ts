@@ -0,0 +1,390 @@
+import { DisplaySettings, DisplayTimeZone, FieldInfo } from "../types";
+
+export type CellKind =
+  | "text"
+  | "number"
+  | "boolean"
+  | "temporal"
+  | "interval"
+  | "uuid"
+  | "json"
+  | "binary"
+  | "network"
+  | "enum"
+  | "array";
+
+export type CellAlignment = "left" | "right" | "center";
+
+export interface TypeHandler {
+  kind: CellKind;
+  align: CellAlignment;
+  // Full text form, used for display and CSV export
+  format: (value: unknown, settings: DisplaySettings) => string;
+  // Value written to JSON exports; defaults to the value as received
+  toJSON?: (value: unknown, settings: DisplaySettings) => unknown;
+}
+
+// Type OIDs from pg_type.h; they are fixed for every built-in type
+export const TYPE_OIDS = {
+  bool: 16,
+  bytea: 17,
+  char: 18,
+  name: 19,
+  int8: 20,
+  int2: 21,
+  int4: 23,
+  text: 25,
+  oid: 26,
+  json: 114,
+  xml: 142,
+  cidr: 650,
+  float4: 700,
+  float8: 701,
+  money: 790,
+  macaddr: 829,
+  inet: 869,
+  bpchar: 1042,
+  varchar: 1043,
+  date: 1082,
+  time: 1083,
+  timestamp: 1114,
+  timestamptz: 1184,
+  interval: 1186,
+  timetz: 1266,
+  numeric: 1700,
+  uuid: 2950,
+  jsonb: 3802,
+} as const;
+
+// Array type OID to element type OID
+const ARRAY_ELEMENT_TYPES: Record<number, number> = {
+  1000: TYPE_OIDS.bool,
+  1001: TYPE_OIDS.bytea,
+  1003: TYPE_OIDS.name,
+  1005: TYPE_OIDS.int2,
+  1007: TYPE_OIDS.int4,
+  1009: TYPE_OIDS.text,
+  1014: TYPE_OIDS.bpchar,
+  1015: TYPE_OIDS.varchar,
+  1016: TYPE_OIDS.int8,
+  1021: TYPE_OIDS.float4,
+  1022: TYPE_OIDS.float8,
+  1028: TYPE_OIDS.oid,
+  1041: TYPE_OIDS.inet,
+  651: TYPE_OIDS.cidr,
+  1115: TYPE_OIDS.timestamp,
+  1182: TYPE_OIDS.date,
+  1183: TYPE_OIDS.time,
+  1185: TYPE_OIDS.timestamptz,
+  1187: TYPE_OIDS.interval,
+  1231: TYPE_OIDS.numeric,
+  199: TYPE_OIDS.json,
+  2951: TYPE_OIDS.uuid,
+  3807: TYPE_OIDS.jsonb,
+};
+
+const pad = (value: number, length = 2): string =>
+  String(value).padStart(length, "0");
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  const hours = pad(Math.floor(absolute / 60));
+  return absolute % 60
+    ? `${sign}${hours}:${pad(absolute % 60)}`
+    : `${sign}${hours}`;
+};
+
+const TIMESTAMPTZ_PATTERN =
+  /^(\d{4,})-(\d\d)-(\d\d) (\d\d):(\d\d):(\d\d)(\.\d+)?([+-])(\d\d)(?::(\d\d))?(?::(\d\d))?$/;
+
+/**
+ * Moves a timestamptz from the session's time zone to the display one,
+ * keeping the microseconds that a JS Date would drop. Values that don't
+ * parse (infinity, BC dates, non-ISO DateStyle) are shown as received.
+ */
+export const formatTimestamptz = (
+  raw: string,
+  timeZone: DisplayTimeZone,
+): string => {
+  const match = TIMESTAMPTZ_PATTERN.exec(raw);
+  if (timeZone === "session" || !match) return raw;
+
+  const [, year, month, day, hour, minute, second, fraction = ""] = match;
+  const offsetSeconds =
+    (match[8] === "-" ? -1 : 1) *
+    (Number(match[9]) * 3600 +
+      Number(match[10] || 0) * 60 +
+      Number(match[11] || 0));
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+    ) -
+      offsetSeconds * 1000,
+  );
+
+  if (timeZone === "UTC") {
+    return (
+      `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+      `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}${fraction}+00`
+    );
+  }
+
+  return (
+    `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}${fraction}` +
+    formatOffset(-date.getTimezoneOffset())
+  );
+};
+
+/**
+ * bytea arrives as a Uint8Array over IPC, or as a serialized Buffer when it
+ * went through JSON.
+ */
+export const toBytes = (value: unknown): Uint8Array | null => {
+  if (value instanceof Uint8Array) return value;
+  if (
+    value &&
+    typeof value === "object" &&
+    (value as { type?: string }).type === "Buffer" &&
+    Array.isArray((value as { data?: unknown }).data)
+  ) {
+    return Uint8Array.from((value as { data: number[] }).data);
+  }
+  return null;
+};
+
+export const formatBytes = (bytes: Uint8Array): string => {
+  let hex = "\\x";
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+};
+
+const IMAGE_SIGNATURES: { mimeType: string; signature: number[] }[] = [
+  { mimeType: "image/png", signature: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: "image/jpeg", signature: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", signature: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "image/webp", signature: [0x52, 0x49, 0x46, 0x46] },
+];
+
+// Detects common image formats by their magic bytes
+export const getImageMimeType = (bytes: Uint8Array): string | null => {
+  const match = IMAGE_SIGNATURES.find(({ signature }) =>
+    signature.every((byte, index) => bytes[index] === byte),
+  );
+  return match ? match.mimeType : null;
+};
+
+const stringify = (value: unknown): string =>
+  typeof value === "object" && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+
+const textHandler: TypeHandler = {
+  kind: "text",
+  align: "left",
+  format: stringify,
+};
+
+// Numbers keep the server's text where pg hands us one (int8, numeric), so
+// no precision is lost on the way to the grid
+const numberHandler: TypeHandler = {
+  kind: "number",
+  align: "right",
+  format: stringify,
+};
+
+const booleanHandler: TypeHandler = {
+  kind: "boolean",
+  align: "center",
+  format: stringify,
+};
+
+const temporalHandler: TypeHandler = {
+  kind: "temporal",
+  align: "left",
+  format: stringify,
+};
+
+const timestamptzHandler: TypeHandler = {
+  kind: "temporal",
+  align: "left",
+  format: (value, settings) =>
+    typeof value === "string"
+      ? formatTimestamptz(value, settings.timeZone)
+      : stringify(value),
+  toJSON: (value, settings) => timestamptzHandler.format(value, settings),
+};
+
+const intervalHandler: TypeHandler = {
+  kind: "interval",
+  align: "right",
+  format: stringify,
+};
+
+const uuidHandler: TypeHandler = {
+  kind: "uuid",
+  align: "left",
+  format: stringify,
+};
+
+const jsonHandler: TypeHandler = {
+  kind: "json",
+  align: "left",
+  format: (value) => JSON.stringify(value),
+};
+
+const binaryHandler: TypeHandler = {
+  kind: "binary",
+  align: "left",
+  format: (value) => {
+    const bytes = toBytes(value);
+    return bytes ? formatBytes(bytes) : stringify(value);
+  },
+  toJSON: (value) => binaryHandler.format(value, { timeZone: "session" }),
+};
+
+const networkHandler: TypeHandler = {
+  kind: "network",
+  align: "left",
+  format: stringify,
+};
+
+const enumHandler: TypeHandler = {
+  kind: "enum",
+  align: "left",
+  format: stringify,
+};
+
+const TYPE_REGISTRY: Record<number, TypeHandler> = {
+  [TYPE_OIDS.bool]: booleanHandler,
+  [TYPE_OIDS.bytea]: binaryHandler,
+  [TYPE_OIDS.int2]: numberHandler,
+  [TYPE_OIDS.int4]: numberHandler,
+  [TYPE_OIDS.int8]: numberHandler,
+  [TYPE_OIDS.oid]: numberHandler,
+  [TYPE_OIDS.float4]: numberHandler,
+  [TYPE_OIDS.float8]: numberHandler,
+  [TYPE_OIDS.numeric]: numberHandler,
+  [TYPE_OIDS.money]: numberHandler,
+  [TYPE_OIDS.date]: temporalHandler,
+  [TYPE_OIDS.time]: temporalHandler,
+  [TYPE_OIDS.timetz]: temporalHandler,
+  [TYPE_OIDS.timestamp]: temporalHandler,
+  [TYPE_OIDS.timestamptz]: timestamptzHandler,
+  [TYPE_OIDS.interval]: intervalHandler,
+  [TYPE_OIDS.uuid]: uuidHandler,
+  [TYPE_OIDS.json]: jsonHandler,
+  [TYPE_OIDS.jsonb]: jsonHandler,
+  [TYPE_OIDS.inet]: networkHandler,
+  [TYPE_OIDS.cidr]: networkHandler,
+  [TYPE_OIDS.macaddr]: networkHandler,
+};
+
+// pg_type.typcategory fallbacks for types without a fixed OID
+const CATEGORY_HANDLERS: Record<string, TypeHandler> = {
+  N: numberHandler,
+  B: booleanHandler,
+  D: temporalHandler,
+  T: intervalHandler,
+  I: networkHandler,
+  E: enumHandler,
+};
+
+// Quotes an array element the way PostgreSQL's array output does
+const quoteArrayElement = (text: string): string =>
+  text === "" || /[{}",\\\s]/.test(text) || text.toUpperCase() === "NULL"
+    ? `"${text.replace(/["\\]/g, "\\$&")}"`
+    : text;
+
+const createArrayHandler = (element: TypeHandler): TypeHandler => {
+  const formatItems = (value: unknown, settings: DisplaySettings): string =>
+    Array.isArray(value)
+      ? `{${value
+          .map((item) =>
+            item === null
+              ? "NULL"
+              : Array.isArray(item)
+                ? formatItems(item, settings)
+                : quoteArrayElement(element.format(item, settings)),
+          )
+          .join(",")}}`
+      : stringify(value);
+
+  const toJSONItems = (value: unknown, settings: DisplaySettings): unknown =>
+    Array.isArray(value)
+      ? value.map((item) =>
+          item === null
+            ? null
+            : Array.isArray(item)
+              ? toJSONItems(item, settings)
+              : element.toJSON
+                ? element.toJSON(item, settings)
+                : item,
+        )
+      : value;
+
+  return {
+    kind: "array",
+    align: "left",
+    format: formatItems,
+    toJSON: toJSONItems,
+  };
+};
+
+const arrayHandlers = new Map<number, TypeHandler>();
+
+export const getTypeHandler = (field: FieldInfo): TypeHandler => {
+  const handler = TYPE_REGISTRY[field.dataTypeID];
+  if (handler) return handler;
+
+  const elementType = ARRAY_ELEMENT_TYPES[field.dataTypeID];
+  if (elementType !== undefined || field.typeCategory === "A") {
+    let arrayHandler = arrayHandlers.get(field.dataTypeID);
+    if (!arrayHandler) {
+      arrayHandler = createArrayHandler(
+        (elementType !== undefined && TYPE_REGISTRY[elementType]) ||
+          textHandler,
+      );
+      arrayHandlers.set(field.dataTypeID, arrayHandler);
+    }
+    return arrayHandler;
+  }
+
+  return (
+    (field.typeCategory && CATEGORY_HANDLERS[field.typeCategory]) || textHandler
+  );
+};
+
+// Text for a non-null cell; NULL is left to the caller to render
+export const formatCellValue = (
+  value: unknown,
+  field: FieldInfo,
+  settings: DisplaySettings,
+): string => getTypeHandler(field).format(value, settings);
+
+export const toExportValue = (
+  value: unknown,
+  field: FieldInfo,
+  settings: DisplaySettings,
+): unknown => {
+  if (value === null || value === undefined) return null;
+  const handler = getTypeHandler(field);
+  return handler.toJSON ? handler.toJSON(value, settings) : value;
+};
+
+// Whether the display time zone setting changes how these fields look,
+// timestamptz arrays included
+export const hasTimestamptzFields = (fields: FieldInfo[]): boolean =>
+  fields.some(
+    (field) =>
+      field.dataTypeID === TYPE_OIDS.timestamptz ||
+      ARRAY_ELEMENT_TYPES[field.dataTypeID] === TYPE_OIDS.timestamptz,
+  );
@@ -0,0 +1,42 @@
+import { DatabaseConnection, QueryTab, SavedTab, Workspace } from "../types";
+
+export const DEFAULT_SIDEBAR_WIDTH = 280;
+
+const toSavedTab = (tab: QueryTab): SavedTab => ({
+  id: tab.id,
+  title: tab.title,
+  query: tab.query,
+  connectionId: tab.connectionId,
+  selectedSchema: tab.selectedSchema,
+  parameters: tab.parameters,
+  timeouts: tab.timeouts,
+  cursor: tab.cursor,
+  lastRun: tab.lastRun,
+});
+
+export const toWorkspace = (
+  tabs: QueryTab[],
+  activeTabId: string | null,
+  sidebarWidth: number,
+): Workspace => ({
+  tabs: tabs.map(toSavedTab),
+  activeTabId,
+  sidebarWidth,
+});
+
+// Tabs of connections that were deleted meanwhile are dropped. The others
+// come back closed; they reconnect when they next run.
+export const restoreTabs = (
+  workspace: Workspace,
+  connections: DatabaseConnection[],
+): { queryTabs: QueryTab[]; activeTabId: string | null } => {
+  const queryTabs = workspace.tabs
+    .filter((tab) =>
+      connections.some((connection) => connection.id === tab.connectionId),
+    )
+    .map((tab): QueryTab => ({ ...tab, isExecuting: false }));
+  const activeTabId = queryTabs.some((tab) => tab.id === workspace.activeTabId)
+    ? workspace.activeTabId
+    : (queryTabs[0]?.id ?? null);
+  return { queryTabs, activeTabId };
+};
@@ -0,0 +1,113 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Connection Folders and Environments", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+  let connectionName: string;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    connectionName =
+      await testConnection.createTestConnection("environment-test");
+    await mainPage.connectionPage.editConnection(connectionName);
+    await mainPage.connectionPage.folderInput.fill("Customers");
+    await mainPage.connectionPage.environmentSelect.selectOption("prod");
+    await mainPage.connectionPage.saveConnection();
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should group the connection and mark its tabs", async ({ page }) => {
+    const folder = page.locator(
+      '[data-testid="connection-folder"][data-folder="Customers"]',
+    );
+    await expect(
+      folder.locator(`[data-connection-name="${connectionName}"]`),
+    ).toBeVisible();
+    await expect(
+      folder.locator('[data-testid="connection-env-badge"]'),
+    ).toHaveText("prod");
+
+    await expect(
+      page.locator('[data-testid="connection-banner"]'),
+    ).toContainText("Production");
+  });
+
+  test("should ask before running a write on production", async ({ page }) => {
+    let prompt = "";
+    page.once("dialog", (dialog) => {
+      prompt = dialog.message();
+      dialog.dismiss();
+    });
+    await queryEditor.writeQuery("CREATE TEMP TABLE prod_guard (id int)");
+    await queryEditor.executeQuery();
+
+    await expect.poll(() => prompt).toContain("production connection");
+    await expect(queryEditor.resultsInfo).toHaveCount(0);
+
+    // Reads run without a prompt
+    await queryEditor.clearQuery();
+    await queryEditor.writeQuery("SELECT 1 AS answer");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toBeVisible({ timeout: 10000 });
+  });
+
+  test("should ask before statements that write without saying so", async ({
+    page,
+  }) => {
+    const writes = [
+      "EXPLAIN ANALYZE DELETE FROM city WHERE id = 0",
+      "EXPLAIN (ANALYZE, BUFFERS) UPDATE city SET name = name WHERE id = 0",
+      "SELECT * INTO TEMP prod_copy FROM city",
+      "LOCK TABLE city IN SHARE MODE",
+      "PREPARE prod_delete AS DELETE FROM city WHERE id = 0",
+      "EXECUTE prod_delete",
+      "SELECT * FROM city WHERE id = 1 FOR UPDATE",
+      "SELECT nextval('city_id_seq')",
+      "SELECT setval('city_id_seq', 1)",
+    ];
+    for (const sql of writes) {
+      let prompt = "";
+      page.once("dialog", (dialog) => {
+        prompt = dialog.message();
+        dialog.dismiss();
+      });
+      await queryEditor.writeQuery(sql);
+      await queryEditor.executeQuery();
+      await expect
+        .poll(() => prompt, { message: sql })
+        .toContain("production connection");
+    }
+    await expect(queryEditor.resultsInfo).toHaveCount(0);
+  });
+
+  test("should ask before EXPLAIN ANALYZE of a write", async ({ page }) => {
+    let prompt = "";
+    page.once("dialog", (dialog) => {
+      prompt = dialog.message();
+      dialog.dismiss();
+    });
+    await queryEditor.writeQuery("DELETE FROM city WHERE id = 0");
+    await queryEditor.explainAnalyzeButton.click();
+
+    await expect.poll(() => prompt).toContain("production connection");
+    await expect(queryEditor.explainPlan).toHaveCount(0);
+
+    // A plain EXPLAIN doesn't run the statement
+    await queryEditor.explainButton.click();
+    await expect(queryEditor.explainPlan).toBeVisible({ timeout: 10000 });
+  });
+});
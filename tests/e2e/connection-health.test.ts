@@ -0,0 +1,56 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Connection Health", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("health-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should tell a tab that its session was lost", async ({ page }) => {
+    await expect(
+      page.locator('[data-testid="connection-status"]').first(),
+    ).toHaveAttribute("data-status", "connected");
+
+    await page
+      .locator('[data-testid="transaction-mode-select"]')
+      .selectOption("manual");
+    await queryEditor.writeQuery(
+      "CREATE TEMP TABLE messql_health_test (id int)",
+    );
+    await queryEditor.executeQuery();
+    await expect(
+      page.locator('[data-testid="transaction-status"]'),
+    ).toBeVisible({ timeout: 10000 });
+
+    await queryEditor.openNewTab();
+    await queryEditor.writeQuery(
+      "SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE query LIKE '%messql_health_test%' AND pid <> pg_backend_pid()",
+    );
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsInfo).toBeVisible({ timeout: 10000 });
+
+    await page.locator('[data-testid="query-tab"]').first().click();
+    await expect(queryEditor.errorContainer).toContainText("Session lost", {
+      timeout: 10000,
+    });
+  });
+});
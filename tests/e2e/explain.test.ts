@@ -0,0 +1,79 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Explain", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("explain-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should show the estimated plan", async ({ page }) => {
+    await queryEditor.writeQuery(
+      "SELECT * FROM city JOIN country ON country.code = city.countrycode",
+    );
+    await queryEditor.explainButton.click();
+
+    await expect(queryEditor.explainPlan).toBeVisible({ timeout: 10000 });
+    await expect(queryEditor.explainPlan).not.toContainText("Explain Analyze");
+    expect(
+      await page.locator('[data-testid="plan-node"]').count(),
+    ).toBeGreaterThan(1);
+    await expect(queryEditor.explainPlan).toContainText("Join");
+  });
+
+  test("should show actual times with Explain Analyze", async () => {
+    await queryEditor.writeQuery("SELECT count(*) FROM city");
+    await queryEditor.explainAnalyzeButton.click();
+
+    await expect(queryEditor.explainPlan).toContainText("Explain Analyze", {
+      timeout: 10000,
+    });
+    await expect(queryEditor.explainPlan).toContainText("execution");
+  });
+
+  test("should roll back what Explain Analyze changed", async () => {
+    await queryEditor.writeQuery(
+      "UPDATE city SET name = name || ' (messql)' WHERE id = 1",
+    );
+    await queryEditor.explainAnalyzeButton.click();
+    await expect(queryEditor.explainPlan).toContainText("Explain Analyze", {
+      timeout: 10000,
+    });
+
+    await queryEditor.writeQuery(
+      "SELECT count(*) AS changed FROM city WHERE name LIKE '%(messql)'",
+    );
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toContainText("0", {
+      timeout: 10000,
+    });
+  });
+
+  test("should refuse transaction control", async () => {
+    await queryEditor.writeQuery("COMMIT");
+    await queryEditor.explainButton.click();
+    await expect(queryEditor.errorContainer).toContainText(
+      "transaction control can't be explained",
+      { timeout: 10000 },
+    );
+    await expect(queryEditor.explainPlan).toHaveCount(0);
+  });
+});
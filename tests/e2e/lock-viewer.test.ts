@@ -0,0 +1,66 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { LockViewerPage } from "../page-objects/LockViewerPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Lock Viewer", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let lockViewer: LockViewerPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    lockViewer = new LockViewerPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("locks-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should show a blocking chain and cancel its head", async ({
+    page,
+    electronApp,
+  }) => {
+    await queryEditor.writeQuery(
+      "CREATE TABLE IF NOT EXISTS messql_lock_test (id int)",
+    );
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsInfo).toBeVisible({ timeout: 10000 });
+
+    // Statements of a run share a transaction, so the lock is held while it sleeps
+    await queryEditor.writeQuery(
+      "LOCK TABLE messql_lock_test; SELECT pg_sleep(30)",
+    );
+    await queryEditor.executeQuery();
+
+    await queryEditor.openNewTab();
+    await queryEditor.writeQuery("SELECT * FROM messql_lock_test");
+    await queryEditor.executeQuery();
+
+    await lockViewer.open(electronApp);
+    await expect(lockViewer.viewer).toBeVisible();
+    await expect(lockViewer.nodes).toHaveCount(2, { timeout: 10000 });
+    await expect(lockViewer.nodes.nth(0)).toContainText("blocks 1");
+    await expect(lockViewer.nodes.nth(1)).toContainText(
+      "AccessShareLock on messql_lock_test",
+    );
+
+    await lockViewer.blockerLinks.first().click();
+    await expect(lockViewer.selectedQuery).toContainText("LOCK TABLE");
+
+    page.once("dialog", (dialog) => dialog.accept());
+    await lockViewer.cancelButton.click();
+    await expect(lockViewer.nodes).toHaveCount(0, { timeout: 10000 });
+  });
+});
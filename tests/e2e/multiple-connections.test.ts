@@ -0,0 +1,75 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Multiple Connections", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+  let firstConnection: string;
+  let secondConnection: string;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    firstConnection = await testConnection.createTestConnection("multi-first");
+    secondConnection =
+      await testConnection.createTestConnection("multi-second");
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should keep each tab on its own connection", async ({ page }) => {
+    await testConnection.connectToTestDatabase(firstConnection, true);
+    const firstTab = page.locator('[data-testid="query-tab"]').first();
+    await queryEditor.writeQuery("SELECT 'first' AS source");
+
+    await testConnection.connectToTestDatabase(secondConnection, true);
+    await expect(
+      queryEditor.connectionSelect.locator("option:checked"),
+    ).toHaveText(secondConnection);
+
+    // Both stay open, each with its own schema tree
+    await expect(page.locator('[data-testid="schema-connection"]')).toHaveCount(
+      2,
+    );
+
+    // Selecting the other connection in the sidebar does not move the tab
+    await mainPage.connectionPage.connectToDatabase(firstConnection);
+    await expect(
+      queryEditor.connectionSelect.locator("option:checked"),
+    ).toHaveText(secondConnection);
+
+    await firstTab.click();
+    await expect(
+      queryEditor.connectionSelect.locator("option:checked"),
+    ).toHaveText(firstConnection);
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toContainText("first", {
+      timeout: 10000,
+    });
+  });
+
+  test("should move a tab to another connection", async () => {
+    await testConnection.connectToTestDatabase(firstConnection, true);
+
+    await queryEditor.connectionSelect.selectOption({
+      label: secondConnection,
+    });
+    await expect(
+      queryEditor.connectionSelect.locator("option:checked"),
+    ).toHaveText(secondConnection);
+
+    await queryEditor.writeQuery("SELECT current_database() AS db");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toBeVisible({ timeout: 10000 });
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { NotificationConsolePage } from "../page-objects/NotificationConsolePage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("LISTEN/NOTIFY Console", () => {
+  let mainPage: MainPage;
+  let consolePage: NotificationConsolePage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    consolePage = new NotificationConsolePage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("notify-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should receive notifications sent on a listened channel", async () => {
+    await consolePage.openButton.click();
+    await expect(consolePage.console).toBeVisible();
+
+    await consolePage.listen("messql_test");
+    await expect(consolePage.listenedChannels).toHaveText(["messql_test×"]);
+
+    await consolePage.notify("messql_test", '{"event":"created","id":7}');
+    await expect(consolePage.notifications).toHaveCount(1, { timeout: 10000 });
+    await expect(consolePage.notifications.nth(0)).toContainText("messql_test");
+    // JSON payloads are pretty-printed
+    await expect(consolePage.notifications.nth(0).locator("pre")).toHaveText(
+      '{\n  "event": "created",\n  "id": 7\n}',
+    );
+  });
+});
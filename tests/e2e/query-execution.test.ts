@@ -108,6 +108,144 @@ test.describe("Query Execution", () => {
       expect(results.length).toBe(6);
       await mainPage.closeCurrentTab();
     });
+
+    test("should show a result tab for every statement", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT 1 AS a; SELECT 2 AS b, 3 AS c; SELECT 4 AS d;",
+      );
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.resultTabs).toHaveCount(3, {
+        timeout: 10000,
+      });
+
+      await mainPage.queryEditorPage.resultTabs.nth(1).click();
+      await expect(
+        mainPage.queryEditorPage.resultsTable.locator("th"),
+      ).toHaveCount(2);
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should show server notices in the Messages tab", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT 1 AS a; DO $$ BEGIN RAISE NOTICE 'hello %', 42; RAISE WARNING 'careful'; END $$;",
+      );
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.messagesTab).toHaveText(
+        "Messages (2)",
+        { timeout: 10000 },
+      );
+      await mainPage.queryEditorPage.messagesTab.click();
+      await expect(
+        mainPage.queryEditorPage.serverMessages.nth(0),
+      ).toContainText("NOTICE");
+      await expect(
+        mainPage.queryEditorPage.serverMessages.nth(0),
+      ).toContainText("hello 42");
+      await expect(
+        mainPage.queryEditorPage.serverMessages.nth(1),
+      ).toContainText("WARNING");
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should not split on semicolons in literals and comments", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT 'a;b' AS a, $$c;d$$ AS b /* ; */, E'e\\';f' AS c -- ;\n; SELECT 1 AS d;",
+      );
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.resultTabs).toHaveCount(2, {
+        timeout: 10000,
+      });
+      await mainPage.queryEditorPage.resultTabs.nth(0).click();
+      const results = await mainPage.queryEditorPage.getQueryResults();
+      expect(results[1]).toEqual(["a;b", "c;d", "e';f"]);
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should run only the statement under the cursor", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT 1 AS a;\nSELECT 2 AS b;\nSELECT 3 AS c;",
+      );
+      await mainPage.queryEditorPage.queryEditor
+        .locator(".cm-line")
+        .nth(1)
+        .click();
+      await mainPage.queryEditorPage.runStatementButton.click();
+
+      await expect(mainPage.queryEditorPage.resultsTable).toBeVisible({
+        timeout: 10000,
+      });
+      const results = await mainPage.queryEditorPage.getQueryResults();
+      expect(results.length).toBe(2);
+      expect(results[1]).toEqual(["2"]);
+      await expect(
+        mainPage.queryEditorPage.resultsTable.locator("th"),
+      ).toHaveText(["b"]);
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should bind values for placeholders", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT $1::int + 1 AS next, :label::text AS label;",
+      );
+
+      await expect(mainPage.queryEditorPage.parameterInputs).toHaveCount(2);
+      await mainPage.queryEditorPage.parameterInputs.nth(0).fill("41");
+      await mainPage.queryEditorPage.parameterInputs.nth(1).fill("answer");
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.resultsTable).toBeVisible({
+        timeout: 10000,
+      });
+      const results = await mainPage.queryEditorPage.getQueryResults();
+      expect(results[1]).toEqual(["42", "answer"]);
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should leave the parameters of prepared statements alone", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "PREPARE messql_double(int) AS SELECT $1 * 2 AS doubled;\nEXECUTE messql_double(21);\nDEALLOCATE messql_double;",
+      );
+
+      await expect(mainPage.queryEditorPage.parameterInputs).toHaveCount(0);
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.resultTabs).toHaveCount(3, {
+        timeout: 10000,
+      });
+      await mainPage.queryEditorPage.resultTabs.nth(1).click();
+      const results = await mainPage.queryEditorPage.getQueryResults();
+      expect(results[1]).toEqual(["42"]);
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should render values by column type", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT 12345678901234567890.123::numeric AS amount, '\\xdeadbeef'::bytea AS data, ARRAY[1, 2] AS ids, '{\"a\": 1}'::jsonb AS doc;",
+      );
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.resultsTable).toBeVisible({
+        timeout: 10000,
+      });
+      const results = await mainPage.queryEditorPage.getQueryResults();
+      expect(results[1]).toEqual([
+        "12345678901234567890.123",
+        "\\xdeadbeef",
+        "{1,2}",
+        '{"a":1}',
+      ]);
+      await mainPage.closeCurrentTab();
+    });
   });
 
   test.describe("Query Error Handling", () => {
@@ -139,6 +277,26 @@ test.describe("Query Execution", () => {
       await mainPage.closeCurrentTab();
     });
 
+    test("should mark the failing position in the editor", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery(
+        "SELECT 1;\nSELECT name, missing_column FROM city;",
+      );
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.errorContainer).toContainText(
+        "42703",
+        { timeout: 10000 },
+      );
+      await expect(mainPage.queryEditorPage.errorContainer).toContainText(
+        "line 2, column 14",
+      );
+      await expect(
+        mainPage.queryEditorPage.queryEditor.locator(".cm-error-marker"),
+      ).toHaveText("missing_column");
+      await mainPage.closeCurrentTab();
+    });
+
     test("should clear previous results on new query", async () => {
       await mainPage.queryEditorPage.openNewTab();
       await mainPage.openNewQuery();
@@ -157,6 +315,57 @@ test.describe("Query Execution", () => {
     });
   });
 
+  test.describe("Result Cursors", () => {
+    test("should fetch large results a page at a time", async ({ page }) => {
+      const rowCount = page.locator('[data-testid="row-count"]');
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery("SELECT * FROM city");
+      await mainPage.queryEditorPage.executeQuery();
+      await expect(rowCount).toContainText("more available", {
+        timeout: 10000,
+      });
+
+      await page.locator('[data-testid="fetch-all-btn"]').click();
+      await expect(rowCount).toHaveText(/^[\d,]+ rows$/, { timeout: 10000 });
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should run locking and writing SELECTs to completion", async ({
+      page,
+    }) => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery("SELECT * FROM city FOR SHARE");
+      await mainPage.queryEditorPage.executeQuery();
+      await expect(page.locator('[data-testid="row-count"]')).toHaveText(
+        /^[\d,]+ rows$/,
+        { timeout: 10000 },
+      );
+      await mainPage.closeCurrentTab();
+    });
+
+    test("should not run out of clients with many paged results", async ({
+      page,
+    }) => {
+      // More tabs than the pool has clients, each holding a cursor
+      for (let index = 0; index < 12; index++) {
+        await mainPage.queryEditorPage.openNewTab();
+        await mainPage.queryEditorPage.writeQuery("SELECT * FROM city");
+        await mainPage.queryEditorPage.executeQuery();
+        await expect(page.locator('[data-testid="row-count"]')).toContainText(
+          "more available",
+          { timeout: 10000 },
+        );
+      }
+
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.writeQuery("SELECT 1 AS answer");
+      await mainPage.queryEditorPage.executeQuery();
+      await expect(mainPage.queryEditorPage.resultsTable).toContainText("1", {
+        timeout: 10000,
+      });
+    });
+  });
+
   test.describe("Query Cancellation", () => {
     test("should cancel running query", async () => {
       await mainPage.queryEditorPage.openNewTab();
@@ -166,12 +375,33 @@ test.describe("Query Execution", () => {
       // Cancel the query
       await mainPage.queryEditorPage.cancelQuery();
 
-      // Should be able to run new query
+      // The server confirms well before the sleep would have finished
+      await expect(mainPage.queryEditorPage.errorContainer).toContainText(
+        "Query cancelled by user",
+        { timeout: 5000 },
+      );
       await expect(mainPage.queryEditorPage.executeButton).toBeEnabled();
 
       await mainPage.closeCurrentTab();
     });
 
+    test("should stop at the tab's statement timeout", async () => {
+      await mainPage.queryEditorPage.openNewTab();
+      await mainPage.queryEditorPage.timeoutsButton.click();
+      await mainPage.queryEditorPage.statementTimeoutInput.fill("1");
+      await mainPage.queryEditorPage.writeQuery("SELECT pg_sleep(10);");
+      await mainPage.queryEditorPage.executeQuery();
+
+      await expect(mainPage.queryEditorPage.errorContainer).toContainText(
+        "Statement timeout: Query timed out",
+        { timeout: 5000 },
+      );
+      await expect(mainPage.queryEditorPage.errorContainer).toContainText(
+        "statement_timeout",
+      );
+      await mainPage.closeCurrentTab();
+    });
+
     test("should show loading indicator during query execution", async () => {
       await mainPage.queryEditorPage.openNewTab();
       await mainPage.queryEditorPage.writeQuery("SELECT 1;");
@@ -0,0 +1,61 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { QueryHistoryPage } from "../page-objects/QueryHistoryPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Query History", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let historyPage: QueryHistoryPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    historyPage = new QueryHistoryPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("history-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test("should search, filter and star queries kept across restarts", async ({
+    page,
+  }) => {
+    await queryEditor.writeQuery("SELECT 'kept_value' AS history_check");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toContainText("kept_value", {
+      timeout: 10000,
+    });
+    await queryEditor.writeQuery("SELECT * FROM missing_history_table");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.errorContainer).toBeVisible({ timeout: 10000 });
+
+    await page.reload();
+    await mainPage.waitForAppToLoad();
+    await historyPage.openButton.click();
+    await expect(historyPage.panel).toBeVisible();
+    await expect(historyPage.entries).toHaveCount(2);
+
+    // Words match the start of words in the query
+    await historyPage.search("kept histo");
+    await expect(historyPage.entries).toHaveCount(1);
+    await expect(historyPage.entries.first()).toContainText("kept_value");
+
+    await historyPage.search("");
+    await historyPage.statusFilter.selectOption("error");
+    await expect(historyPage.entries).toHaveCount(1);
+    await expect(historyPage.entries.first()).toContainText(
+      "missing_history_table",
+    );
+
+    await historyPage.star(0);
+    await historyPage.statusFilter.selectOption("");
+    await historyPage.starredFilter.check();
+    await expect(historyPage.entries).toHaveCount(1);
+    await expect(historyPage.total).toHaveText("1 query");
+  });
+});
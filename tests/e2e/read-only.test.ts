@@ -0,0 +1,76 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Read-only Connections", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("read-only-test");
+    await mainPage.connectionPage.editConnection(connectionName);
+    await mainPage.connectionPage.readOnlyCheckbox.check();
+    await mainPage.connectionPage.saveConnection();
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should refuse write statements before running them", async () => {
+    await queryEditor.writeQuery(
+      "SELECT 1; CREATE TEMP TABLE messql_read_only_test (id int)",
+    );
+    await queryEditor.executeQuery();
+    await expect(queryEditor.errorContainer).toContainText(
+      "Connection is read-only; refusing to run CREATE statement",
+      { timeout: 10000 },
+    );
+  });
+
+  test("should refuse switching the session back to read-write", async () => {
+    await queryEditor.writeQuery("SET default_transaction_read_only = off");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.errorContainer).toContainText(
+      "refusing to run SET statement",
+      { timeout: 10000 },
+    );
+  });
+
+  test("should leave writes it can't see to the server", async () => {
+    await queryEditor.writeQuery(
+      "DO $$ BEGIN CREATE TEMP TABLE messql_read_only_test (id int); END $$",
+    );
+    await queryEditor.executeQuery();
+    await expect(queryEditor.errorContainer).toContainText(
+      "read-only transaction",
+      { timeout: 10000 },
+    );
+  });
+
+  test("should refuse EXPLAIN ANALYZE of a write", async () => {
+    await queryEditor.writeQuery("DELETE FROM city WHERE id = 0");
+    await queryEditor.explainAnalyzeButton.click();
+    await expect(queryEditor.errorContainer).toContainText(
+      "refusing to analyze DELETE statement",
+      { timeout: 10000 },
+    );
+  });
+
+  test("should run reads", async () => {
+    await queryEditor.writeQuery("SELECT count(*) AS cities FROM city");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toBeVisible({ timeout: 10000 });
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { SessionActivityPage } from "../page-objects/SessionActivityPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Session Activity Monitor", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let activityPage: SessionActivityPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    activityPage = new SessionActivityPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("activity-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  test("should cancel a running query from the monitor", async ({
+    page,
+    electronApp,
+  }) => {
+    await activityPage.open(electronApp);
+    await expect(activityPage.monitor).toBeVisible();
+
+    await queryEditor.writeQuery("SELECT pg_sleep(30)");
+    await queryEditor.executeQuery();
+
+    const session = activityPage.sessionRunning("pg_sleep(30)");
+    await expect(session).toHaveCount(1, { timeout: 10000 });
+    await expect(session).toContainText("active");
+
+    page.once("dialog", (dialog) => dialog.accept());
+    await session.locator('[data-testid="activity-cancel-btn"]').click();
+
+    await expect(queryEditor.errorContainer).toContainText(
+      "canceling statement due to user request",
+      { timeout: 10000 },
+    );
+    await expect(session).toHaveCount(0, { timeout: 10000 });
+  });
+});
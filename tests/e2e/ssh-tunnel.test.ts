@@ -0,0 +1,129 @@
+import { test, expect } from "@playwright/test";
+import { Socket, connect } from "net";
+import { Connection, Server, utils } from "ssh2";
+import { DatabaseService } from "../../src/main/services/database";
+import type {
+  ConnectionHealth,
+  DatabaseConnection,
+} from "../../src/main/preload";
+import { TestDatabase } from "../helpers/test-database";
+
+const SSH_PASSWORD = "tunnel-test";
+
+// A bastion that forwards to the test database. Stopping it drops every SSH
+// connection and forwarded socket, as a bastion restart would.
+class TestBastion {
+  private server: Server | null = null;
+  private connections = new Set<Connection | Socket>();
+  private readonly hostKey = utils.generateKeyPairSync("ed25519").private;
+
+  async start(port = 0): Promise<number> {
+    const server = new Server({ hostKeys: [this.hostKey] }, (client) => {
+      this.connections.add(client);
+      client.on("close", () => this.connections.delete(client));
+      client.on("error", () => undefined);
+      client.on("authentication", (context) => {
+        if (
+          context.method === "password" &&
+          context.password === SSH_PASSWORD
+        ) {
+          context.accept();
+        } else {
+          context.reject(["password"]);
+        }
+      });
+      client.on("tcpip", (accept, _reject, info) => {
+        const stream = accept();
+        const socket = connect(info.destPort, info.destIP);
+        this.connections.add(socket);
+        socket.on("close", () => this.connections.delete(socket));
+        socket.on("error", () => stream.close());
+        stream.on("error", () => socket.destroy());
+        stream.pipe(socket).pipe(stream);
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve) =>
+      server.listen(port, "127.0.0.1", resolve),
+    );
+    return (server.address() as { port: number }).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const connection of this.connections) {
+      if (connection instanceof Socket) {
+        connection.destroy();
+      } else {
+        connection.end();
+      }
+    }
+    this.connections.clear();
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(
+      (resolve) => server?.close(() => resolve()) ?? resolve(),
+    );
+  }
+}
+
+test.describe("SSH Tunnel", () => {
+  let bastion: TestBastion;
+  let database: DatabaseService;
+
+  test.beforeEach(() => {
+    bastion = new TestBastion();
+    database = new DatabaseService();
+  });
+
+  test.afterEach(async () => {
+    await database.disconnect("tunnel-test");
+    await bastion.stop();
+  });
+
+  test("should reopen the tunnel after it was killed", async () => {
+    test.setTimeout(120000);
+    const sshPort = await bastion.start();
+    const config: DatabaseConnection = {
+      id: "tunnel-test",
+      name: "Tunnel Test",
+      host: TestDatabase.config.host,
+      port: Number(TestDatabase.config.port),
+      database: TestDatabase.config.database,
+      username: TestDatabase.config.username,
+      ssh: {
+        host: "127.0.0.1",
+        port: sshPort,
+        username: "tunnel",
+        authMethod: "password",
+        verifyHostKey: false,
+      },
+    };
+    const statuses: string[] = [];
+    database.on("connectionHealth", (health: ConnectionHealth) => {
+      statuses.push(health.status);
+    });
+
+    const { error } = await database.connect(
+      config,
+      TestDatabase.config.password,
+      { ssh: SSH_PASSWORD },
+    );
+    expect(error).toBeUndefined();
+    const before = await database.query(config.id, "SELECT 1 AS answer");
+    expect(before.rows).toEqual([{ answer: 1 }]);
+
+    // The pool's dropped clients, or else the next keepalive, notice
+    await bastion.stop();
+    await expect
+      .poll(() => statuses, { timeout: 45000 })
+      .toContain("reconnecting");
+
+    await bastion.start(sshPort);
+    await expect
+      .poll(() => statuses[statuses.length - 1], { timeout: 30000 })
+      .toBe("connected");
+    const after = await database.query(config.id, "SELECT 1 AS answer");
+    expect(after.rows).toEqual([{ answer: 1 }]);
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Manual Transactions", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+
+    const connectionName =
+      await testConnection.createTestConnection("transaction-test");
+    await testConnection.connectToTestDatabase(connectionName, true);
+    await queryEditor.transactionModeSelect.selectOption("manual");
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.clear();
+    });
+  });
+
+  // Temporary tables live in the tab's pinned session, so only a committed
+  // one is still there for the next run
+  const createTable = async () => {
+    await queryEditor.writeQuery(
+      "CREATE TEMP TABLE messql_tx_test (id int); INSERT INTO messql_tx_test VALUES (1)",
+    );
+    await queryEditor.executeQuery();
+    await expect(queryEditor.transactionStatus).toHaveText("In transaction", {
+      timeout: 10000,
+    });
+  };
+
+  test("should keep the transaction open until it is committed", async () => {
+    await expect(queryEditor.transactionStatus).toHaveText("Idle");
+    await createTable();
+
+    await queryEditor.commitButton.click();
+    await expect(queryEditor.transactionStatus).toHaveText("Idle");
+
+    await queryEditor.writeQuery("SELECT count(*) AS rows FROM messql_tx_test");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toContainText("1", {
+      timeout: 10000,
+    });
+  });
+
+  test("should discard the transaction's changes on rollback", async () => {
+    await createTable();
+
+    await queryEditor.rollbackButton.click();
+    await expect(queryEditor.transactionStatus).toHaveText("Idle");
+
+    await queryEditor.writeQuery("SELECT count(*) FROM messql_tx_test");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.errorContainer).toContainText("does not exist", {
+      timeout: 10000,
+    });
+  });
+
+  test("should show a failed transaction until it is rolled back", async () => {
+    await queryEditor.writeQuery("SELECT 1 / 0");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.transactionStatus).toHaveText("Failed", {
+      timeout: 10000,
+    });
+
+    await queryEditor.rollbackButton.click();
+    await expect(queryEditor.transactionStatus).toHaveText("Idle");
+    await queryEditor.writeQuery("SELECT 1 AS answer");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toBeVisible({ timeout: 10000 });
+  });
+});
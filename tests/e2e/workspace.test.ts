@@ -0,0 +1,58 @@
+import { test, expect } from "../helpers/electron-app";
+import { MainPage } from "../page-objects/MainPage";
+import { QueryEditorPage } from "../page-objects/QueryEditorPage";
+import { TestConnection } from "../helpers/test-connection";
+
+test.describe("Workspace", () => {
+  let mainPage: MainPage;
+  let queryEditor: QueryEditorPage;
+  let testConnection: TestConnection;
+
+  test.beforeEach(async ({ page }) => {
+    mainPage = new MainPage(page);
+    queryEditor = new QueryEditorPage(page);
+    testConnection = new TestConnection(page);
+    await mainPage.waitForAppToLoad();
+  });
+
+  test("should restore open tabs after a restart", async ({ page }) => {
+    const connectionName =
+      await testConnection.createTestConnection("workspace");
+    await testConnection.connectToTestDatabase(connectionName, true);
+    await queryEditor.writeQuery("SELECT 42 AS answer");
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toContainText("42", {
+      timeout: 10000,
+    });
+
+    // Saved shortly after the last change
+    await expect
+      .poll(() =>
+        page.evaluate(async () => {
+          const workspace = await window.electronAPI.config.get("workspace");
+          return workspace.tabs[0]?.lastRun?.rowCount;
+        }),
+      )
+      .toBe(1);
+
+    await page.reload();
+    await mainPage.waitForAppToLoad();
+
+    await expect(page.locator('[data-testid="query-tab"]')).toHaveCount(1);
+    await expect
+      .poll(() => queryEditor.getQueryText())
+      .toBe("SELECT 42 AS answer");
+    await expect(
+      page.locator('[data-testid="restored-summary"]'),
+    ).toContainText("Returned 1 rows");
+    await expect(
+      queryEditor.connectionSelect.locator("option:checked"),
+    ).toHaveText(connectionName);
+
+    // Runs again once its connection reopens
+    await queryEditor.executeQuery();
+    await expect(queryEditor.resultsTable).toContainText("42", {
+      timeout: 10000,
+    });
+  });
+});
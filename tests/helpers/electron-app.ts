@@ -4,6 +4,9 @@ import {
   ElectronApplication,
   Page,
 } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 
 export const test = base.extend<{
   electronApp: ElectronApplication;
@@ -18,13 +21,19 @@ export const test = base.extend<{
       args.push("--no-sandbox", "--disable-setuid-sandbox", "--headless");
     }
 
+    // Each test gets its own profile, so saved connections and the config
+    // file don't leak between tests or into the developer's own
+    const userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), "messql-e2e-"));
+
     const electronApp = await electron.launch({
       args,
+      env: { ...process.env, MESSQL_USER_DATA_DIR: userDataDir },
       timeout: 30000,
     });
 
     await use(electronApp);
     await electronApp.close();
+    fs.rmSync(userDataDir, { recursive: true, force: true });
   },
 
   page: async ({ electronApp }, use) => {
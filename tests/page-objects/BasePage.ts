@@ -1,4 +1,4 @@
-import { Page, Locator, expect } from '@playwright/test'
+import { ElectronApplication, Page, Locator, expect } from '@playwright/test'
 
 export default class BasePage {
   protected page: Page
@@ -50,4 +50,11 @@ export default class BasePage {
   async pause(milliseconds: number): Promise<void> {
     await this.page.waitForTimeout(milliseconds)
   }
-}
\ No newline at end of file
+
+  // Menu items can't be clicked from tests, so their event is sent directly
+  async sendMenuEvent(electronApp: ElectronApplication, channel: string): Promise<void> {
+    await electronApp.evaluate(({ BrowserWindow }, channel) => {
+      BrowserWindow.getAllWindows()[0].webContents.send(channel)
+    }, channel)
+  }
+}
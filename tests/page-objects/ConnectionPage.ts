@@ -4,12 +4,22 @@ import BasePage from "./BasePage";
 export class ConnectionPage extends BasePage {
   readonly newConnectionButton: Locator;
   readonly connectionNameInput: Locator;
+  readonly uriInput: Locator;
+  readonly folderInput: Locator;
+  readonly environmentSelect: Locator;
   readonly hostInput: Locator;
   readonly portInput: Locator;
   readonly databaseInput: Locator;
   readonly usernameInput: Locator;
   readonly passwordInput: Locator;
-  readonly sslCheckbox: Locator;
+  readonly sslModeSelect: Locator;
+  readonly readOnlyCheckbox: Locator;
+  readonly sslRootCertInput: Locator;
+  readonly sshCheckbox: Locator;
+  readonly sshHostInput: Locator;
+  readonly sshUsernameInput: Locator;
+  readonly sshAuthSelect: Locator;
+  readonly sshSecretInput: Locator;
   readonly testConnectionButton: Locator;
   readonly saveConnectionButton: Locator;
   readonly cancelButton: Locator;
@@ -29,12 +39,22 @@ export class ConnectionPage extends BasePage {
     this.connectionNameInput = page.locator(
       '[data-testid="connection-name-input"]',
     );
+    this.uriInput = page.locator('[data-testid="uri-input"]');
+    this.folderInput = page.locator('[data-testid="folder-input"]');
+    this.environmentSelect = page.locator('[data-testid="environment-select"]');
     this.hostInput = page.locator('[data-testid="host-input"]');
     this.portInput = page.locator('[data-testid="port-input"]');
     this.databaseInput = page.locator('[data-testid="database-input"]');
     this.usernameInput = page.locator('[data-testid="username-input"]');
     this.passwordInput = page.locator('[data-testid="password-input"]');
-    this.sslCheckbox = page.locator('[data-testid="ssl-checkbox"]');
+    this.sslModeSelect = page.locator('[data-testid="ssl-mode-select"]');
+    this.readOnlyCheckbox = page.locator('[data-testid="read-only-checkbox"]');
+    this.sslRootCertInput = page.locator('[data-testid="ssl-root-cert-input"]');
+    this.sshCheckbox = page.locator('[data-testid="ssh-checkbox"]');
+    this.sshHostInput = page.locator('[data-testid="ssh-host-input"]');
+    this.sshUsernameInput = page.locator('[data-testid="ssh-username-input"]');
+    this.sshAuthSelect = page.locator('[data-testid="ssh-auth-select"]');
+    this.sshSecretInput = page.locator('[data-testid="ssh-secret-input"]');
     this.testConnectionButton = page.locator(
       '[data-testid="test-connection-btn"]',
     );
@@ -67,7 +87,7 @@ export class ConnectionPage extends BasePage {
     database: string;
     username: string;
     password: string;
-    ssl?: boolean;
+    sslMode?: string;
   }): Promise<void> {
     await this.connectionNameInput.fill(connectionData.name);
     await this.hostInput.fill(connectionData.host);
@@ -76,8 +96,23 @@ export class ConnectionPage extends BasePage {
     await this.usernameInput.fill(connectionData.username);
     await this.passwordInput.fill(connectionData.password);
 
-    if (connectionData.ssl) {
-      await this.sslCheckbox.check();
+    if (connectionData.sslMode) {
+      await this.sslModeSelect.selectOption(connectionData.sslMode);
+    }
+  }
+
+  async fillSshTunnel(tunnel: {
+    host: string;
+    username: string;
+    authMethod: "password" | "privateKey";
+    secret?: string;
+  }): Promise<void> {
+    await this.sshCheckbox.check();
+    await this.sshHostInput.fill(tunnel.host);
+    await this.sshUsernameInput.fill(tunnel.username);
+    await this.sshAuthSelect.selectOption(tunnel.authMethod);
+    if (tunnel.secret) {
+      await this.sshSecretInput.fill(tunnel.secret);
     }
   }
 
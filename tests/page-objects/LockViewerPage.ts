@@ -0,0 +1,23 @@
+import { ElectronApplication, Page, Locator } from "@playwright/test";
+import BasePage from "./BasePage";
+
+export class LockViewerPage extends BasePage {
+  readonly viewer: Locator;
+  readonly nodes: Locator;
+  readonly blockerLinks: Locator;
+  readonly selectedQuery: Locator;
+  readonly cancelButton: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.viewer = page.locator('[data-testid="lock-viewer"]');
+    this.nodes = page.locator('[data-testid="blocking-node"]');
+    this.blockerLinks = page.locator('[data-testid="blocker-link"]');
+    this.selectedQuery = page.locator('[data-testid="blocking-query"]');
+    this.cancelButton = page.locator('[data-testid="blocking-cancel-btn"]');
+  }
+
+  async open(electronApp: ElectronApplication): Promise<void> {
+    await this.sendMenuEvent(electronApp, "lock-viewer");
+  }
+}
@@ -0,0 +1,44 @@
+import { Page, Locator } from "@playwright/test";
+import BasePage from "./BasePage";
+
+export class NotificationConsolePage extends BasePage {
+  readonly openButton: Locator;
+  readonly console: Locator;
+  readonly listenChannelInput: Locator;
+  readonly listenButton: Locator;
+  readonly listenedChannels: Locator;
+  readonly notifyChannelInput: Locator;
+  readonly notifyPayloadInput: Locator;
+  readonly notifyButton: Locator;
+  readonly notifications: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.openButton = page.locator('[data-testid="notifications-btn"]');
+    this.console = page.locator('[data-testid="notification-console"]');
+    this.listenChannelInput = page.locator(
+      '[data-testid="listen-channel-input"]',
+    );
+    this.listenButton = page.locator('[data-testid="listen-btn"]');
+    this.listenedChannels = page.locator('[data-testid="listened-channel"]');
+    this.notifyChannelInput = page.locator(
+      '[data-testid="notify-channel-input"]',
+    );
+    this.notifyPayloadInput = page.locator(
+      '[data-testid="notify-payload-input"]',
+    );
+    this.notifyButton = page.locator('[data-testid="notify-btn"]');
+    this.notifications = page.locator('[data-testid="notification-item"]');
+  }
+
+  async listen(channel: string): Promise<void> {
+    await this.listenChannelInput.fill(channel);
+    await this.listenButton.click();
+  }
+
+  async notify(channel: string, payload: string): Promise<void> {
+    await this.notifyChannelInput.fill(channel);
+    await this.notifyPayloadInput.fill(payload);
+    await this.notifyButton.click();
+  }
+}
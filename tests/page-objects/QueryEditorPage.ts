@@ -4,23 +4,61 @@ import BasePage from "./BasePage";
 export class QueryEditorPage extends BasePage {
   readonly queryEditor: Locator;
   readonly executeButton: Locator;
+  readonly runStatementButton: Locator;
   readonly resultsTable: Locator;
   readonly queryHistory: Locator;
   readonly newTabButton: Locator;
   readonly resultsInfo: Locator;
   readonly errorContainer: Locator;
   readonly cancelQueryButton: Locator;
+  readonly resultTabs: Locator;
+  readonly messagesTab: Locator;
+  readonly serverMessages: Locator;
+  readonly parameterInputs: Locator;
+  readonly timeoutsButton: Locator;
+  readonly statementTimeoutInput: Locator;
+  readonly connectionSelect: Locator;
+  readonly explainButton: Locator;
+  readonly explainAnalyzeButton: Locator;
+  readonly explainPlan: Locator;
+  readonly transactionModeSelect: Locator;
+  readonly transactionStatus: Locator;
+  readonly commitButton: Locator;
+  readonly rollbackButton: Locator;
 
   constructor(page: Page) {
     super(page);
     this.queryEditor = page.locator('[data-testid="query-editor"]');
     this.executeButton = page.locator('[data-testid="run-query-btn"]');
+    this.runStatementButton = page.locator('[data-testid="run-statement-btn"]');
     this.resultsTable = page.locator('[data-testid="results-table"]');
     this.queryHistory = page.locator('[data-testid="query-history"]');
     this.newTabButton = page.locator('[data-testid="new-tab-btn"]');
     this.resultsInfo = page.locator('[data-testid="results-info"]');
     this.errorContainer = page.locator('[data-testid="query-error"]');
     this.cancelQueryButton = page.locator('[data-testid="cancel-query-btn"]');
+    this.resultTabs = page.locator('[data-testid="result-tab"]');
+    this.messagesTab = page.locator('[data-testid="messages-tab"]');
+    this.serverMessages = page.locator('[data-testid="server-message"]');
+    this.parameterInputs = page.locator('[data-testid="parameter-value"]');
+    this.timeoutsButton = page.locator('[data-testid="timeouts-btn"]');
+    this.statementTimeoutInput = page.locator(
+      '[data-testid="timeout-statementTimeout"]',
+    );
+    this.connectionSelect = page.locator(
+      '[data-testid="tab-connection-select"]',
+    );
+    this.explainButton = page.locator('[data-testid="explain-btn"]');
+    this.explainAnalyzeButton = page.locator(
+      '[data-testid="explain-analyze-btn"]',
+    );
+    this.explainPlan = page.locator('[data-testid="explain-plan"]');
+    this.transactionModeSelect = page.locator(
+      '[data-testid="transaction-mode-select"]',
+    );
+    this.transactionStatus = page.locator('[data-testid="transaction-status"]');
+    this.commitButton = page.locator('[data-testid="commit-btn"]');
+    this.rollbackButton = page.locator('[data-testid="rollback-btn"]');
   }
 
   async openNewTab(): Promise<void> {
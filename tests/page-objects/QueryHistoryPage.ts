@@ -0,0 +1,34 @@
+import { Page, Locator } from "@playwright/test";
+import BasePage from "./BasePage";
+
+export class QueryHistoryPage extends BasePage {
+  readonly openButton: Locator;
+  readonly panel: Locator;
+  readonly searchInput: Locator;
+  readonly statusFilter: Locator;
+  readonly starredFilter: Locator;
+  readonly total: Locator;
+  readonly entries: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.openButton = page.locator('[data-testid="history-btn"]');
+    this.panel = page.locator('[data-testid="history-section"]');
+    this.searchInput = page.locator('[data-testid="history-filter-input"]');
+    this.statusFilter = page.locator('[data-testid="history-status-filter"]');
+    this.starredFilter = page.locator('[data-testid="history-starred-filter"]');
+    this.total = page.locator('[data-testid="history-total"]');
+    this.entries = page.locator('[data-testid="history-item"]');
+  }
+
+  async search(text: string): Promise<void> {
+    await this.searchInput.fill(text);
+  }
+
+  async star(index: number): Promise<void> {
+    await this.entries
+      .nth(index)
+      .locator('[data-testid="history-star-btn"]')
+      .click();
+  }
+}
@@ -0,0 +1,27 @@
+import { ElectronApplication, Page, Locator } from "@playwright/test";
+import BasePage from "./BasePage";
+
+export class SessionActivityPage extends BasePage {
+  readonly monitor: Locator;
+  readonly sessions: Locator;
+  readonly onlyActiveCheckbox: Locator;
+  readonly onlyMineCheckbox: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.monitor = page.locator('[data-testid="activity-monitor"]');
+    this.sessions = page.locator('[data-testid="activity-item"]');
+    this.onlyActiveCheckbox = page.locator(
+      '[data-testid="activity-only-active"]',
+    );
+    this.onlyMineCheckbox = page.locator('[data-testid="activity-only-mine"]');
+  }
+
+  async open(electronApp: ElectronApplication): Promise<void> {
+    await this.sendMenuEvent(electronApp, "session-activity");
+  }
+
+  sessionRunning(query: string): Locator {
+    return this.sessions.filter({ hasText: query });
+  }
+}